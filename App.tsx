@@ -10,12 +10,24 @@ import { CognitiveSearch } from './components/CognitiveSearch';
 import { SalesGPT } from './components/SalesGPT';
 import { MeetingContextConfig } from './components/MeetingContextConfig';
 import { DocumentGallery } from './components/DocumentGallery';
+import { DocumentViewer, PassageFocus } from './components/DocumentViewer';
 import { VideoGenerator } from './components/VideoGenerator';
 import { AssessmentLab } from './components/AssessmentLab';
 import { analyzeSalesContext } from './services/geminiService';
-import { fetchDocumentsFromFirebase, isFirebaseActive, getFirebasePermissionError, subscribeToAuth } from './services/firebaseService';
-import { AnalysisResult, UploadedFile, MeetingContext, StoredDocument } from './types';
-import { ICONS } from './constants';
+import { createRetrievalIndex } from './services/retrievalIndex';
+import { SyncStatus, fetchLibrary, loadLibraryContents, subscribeToSync, syncLibrary } from './services/librarySync';
+import { describeModelError } from './services/modelCall';
+import { dedupeDocuments } from './utils/duplicates';
+import { attachCitationChecks } from './utils/citationVerifier';
+import { outlineParticipants } from './utils/emailParser';
+import { StepErrorNotice } from './components/StepErrorNotice';
+import { AnalysisHistory } from './components/AnalysisHistory';
+import { StaleBriefNotice } from './components/StaleBriefNotice';
+import { captureProvenance, fingerprintSource, staleChanges } from './utils/provenance';
+import { isContentLoaded, isFirebaseActive, getFirebasePermissionError, subscribeToAuth, saveAnalysisVersion, fetchAnalysisThreads, getActiveWorkspace, setActiveWorkspace, canWriteActiveWorkspace } from './services/firebaseService';
+import { fetchWorkspaceInvites, fetchWorkspaces, rememberActiveWorkspace, rememberedActiveWorkspace, roleIn } from './services/workspaceService';
+import { AnalysisResult, UploadedFile, MeetingContext, StoredDocument, ValidationIssue, AnalysisThread, AnalysisVersion, SourceDocument, CitationRef, Workspace, AnalysisProvenance, SourceRevision } from './types';
+import { ICONS, DEFAULT_COMPETITORS } from './constants';
 import { User } from 'firebase/auth';
 
 const App: React.FC = () => {
@@ -25,12 +37,27 @@ const App: React.FC = () => {
   const [history, setHistory] = useState<StoredDocument[]>([]);
   const [selectedLibraryDocIds, setSelectedLibraryDocIds] = useState<string[]>([]);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [analysisIssues, setAnalysisIssues] = useState<ValidationIssue[]>([]);
+  // Inputs the current brief was generated from; null when unknown, which always re-runs
+  const [analysisProvenance, setAnalysisProvenance] = useState<AnalysisProvenance | null>(null);
+  const [analysisThreads, setAnalysisThreads] = useState<AnalysisThread[]>([]);
+  const [activeVersion, setActiveVersion] = useState<{ threadId: string; versionId: string } | null>(null);
+  // Why the latest brief isn't in the history, if it isn't
+  const [saveNotice, setSaveNotice] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [statusMessage, setStatusMessage] = useState("");
+  const [isLoadingLibrary, setIsLoadingLibrary] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceInvites, setWorkspaceInvites] = useState<Workspace[]>([]);
+  // undefined until the signed-in user's workspaces are known; null is the personal library
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null | undefined>(undefined);
+  const [citationFocus, setCitationFocus] = useState<{ doc: StoredDocument; focus: PassageFocus | null } | null>(null);
   const [activeTab, setActiveTab] = useState<'context' | 'strategy' | 'search' | 'practice' | 'audio' | 'gpt' | 'video' | 'qa'>('context');
 
-  const lastAnalyzedHash = useRef<string | null>(null);
+  // Library ids whose text is being fetched or failed to load, so the loader never re-requests them in a loop
+  const requestedContent = useRef<Set<string>>(new Set());
 
   const [meetingContext, setMeetingContext] = useState<MeetingContext>({
     sellerCompany: "",
@@ -52,13 +79,47 @@ const App: React.FC = () => {
     ],
     executiveSnapshot: "",
     strategicKeywords: [],
+    competitors: DEFAULT_COMPETITORS,
     baseSystemPrompt: ""
   });
 
   const loadHistory = useCallback(async () => {
-    if (!user) return;
-    const docs = await fetchDocumentsFromFirebase();
+    if (!user || activeWorkspaceId === undefined) return;
+    const docs = await fetchLibrary();
+    requestedContent.current.clear();
     setHistory(docs);
+  }, [user, activeWorkspaceId]);
+
+  // Listings arrive without chunked text; loaded documents are swapped in as they arrive
+  const mergeLoadedDocuments = useCallback((loaded: StoredDocument[]) => {
+    if (loaded.length === 0) return;
+    const byId = new Map(loaded.map(d => [d.id, d]));
+    setHistory(prev => prev.map(d => byId.get(d.id) || d));
+  }, []);
+
+  const loadAnalysisThreads = useCallback(async () => {
+    if (!user || activeWorkspaceId === undefined) return;
+    const threads = await fetchAnalysisThreads();
+    setAnalysisThreads(threads);
+  }, [user, activeWorkspaceId]);
+
+  /**
+   * Reloads memberships and invites, then activates the requested workspace, else the
+   * current one, else the one used last time. Access that was revoked falls back to the
+   * personal library, and a changed role takes effect here.
+   */
+  const loadWorkspaces = useCallback(async (requestedId?: string | null) => {
+    if (!user) return;
+    const [joined, invites] = await Promise.all([fetchWorkspaces(), fetchWorkspaceInvites()]);
+    setWorkspaces(joined);
+    setWorkspaceInvites(invites);
+
+    const wantedId = requestedId !== undefined ? requestedId : getActiveWorkspace()?.id ?? rememberedActiveWorkspace(user.uid);
+    const workspace = joined.find(w => w.id === wantedId);
+    const role = workspace ? roleIn(workspace, user.uid) : null;
+    setActiveWorkspace(workspace && role ? { id: workspace.id, role } : null);
+    if (requestedId !== undefined) rememberActiveWorkspace(user.uid, workspace ? workspace.id : null);
+    setActiveWorkspaceId(workspace && role ? workspace.id : null);
   }, [user]);
 
   useEffect(() => {
@@ -69,17 +130,62 @@ const App: React.FC = () => {
         setHistory([]);
         setFiles([]);
         setAnalysis(null);
+        setAnalysisProvenance(null);
         setSelectedLibraryDocIds([]);
+        setAnalysisThreads([]);
+        setActiveVersion(null);
+        setSaveNotice(null);
+        setWorkspaces([]);
+        setWorkspaceInvites([]);
+        setActiveWorkspace(null);
+        setActiveWorkspaceId(undefined);
       }
     });
     return unsubscribe;
   }, []);
 
+  useEffect(() => {
+    if (user) loadWorkspaces();
+  }, [user, loadWorkspaces]);
+
+  // Selections and saved analyses belong to the library they were made in
+  useEffect(() => {
+    setSelectedLibraryDocIds([]);
+    setActiveVersion(null);
+    setSaveNotice(null);
+  }, [activeWorkspaceId]);
+
   useEffect(() => {
     if (user) {
       loadHistory();
+      loadAnalysisThreads();
     }
-  }, [user, loadHistory]);
+  }, [user, loadHistory, loadAnalysisThreads]);
+
+  useEffect(() => subscribeToSync(setSyncStatus), []);
+
+  // Documents edited in another tab or by a teammate reach the stale-brief check when the user returns
+  const hasAnalysis = analysis !== null;
+  useEffect(() => {
+    if (!user || !hasAnalysis) return;
+    const refresh = () => { if (document.visibilityState === 'visible') loadHistory(); };
+    document.addEventListener('visibilitychange', refresh);
+    return () => document.removeEventListener('visibilitychange', refresh);
+  }, [user, hasAnalysis, loadHistory]);
+
+  // Changes made offline are pushed when the browser reconnects, and retried while any remain queued
+  const hasPendingWrites = (syncStatus?.pending || 0) > 0;
+  useEffect(() => {
+    if (!user) return;
+    const sync = () => syncLibrary().then(changed => { if (changed) loadHistory(); });
+    sync();
+    window.addEventListener('online', sync);
+    const retry = hasPendingWrites ? window.setInterval(sync, 60_000) : undefined;
+    return () => {
+      window.removeEventListener('online', sync);
+      window.clearInterval(retry);
+    };
+  }, [user, loadHistory, hasPendingWrites]);
 
   const toggleLibraryDoc = (id: string) => {
     setSelectedLibraryDocIds(prev => 
@@ -87,33 +193,66 @@ const App: React.FC = () => {
     );
   };
 
+  // Selected library documents are loaded in full before they can join the analysis
+  useEffect(() => {
+    const missing = history.filter(d => selectedLibraryDocIds.includes(d.id) && !isContentLoaded(d) && !requestedContent.current.has(d.id));
+    if (missing.length === 0) return;
+    missing.forEach(d => requestedContent.current.add(d.id));
+    setIsLoadingLibrary(true);
+    loadLibraryContents(missing).then(({ loaded, failed }) => {
+      mergeLoadedDocuments(loaded);
+      if (failed.length > 0) {
+        setSelectedLibraryDocIds(prev => prev.filter(id => !failed.some(f => f.doc.id === id)));
+        setError(new Error(failed.map(f => f.error).join(' ')));
+      }
+    }).finally(() => setIsLoadingLibrary(false));
+  }, [history, selectedLibraryDocIds, mergeLoadedDocuments]);
+
   const isAnyFileProcessing = useMemo(() => files.some(f => f.status === 'processing'), [files]);
   const readyFilesCount = useMemo(() => files.filter(f => f.status === 'ready').length, [files]);
   const readyLibraryCount = useMemo(() => selectedLibraryDocIds.length, [selectedLibraryDocIds]);
 
   // Combined list of all documents that are "active" (session uploads + selected library docs)
-  const activeDocuments = useMemo(() => {
-    const sessionDocs = files.filter(f => f.status === 'ready').map(f => ({ name: f.name, content: f.content }));
-    const libDocs = history.filter(d => selectedLibraryDocIds.includes(d.id)).map(d => ({ name: d.name, content: d.content }));
-    return [...sessionDocs, ...libDocs];
+  // Copies of the same document are dropped so they aren't sent to the model twice
+  const { kept: activeDocuments, dropped: duplicateDocuments } = useMemo(() => {
+    const sessionDocs: SourceDocument[] = files.filter(f => f.status === 'ready').map(f => ({ name: f.name, content: f.content }));
+    const libDocs: SourceDocument[] = history.filter(d => selectedLibraryDocIds.includes(d.id) && isContentLoaded(d)).map(d => ({ id: d.id, name: d.name, content: d.content, revision: d.revision || 0 }));
+    return dedupeDocuments([...sessionDocs, ...libDocs]);
   }, [files, history, selectedLibraryDocIds]);
 
-  const generateStateHash = useCallback(() => {
-    const fileIds = files.map(f => `${f.name}-${f.content.length}`).join('|');
-    const libIds = selectedLibraryDocIds.sort().join('|');
-    const ctxString = JSON.stringify(meetingContext);
-    return `${fileIds}-${libIds}-${ctxString}`;
-  }, [files, selectedLibraryDocIds, meetingContext]);
+  // People on ingested email threads, offered as client name suggestions
+  const emailParticipants = useMemo(() => {
+    const byEmail = new Map(activeDocuments.flatMap(d => outlineParticipants(d.content)).map(p => [p.email, p]));
+    return [...byEmail.values()];
+  }, [activeDocuments]);
+
+  // Chat and search prompts receive only the top-ranked passages from this index
+  const retrievalIndex = useMemo(() => createRetrievalIndex(activeDocuments), [activeDocuments]);
+
+  // Fingerprints of the live inputs; selected library documents still loading are compared by revision
+  const liveSources = useMemo<SourceRevision[]>(() => [
+    ...activeDocuments.map(fingerprintSource),
+    ...history
+      .filter(d => selectedLibraryDocIds.includes(d.id) && !isContentLoaded(d))
+      .map(d => ({ id: d.id, name: d.name, revision: d.revision || 0 }))
+  ], [activeDocuments, history, selectedLibraryDocIds]);
+
+  const staleBrief = useMemo(
+    () => analysisProvenance ? staleChanges(analysisProvenance, liveSources, meetingContext) : [],
+    [analysisProvenance, liveSources, meetingContext]
+  );
 
   const runAnalysis = useCallback(async () => {
     if (activeDocuments.length === 0) {
       setError("Please ensure at least one document (from library or upload) is ready for analysis.");
       return;
     }
+    if (isLoadingLibrary) {
+      setError("Selected library documents are still loading. Try again in a moment.");
+      return;
+    }
 
-    const currentHash = generateStateHash();
-    
-    if (analysis && currentHash === lastAnalyzedHash.current) {
+    if (analysis && analysisProvenance && staleBrief.length === 0) {
       setActiveTab('strategy');
       return;
     }
@@ -124,26 +263,101 @@ const App: React.FC = () => {
 
     try {
       const combinedContent = activeDocuments.map(d => `DOC NAME: ${d.name}\n${d.content}`).join('\n\n');
-      const result = await analyzeSalesContext(combinedContent, meetingContext);
+      const { value: raw, issues } = await analyzeSalesContext(combinedContent, meetingContext);
+      const result = attachCitationChecks(raw, activeDocuments);
+      const provenance = captureProvenance(activeDocuments, meetingContext);
       
       setAnalysis(result);
-      lastAnalyzedHash.current = currentHash;
+      setAnalysisIssues(issues);
+      setAnalysisProvenance(provenance);
       setActiveTab('strategy');
+
+      // Persist as a new version; a failed save must not cost the user their brief.
+      setActiveVersion(null);
+      if (!canWriteActiveWorkspace()) {
+        setSaveNotice("Viewers can't add briefs to this workspace's history.");
+        return;
+      }
+      try {
+        const saved = await saveAnalysisVersion(result, meetingContext, activeDocuments.map(d => d.name), selectedLibraryDocIds, provenance.sources);
+        setActiveVersion(saved);
+        setSaveNotice(null);
+        if (saved) loadAnalysisThreads();
+      } catch (saveErr) {
+        setSaveNotice(describeModelError(saveErr));
+      }
     } catch (err: any) {
       console.error(err);
-      setError(err.message || "An unexpected error occurred during analysis.");
+      setError(err);
     } finally {
       setIsAnalyzing(false);
       setStatusMessage("");
     }
-  }, [activeDocuments, meetingContext, analysis, generateStateHash]);
+  }, [activeDocuments, meetingContext, analysis, analysisProvenance, staleBrief, selectedLibraryDocIds, loadAnalysisThreads, isLoadingLibrary]);
+
+  const restoreVersion = async (version: AnalysisVersion, thread: AnalysisThread) => {
+    // Reselect the source documents that still exist: by id first, then by name for session uploads.
+    const byId = history.filter(d => thread.sourceDocumentIds.includes(d.id));
+    const coveredNames = new Set(byId.map(d => d.name));
+    const byName = thread.sourceDocuments
+      .filter(name => !coveredNames.has(name))
+      .map(name => history.find(d => d.name === name))
+      .filter((d): d is StoredDocument => !!d);
+
+    // Checks need the full text; documents that fail to load are left out of the restored set
+    setIsLoadingLibrary(true);
+    const { loaded: sources } = await loadLibraryContents([...byId, ...byName]);
+    setIsLoadingLibrary(false);
+    mergeLoadedDocuments(sources);
+
+    setFiles([]);
+    setSelectedLibraryDocIds(sources.map(d => d.id));
+    const context = { ...meetingContext, ...version.context };
+    setMeetingContext(context);
+    // Checks are recomputed against the documents as they are now
+    setAnalysis(attachCitationChecks(version.result, sources));
+    setAnalysisIssues([]);
+    setActiveVersion({ threadId: thread.id, versionId: version.id });
+    setSaveNotice(null);
+    // The brief is checked against what it was built from; versions saved before that was recorded always re-run
+    setAnalysisProvenance(version.sourceRevisions ? { sources: version.sourceRevisions, context } : null);
+    setError(null);
+    setActiveTab('strategy');
+  };
+
+  const openCitation = (citation: CitationRef) => {
+    // Session uploads are wrapped as unsaved documents so their passages can be shown too.
+    const sessionDocs: StoredDocument[] = files
+      .filter(f => f.status === 'ready')
+      .map(f => ({ id: '', name: f.name, content: f.content, timestamp: Date.now(), type: f.type, metadata: f.metadata }));
+    const pool = [...history.filter(isContentLoaded), ...sessionDocs.filter(f => !history.some(d => d.name === f.name))];
+
+    // Re-check at click time so offsets match the current text, even after edits.
+    const claimed = citation.sourceFile ?? citation.source ?? '';
+    const { check } = attachCitationChecks({ snippet: citation.snippet, sourceFile: claimed }, pool) as CitationRef;
+    const target = check?.matchedFile || claimed;
+    const doc = pool.find(d => d.name === target)
+      || pool.find(d => target && (d.name.includes(target) || target.includes(d.name)));
+
+    if (!doc) {
+      alert(`"${claimed || 'Unknown source'}" is no longer available in the library or this session.`);
+      return;
+    }
+    const located = check && check.matchedFile === doc.name && check.status !== 'unverified';
+    setCitationFocus({
+      doc,
+      focus: { snippet: citation.snippet, start: located ? check.start : undefined, end: located ? check.end : undefined }
+    });
+  };
 
   const reset = () => {
     if(confirm("Are you sure you want to wipe current strategy context?")) {
       setFiles([]);
       setSelectedLibraryDocIds([]);
       setAnalysis(null);
-      lastAnalyzedHash.current = null;
+      setActiveVersion(null);
+      setSaveNotice(null);
+      setAnalysisProvenance(null);
       setError(null);
       setActiveTab('context');
     }
@@ -166,7 +380,14 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-slate-50">
-      <Header user={user} />
+      <Header
+        user={user}
+        workspaces={workspaces}
+        workspaceInvites={workspaceInvites}
+        activeWorkspaceId={activeWorkspaceId ?? null}
+        onSwitchWorkspace={(id) => loadWorkspaces(id)}
+        onWorkspacesChanged={() => loadWorkspaces()}
+      />
       
       <div className="pt-16 flex min-h-screen">
         {/* Persistent Sidebar Navigation */}
@@ -227,54 +448,84 @@ const App: React.FC = () => {
                       <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                         <ICONS.Research /> Cognitive Library Hub
                       </h3>
-                      {(!isFirebaseActive() || hasPermissionError) && (
-                        <span className={`px-3 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg border ${hasPermissionError ? 'bg-rose-50 text-rose-600 border-rose-100' : 'bg-amber-50 text-amber-600 border-amber-100'}`}>
-                          {hasPermissionError ? 'Permission Interrupted' : 'Firebase Offline'}
-                        </span>
-                      )}
+                      <div className="flex items-center gap-2">
+                        {(!isFirebaseActive() || hasPermissionError || syncStatus?.offline) && (
+                          <span className={`px-3 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg border ${hasPermissionError ? 'bg-rose-50 text-rose-600 border-rose-100' : 'bg-amber-50 text-amber-600 border-amber-100'}`}>
+                            {hasPermissionError ? 'Permission Interrupted' : 'Firebase Offline'}
+                          </span>
+                        )}
+                        {syncStatus && (syncStatus.syncing || syncStatus.pending > 0) && (
+                          <span className={`px-3 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg border bg-indigo-50 text-indigo-600 border-indigo-100 ${syncStatus.syncing ? 'animate-pulse' : ''}`}>
+                            {syncStatus.syncing ? 'Syncing...' : `${syncStatus.pending} Change${syncStatus.pending === 1 ? '' : 's'} Queued`}
+                          </span>
+                        )}
+                        {syncStatus && syncStatus.conflicts > 0 && (
+                          <span className="px-3 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg border bg-rose-50 text-rose-600 border-rose-100">
+                            {syncStatus.conflicts} Sync Conflict{syncStatus.conflicts === 1 ? '' : 's'}
+                          </span>
+                        )}
+                      </div>
                    </div>
                    <DocumentGallery 
                      documents={history} 
                      onRefresh={loadHistory} 
+                     onImported={() => { loadHistory(); loadAnalysisThreads(); }}
                      selectedIds={selectedLibraryDocIds}
                      onToggleSelect={toggleLibraryDoc}
+                     onDocumentsLoaded={mergeLoadedDocuments}
                      onSynthesize={runAnalysis}
                      isAnalyzing={isAnalyzing}
                    />
                 </div>
 
-                <MeetingContextConfig context={meetingContext} onContextChange={setMeetingContext} />
+                {analysisThreads.length > 0 && (
+                  <div className="bg-white rounded-[3rem] shadow-2xl p-10 border border-slate-200">
+                    <div className="flex items-center justify-between mb-8">
+                      <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                        <ICONS.Brain /> Saved Briefs
+                      </h3>
+                      <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Version timeline per client & document set</p>
+                    </div>
+                    <AnalysisHistory threads={analysisThreads} activeThreadId={activeVersion?.threadId} activeVersionId={activeVersion?.versionId} onRestore={restoreVersion} />
+                  </div>
+                )}
+
+                <MeetingContextConfig context={meetingContext} onContextChange={setMeetingContext} participants={emailParticipants} />
 
                 <div className="bg-white rounded-[3rem] shadow-2xl p-10 border border-slate-200">
                   <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2 mb-8">
                     <ICONS.Document /> Documentary Memory Store
                   </h3>
-                  <FileUpload files={files} onFilesChange={setFiles} onUploadSuccess={loadHistory} />
+                  <FileUpload files={files} onFilesChange={setFiles} onUploadSuccess={loadHistory} library={history} />
                   
                   <div className="mt-12 flex flex-col items-center gap-6">
-                    {error && (
-                      <div className="bg-rose-50 border border-rose-100 rounded-2xl p-6 mb-8 max-w-xl text-center">
-                        <p className="text-rose-600 font-bold mb-2">⚠️ Analysis Interrupted</p>
-                        <p className="text-rose-500 text-sm">{error}</p>
+                    {error !== null && (
+                      <div className="mb-8 max-w-xl w-full">
+                        <StepErrorNotice error={error} onRetry={runAnalysis} onDismiss={() => setError(null)} />
                       </div>
                     )}
                     <div className="flex flex-col items-center gap-4">
                       <button
                         onClick={runAnalysis}
-                        disabled={activeDocuments.length === 0 || isAnyFileProcessing}
+                        disabled={activeDocuments.length === 0 || isAnyFileProcessing || isLoadingLibrary}
                         className={`
                           flex items-center gap-3 px-16 py-6 rounded-full font-black text-xl shadow-2xl transition-all
-                          ${(activeDocuments.length > 0 && !isAnyFileProcessing)
+                          ${(activeDocuments.length > 0 && !isAnyFileProcessing && !isLoadingLibrary)
                             ? 'bg-indigo-600 text-white hover:bg-indigo-700 hover:scale-105 active:scale-95 cursor-pointer shadow-indigo-200' 
                             : 'bg-slate-200 text-slate-400 cursor-not-allowed shadow-none'}
                         `}
                       >
                         <ICONS.Brain />
-                        {isAnyFileProcessing ? 'Retaining Documents...' : 'Synthesize Strategy Core'}
+                        {isAnyFileProcessing ? 'Retaining Documents...' : isLoadingLibrary ? 'Loading Library Documents...' : 'Synthesize Strategy Core'}
                       </button>
                       <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest italic text-center max-w-md">
                         Synthesizing {activeDocuments.length} documents for {meetingContext.clientCompany || 'prospect'}
                       </p>
+                      {duplicateDocuments.length > 0 && (
+                        <p className="text-[10px] text-amber-600 font-bold text-center max-w-md" title={duplicateDocuments.map(d => `${d.doc.name} → ${d.duplicateOf.name}`).join('\n')}>
+                          Skipping {duplicateDocuments.length} duplicate{duplicateDocuments.length === 1 ? '' : 's'}: {duplicateDocuments.map(d => d.doc.name).join(', ')}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -306,17 +557,28 @@ const App: React.FC = () => {
                       <DocumentGallery 
                         documents={history} 
                         onRefresh={loadHistory} 
+                        onImported={() => { loadHistory(); loadAnalysisThreads(); }}
                         selectedIds={selectedLibraryDocIds}
                         onToggleSelect={toggleLibraryDoc}
+                        onDocumentsLoaded={mergeLoadedDocuments}
                         onSynthesize={runAnalysis}
                         isAnalyzing={isAnalyzing}
                       />
                       <div className="mt-10 pt-8 border-t border-slate-100">
                          <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-4">Ingest New Intelligence</h4>
-                         <FileUpload files={files} onFilesChange={setFiles} onUploadSuccess={loadHistory} />
+                         <FileUpload files={files} onFilesChange={setFiles} onUploadSuccess={loadHistory} library={history} />
+                      </div>
+                    </div>
+                    <div className="bg-white rounded-[3rem] shadow-2xl p-10 border border-slate-200">
+                      <div className="flex items-center justify-between mb-8">
+                        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                          <ICONS.Brain /> Saved Briefs
+                        </h3>
+                        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Version timeline per client & document set</p>
                       </div>
+                      <AnalysisHistory threads={analysisThreads} activeThreadId={activeVersion?.threadId} activeVersionId={activeVersion?.versionId} onRestore={restoreVersion} />
                     </div>
-                    <MeetingContextConfig context={meetingContext} onContextChange={setMeetingContext} />
+                    <MeetingContextConfig context={meetingContext} onContextChange={setMeetingContext} participants={emailParticipants} />
                     <div className="flex justify-center pb-10">
                       <button 
                         onClick={runAnalysis}
@@ -329,18 +591,40 @@ const App: React.FC = () => {
                     </div>
                   </div>
                 )}
-                {activeTab === 'strategy' && <AnalysisView result={analysis!} files={files} context={meetingContext} />}
-                {activeTab === 'search' && <CognitiveSearch activeDocuments={activeDocuments} context={meetingContext} />}
-                {activeTab === 'gpt' && <SalesGPT activeDocuments={activeDocuments} meetingContext={meetingContext} />}
+                {analysis && saveNotice && activeTab === 'strategy' && (
+                  <div className="mb-8 bg-amber-50 border border-amber-100 rounded-2xl px-6 py-4 flex items-center justify-between gap-6">
+                    <div className="min-w-0">
+                      <p className="text-amber-700 font-bold text-sm">Brief Not Saved To History</p>
+                      <p className="text-amber-600 text-xs">{saveNotice}</p>
+                    </div>
+                    <button onClick={() => setSaveNotice(null)} className="text-[9px] font-black uppercase tracking-widest text-amber-600 hover:text-amber-800 shrink-0">Dismiss</button>
+                  </div>
+                )}
+                {analysis && staleBrief.length > 0 && ['strategy', 'audio', 'practice'].includes(activeTab) && (
+                  <StaleBriefNotice changes={staleBrief} isAnalyzing={isAnalyzing} onRerun={runAnalysis} />
+                )}
+                {activeTab === 'strategy' && <AnalysisView result={analysis!} files={files} context={meetingContext} issues={analysisIssues} onOpenCitation={openCitation} />}
+                {activeTab === 'search' && <CognitiveSearch activeDocuments={activeDocuments} retrievalIndex={retrievalIndex} context={meetingContext} onOpenCitation={openCitation} />}
+                {activeTab === 'gpt' && <SalesGPT activeDocuments={activeDocuments} retrievalIndex={retrievalIndex} meetingContext={meetingContext} />}
                 {activeTab === 'video' && <VideoGenerator context={meetingContext} />}
                 {activeTab === 'audio' && <AudioGenerator analysis={analysis!} />}
                 {activeTab === 'practice' && <PracticeSession analysis={analysis!} />}
-                {activeTab === 'qa' && <AssessmentLab activeDocuments={activeDocuments} />}
+                {activeTab === 'qa' && <AssessmentLab activeDocuments={activeDocuments} onOpenCitation={openCitation} />}
               </div>
             )}
           </div>
         </main>
       </div>
+
+      {citationFocus && (
+        <DocumentViewer
+          doc={citationFocus.doc}
+          focus={citationFocus.focus}
+          onClose={() => setCitationFocus(null)}
+          // Edited text invalidates the offsets, so the passage is no longer highlighted
+          onSaved={(updated) => { loadHistory(); setCitationFocus({ doc: updated, focus: null }); }}
+        />
+      )}
     </div>
   );
 };
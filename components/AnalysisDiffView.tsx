@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult, DiffEntry, DiffStatus } from '../types';
+import { diffAnalyses } from '../utils/analysisDiff';
+
+interface AnalysisDiffViewProps {
+  before: AnalysisResult;
+  after: AnalysisResult;
+  beforeLabel: string;
+  afterLabel: string;
+  onClose?: () => void;
+}
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  added: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  removed: 'bg-rose-50 text-rose-600 border-rose-100',
+  modified: 'bg-amber-50 text-amber-600 border-amber-100',
+  unchanged: 'bg-slate-50 text-slate-400 border-slate-100'
+};
+
+const countChanges = (entries: DiffEntry<unknown>[]) => entries.filter(e => e.status !== 'unchanged').length;
+
+/**
+ * Shows how the deal understanding moved between two analyses: snapshot fields,
+ * metric deltas and aligned priorities, objections and opening lines.
+ */
+export const AnalysisDiffView: React.FC<AnalysisDiffViewProps> = ({ before, after, beforeLabel, afterLabel, onClose }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const diff = useMemo(() => diffAnalyses(before, after), [before, after]);
+
+  const sections = [
+    { title: 'Priorities', entries: diff.priorities, text: (p: { text: string }) => p.text },
+    { title: 'Likely Objections', entries: diff.likelyObjections, text: (o: { text: string }) => o.text },
+    { title: 'Objection Handling', entries: diff.objectionHandling, text: (o: { objection: string; exactWording: string }) => `${o.objection} — “${o.exactWording}”` },
+    { title: 'Opening Lines', entries: diff.openingLines, text: (o: { text: string; label: string }) => `${o.label}: ${o.text}` }
+  ] as { title: string; entries: DiffEntry<any>[]; text: (item: any) => string }[];
+
+  const totalChanges = diff.snapshotFields.length
+    + diff.metrics.filter(m => m.delta !== 0).length
+    + sections.reduce((sum, s) => sum + countChanges(s.entries), 0);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-[2rem] p-8 space-y-8 animate-in fade-in">
+      <div className="flex items-start justify-between gap-6">
+        <div>
+          <p className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500 mb-2">Deal Evolution</p>
+          <h4 className="text-lg font-black text-slate-800">{beforeLabel} → {afterLabel}</h4>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">{totalChanges} changes detected</p>
+        </div>
+        <div className="flex items-center gap-4 shrink-0">
+          <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">
+            <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} className="accent-indigo-600" />
+            Show Unchanged
+          </label>
+          {onClose && (
+            <button onClick={onClose} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-700">Close</button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-3">
+          <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Buyer Snapshot</h5>
+          {diff.snapshotFields.length === 0 ? (
+            <p className="text-xs text-slate-300 italic">No change in role, style or tone.</p>
+          ) : diff.snapshotFields.map(change => (
+            <div key={change.field} className="p-4 bg-slate-50 rounded-2xl space-y-1">
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">{change.label}</p>
+              <p className="text-xs text-rose-500 line-through">{change.before || '—'}</p>
+              <p className="text-xs text-emerald-600 font-semibold">{change.after || '—'}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Psychological Metrics</h5>
+          {diff.metrics.map(metric => (
+            <div key={metric.key} className="flex items-center gap-4">
+              <span className="w-32 text-[10px] font-bold text-slate-600 uppercase tracking-wider">{metric.label}</span>
+              <div className="flex-1 relative h-2 bg-slate-100 rounded-full">
+                <div className="absolute h-2 bg-slate-300 rounded-full" style={{ width: `${metric.before}%` }}></div>
+                <div className="absolute h-2 bg-indigo-500/70 rounded-full" style={{ width: `${metric.after}%` }}></div>
+              </div>
+              <span className="w-16 text-[10px] font-bold text-slate-400 text-right">{metric.before} → {metric.after}</span>
+              <span className={`w-12 text-center px-2 py-0.5 rounded-full text-[9px] font-black ${metric.delta > 0 ? 'bg-emerald-50 text-emerald-600' : metric.delta < 0 ? 'bg-rose-50 text-rose-600' : 'bg-slate-50 text-slate-400'}`}>
+                {metric.delta > 0 ? `+${metric.delta}` : metric.delta}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {sections.map(section => {
+        const visible = section.entries.filter(e => showUnchanged || e.status !== 'unchanged');
+        return (
+          <div key={section.title} className="space-y-3">
+            <div className="flex items-center gap-3">
+              <h5 className="text-[10px] font-black uppercase tracking-widest text-slate-400">{section.title}</h5>
+              <span className="text-[9px] font-bold text-slate-300">{countChanges(section.entries)} changed</span>
+            </div>
+            {visible.length === 0 ? (
+              <p className="text-xs text-slate-300 italic">No changes.</p>
+            ) : visible.map((entry, idx) => (
+              <div key={idx} className="flex items-start gap-4 p-4 border border-slate-100 rounded-2xl">
+                <span className={`shrink-0 px-2 py-0.5 rounded-full border text-[8px] font-black uppercase tracking-widest ${STATUS_STYLES[entry.status]}`}>
+                  {entry.status}
+                </span>
+                <div className="min-w-0 space-y-1">
+                  {entry.status === 'modified' && (
+                    <p className="text-xs text-rose-400 line-through">{section.text(entry.before)}</p>
+                  )}
+                  <p className={`text-xs ${entry.status === 'removed' ? 'text-rose-500 line-through' : 'text-slate-700'}`}>
+                    {section.text(entry.after ?? entry.before)}
+                  </p>
+                  {entry.status === 'modified' && entry.changedFields.length > 1 && (
+                    <p className="text-[9px] font-bold uppercase tracking-widest text-amber-500">Changed: {entry.changedFields.join(', ')}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { AnalysisThread, AnalysisVersion } from '../types';
+import { ICONS } from '../constants';
+import { fetchAnalysisVersions } from '../services/firebaseService';
+import { AnalysisDiffView } from './AnalysisDiffView';
+
+interface AnalysisHistoryProps {
+  threads: AnalysisThread[];
+  activeThreadId?: string | null;
+  activeVersionId?: string | null;
+  onRestore: (version: AnalysisVersion, thread: AnalysisThread) => void;
+}
+
+const formatStamp = (ts: number) => new Date(ts).toLocaleString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+/**
+ * Saved briefs grouped by client and document set, each with its timeline of versions.
+ * Versions are loaded lazily when a thread is expanded.
+ */
+export const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({ threads, activeThreadId, activeVersionId, onRestore }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(activeThreadId || null);
+  const [versions, setVersions] = useState<AnalysisVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const expanded = threads.find(t => t.id === expandedId) || null;
+
+  useEffect(() => {
+    if (activeThreadId) setExpandedId(activeThreadId);
+  }, [activeThreadId]);
+
+  useEffect(() => {
+    setCompareIds([]);
+  }, [expandedId]);
+
+  // Re-fetch when a new version lands on the expanded thread
+  useEffect(() => {
+    if (!expanded) {
+      setVersions([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    fetchAnalysisVersions(expanded.id).then(list => {
+      if (cancelled) return;
+      setVersions(list);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [expanded?.id, expanded?.versionCount]);
+
+  // Keeps at most two picks; the older one is always shown as the baseline.
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+  };
+
+  const versionLabel = (version: AnalysisVersion) => `v${versions.length - versions.indexOf(version)}`;
+  const comparePair = compareIds.length === 2
+    ? versions.filter(v => compareIds.includes(v.id)).sort((a, b) => a.createdAt - b.createdAt)
+    : [];
+
+  if (threads.length === 0) {
+    return (
+      <div className="py-10 border-2 border-dashed border-slate-100 rounded-[2rem] text-center bg-slate-50/50">
+        <p className="text-slate-300 text-xs italic">No saved briefs yet. Each synthesis is stored here automatically.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {threads.map(thread => {
+        const isOpen = thread.id === expandedId;
+        return (
+          <div key={thread.id} className={`border rounded-[2rem] transition-all ${isOpen ? 'border-indigo-200 bg-indigo-50/30' : 'border-slate-100 bg-white hover:border-indigo-200'}`}>
+            <button
+              onClick={() => setExpandedId(isOpen ? null : thread.id)}
+              className="w-full flex items-center justify-between gap-6 p-5 text-left"
+            >
+              <div className="flex items-center gap-4 min-w-0">
+                <div className={`p-3 rounded-2xl shrink-0 ${isOpen ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-500'}`}>
+                  <ICONS.Brain className="w-4 h-4" />
+                </div>
+                <div className="min-w-0">
+                  <h5 className="text-sm font-black text-slate-800 truncate">{thread.clientCompany || 'Unnamed Prospect'}</h5>
+                  <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest truncate">
+                    {thread.sourceDocuments.length} docs · {thread.sourceDocuments.join(', ')}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <span className="text-[8px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 px-3 py-1 rounded-full">
+                  {thread.versionCount} {thread.versionCount === 1 ? 'Version' : 'Versions'}
+                </span>
+                <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{formatStamp(thread.updatedAt)}</span>
+              </div>
+            </button>
+
+            {isOpen && (
+              <div className="px-5 pb-5">
+                {isLoading ? (
+                  <p className="text-[9px] font-black uppercase tracking-widest text-indigo-400 animate-pulse px-2">Loading Timeline...</p>
+                ) : versions.length === 0 ? (
+                  <p className="text-[10px] text-slate-400 italic px-2">No readable versions in this thread.</p>
+                ) : (
+                  <ol className="relative border-l-2 border-indigo-100 ml-4 space-y-3">
+                    {versions.map(version => {
+                      const isActive = version.id === activeVersionId;
+                      const isPicked = compareIds.includes(version.id);
+                      return (
+                        <li key={version.id} className="ml-6 relative">
+                          <span className={`absolute -left-[33px] top-3 w-3 h-3 rounded-full border-2 ${isActive ? 'bg-emerald-500 border-emerald-500' : 'bg-white border-indigo-300'}`}></span>
+                          <div className="flex items-center justify-between gap-4 bg-white border border-slate-100 rounded-2xl px-4 py-3">
+                            <div className="min-w-0">
+                              <p className="text-xs font-black text-slate-700">
+                                {versionLabel(version)} · {formatStamp(version.createdAt)}
+                              </p>
+                              <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest truncate">
+                                {version.context.persona} persona · {version.context.thinkingLevel} thinking · {version.result.snapshot.role}
+                              </p>
+                              {version.sourceRevisions && version.sourceRevisions.some(s => s.id) && (
+                                <p className="text-[9px] font-bold text-indigo-300 truncate" title="Library revisions this version was built from">
+                                  {version.sourceRevisions.filter(s => s.id).map(s => `${s.name} r${s.revision}`).join(' · ')}
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                              {versions.length > 1 && (
+                                <button
+                                  onClick={() => toggleCompare(version.id)}
+                                  className={`px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${isPicked ? 'bg-amber-50 text-amber-600 border-amber-200' : 'text-slate-400 border-slate-200 hover:text-indigo-600 hover:border-indigo-200'}`}
+                                >
+                                  {isPicked ? 'Comparing' : 'Compare'}
+                                </button>
+                              )}
+                              {isActive ? (
+                                <span className="text-[8px] font-black uppercase tracking-widest text-emerald-600 bg-emerald-50 px-3 py-1 rounded-lg border border-emerald-100 shrink-0">Active</span>
+                              ) : (
+                                <button
+                                  onClick={() => onRestore(version, thread)}
+                                  className="shrink-0 px-4 py-2 bg-indigo-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-indigo-700 active:scale-95 transition-all"
+                                >
+                                  Restore
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+                {comparePair.length === 2 && (
+                  <div className="mt-6">
+                    <AnalysisDiffView
+                      before={comparePair[0].result}
+                      after={comparePair[1].result}
+                      beforeLabel={versionLabel(comparePair[0])}
+                      afterLabel={versionLabel(comparePair[1])}
+                      onClose={() => setCompareIds([])}
+                    />
+                  </div>
+                )}
+                {compareIds.length === 1 && (
+                  <p className="mt-4 text-[9px] font-black uppercase tracking-widest text-amber-500 px-2">Pick a second version to compare</p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
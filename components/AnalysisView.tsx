@@ -1,13 +1,18 @@
 
 import React, { useState, useRef, useMemo } from 'react';
-import { AnalysisResult, Citation, UploadedFile, BuyerSnapshot, MeetingContext, CompetitorInsight, MatrixItem } from '../types';
+import { AnalysisResult, Citation, CitationCheck, CitationRef, UploadedFile, BuyerSnapshot, MeetingContext, CompetitorInsight, MatrixItem, ValidationIssue } from '../types';
 import { ICONS } from '../constants';
 import { generatePitchAudio, decodeAudioData } from '../services/geminiService';
+import { ValidationNotice } from './ValidationNotice';
+import { CitationBadge } from './CitationBadge';
+import { summarizeCitationChecks } from '../utils/citationVerifier';
 
 interface AnalysisViewProps {
   result: AnalysisResult;
   files: UploadedFile[];
   context: MeetingContext;
+  issues?: ValidationIssue[];
+  onOpenCitation?: (citation: CitationRef) => void;
 }
 
 const VOICES = [
@@ -76,7 +81,7 @@ const SWOTItem = ({ label, items, color, symbol }: { label: string, items: strin
   </div>
 );
 
-const CompetitorCard = ({ comp, name }: { comp: CompetitorInsight, name: string }) => (
+const CompetitorCard = ({ comp, name, onOpenCitation }: { comp: CompetitorInsight, name: string, onOpenCitation?: (citation: CitationRef) => void }) => (
   <div className="p-10 rounded-[4rem] bg-white border border-slate-100 hover:border-indigo-300 hover:shadow-[0_40px_80px_-15px_rgba(79,70,229,0.12)] transition-all duration-700 group flex flex-col h-full relative overflow-hidden">
     <div className="absolute top-0 right-0 p-8 opacity-[0.03] group-hover:opacity-10 transition-opacity">
        <ICONS.Trophy className="w-48 h-48" />
@@ -90,6 +95,9 @@ const CompetitorCard = ({ comp, name }: { comp: CompetitorInsight, name: string
            <div className="flex items-center gap-2 mt-1">
               <span className={`w-2 h-2 rounded-full ${comp.threatProfile === 'Direct' ? 'bg-rose-500' : 'bg-emerald-500'}`}></span>
               <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{comp.threatProfile} Threat Profile</span>
+              {comp.source === 'discovered' && (
+                <span className="px-2 py-0.5 bg-amber-50 text-amber-600 rounded-full text-[8px] font-black uppercase tracking-widest">Found in Docs</span>
+              )}
            </div>
         </div>
       </div>
@@ -102,23 +110,30 @@ const CompetitorCard = ({ comp, name }: { comp: CompetitorInsight, name: string
     <p className="text-xs text-slate-500 font-medium mb-8 leading-relaxed italic border-l-4 border-slate-100 pl-4">“{comp.overview}”</p>
 
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1">
-      <SWOTItem label="Strengths" items={comp.strengths || []} color="emerald" symbol="S" />
-      <SWOTItem label="Weaknesses" items={comp.weaknesses || []} color="rose" symbol="W" />
-      <SWOTItem label="Opportunities" items={comp.opportunities || []} color="indigo" symbol="O" />
-      <SWOTItem label="Threats" items={comp.threats || []} color="amber" symbol="T" />
+      <SWOTItem label="Strengths" items={comp.strengths} color="emerald" symbol="S" />
+      <SWOTItem label="Weaknesses" items={comp.weaknesses} color="rose" symbol="W" />
+      <SWOTItem label="Opportunities" items={comp.opportunities} color="indigo" symbol="O" />
+      <SWOTItem label="Threats" items={comp.threats} color="amber" symbol="T" />
     </div>
 
     <div className="mt-8 pt-6 border-t border-slate-50 flex items-center justify-between">
        <div className="flex items-center gap-2">
           <ICONS.Document className="w-3 h-3 text-slate-300" />
           <span className="text-[8px] font-bold text-slate-400 truncate max-w-[150px]">{comp.citation.sourceFile}</span>
+          <CitationBadge check={comp.citation.check} />
        </div>
-       <button className="text-[9px] font-black uppercase text-indigo-600 tracking-widest hover:text-indigo-800 transition-colors">View Citation Details</button>
+       <button
+         onClick={() => onOpenCitation?.(comp.citation)}
+         disabled={!onOpenCitation || !comp.citation.snippet}
+         className="text-[9px] font-black uppercase text-indigo-600 tracking-widest hover:text-indigo-800 transition-colors disabled:opacity-30"
+       >
+         View Citation Details
+       </button>
     </div>
   </div>
 );
 
-export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, context }) => {
+export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, context, issues = [], onOpenCitation }) => {
   const [highlightedSnippet, setHighlightedSnippet] = useState<string | null>(null);
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
   const [selectedVoice, setSelectedVoice] = useState('Kore');
@@ -135,16 +150,28 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
     { label: "Innovation", value: result.snapshot.metrics.innovationAppetite },
   ], [result.snapshot]);
 
+  const competitiveSummary = useMemo(() => {
+    const [primary, secondary] = result.competitiveHub;
+    const anchor = `by anchoring on our ${(result.snapshot.priorities[0]?.text || "core value").toLowerCase()} advantage`;
+    if (!primary) return `Win ${anchor}.`;
+    const exploit = `Exploit ${primary.name}'s ${(primary.weaknesses[0] || "logic gaps").toLowerCase()}`;
+    if (!secondary) return `${exploit} ${anchor}.`;
+    return `${exploit} while countering ${secondary.name}'s ${(secondary.strengths[0] || "market presence").toLowerCase()} ${anchor}.`;
+  }, [result]);
+
   const evidenceIndex = useMemo(() => {
-    const list: { source: string; snippet: string; category: string }[] = [];
-    if (result.snapshot.roleCitation) list.push({ source: result.snapshot.roleCitation.sourceFile, snippet: result.snapshot.roleCitation.snippet, category: 'Persona' });
-    result.snapshot.priorities.forEach(p => list.push({ source: p.citation.sourceFile, snippet: p.citation.snippet, category: 'Priority' }));
-    result.groundMatrix?.forEach(m => list.push({ source: m.evidence.sourceFile, snippet: m.evidence.snippet, category: 'Ground Fact' }));
-    result.objectionHandling.forEach(o => list.push({ source: o.citation.sourceFile, snippet: o.citation.snippet, category: 'Objection Defense' }));
-    result.documentInsights.entities.forEach(e => list.push({ source: e.citation.sourceFile, snippet: e.citation.snippet, category: 'Entity Discovery' }));
+    const list: { source: string; snippet: string; category: string; check?: CitationCheck }[] = [];
+    const add = (c: Citation, category: string) => list.push({ source: c.sourceFile, snippet: c.snippet, category, check: c.check });
+    if (result.snapshot.roleCitation) add(result.snapshot.roleCitation, 'Persona');
+    result.snapshot.priorities.forEach(p => add(p.citation, 'Priority'));
+    result.groundMatrix.forEach(m => add(m.evidence, 'Ground Fact'));
+    result.objectionHandling.forEach(o => add(o.citation, 'Objection Defense'));
+    result.documentInsights.entities.forEach(e => add(e.citation, 'Entity Discovery'));
     return list;
   }, [result]);
 
+  const citationSummary = useMemo(() => summarizeCitationChecks(result), [result]);
+
   const playAudioForText = async (text: string, id: string) => {
     if (playingAudioId === id) { audioSourceRef.current?.stop(); setPlayingAudioId(null); return; }
     setIsGeneratingAudio(true);
@@ -272,9 +299,7 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
         c.weaknesses.forEach(w => addBullet(w));
         y += 4;
       };
-      renderComp(result.competitiveHub.cognigy, "COGNIGY");
-      renderComp(result.competitiveHub.amelia, "AMELIA");
-      result.competitiveHub.others.forEach(o => renderComp(o, o.name));
+      result.competitiveHub.forEach(c => renderComp(c, c.name.toUpperCase()));
 
       // --- TACTICAL PLAYBOOK ---
       addHeader("Tactical Conversation Playbook");
@@ -352,6 +377,7 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
 
   return (
     <div className="space-y-12 pb-20">
+      <ValidationNotice issues={issues} label="Strategy Synthesis" />
       <div className="flex justify-end items-center gap-6">
         <div className="flex items-center gap-3 bg-white px-6 py-3 rounded-2xl border border-slate-200 shadow-sm">
            <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Active Voice</span>
@@ -429,10 +455,14 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
                         <><ICONS.Speaker className="w-4 h-4" /> Listen to delivery</>
                      )}
                    </button>
-                   <div className="flex items-center gap-2 pt-4 border-t border-white/5 opacity-40">
+                   <button
+                     onClick={() => onOpenCitation?.(line.citation)}
+                     className="w-full flex items-center gap-2 pt-4 border-t border-white/5 opacity-40 hover:opacity-100 transition-opacity text-left"
+                   >
                       <ICONS.Document className="w-2.5 h-2.5" />
                       <span className="text-[8px] font-bold uppercase tracking-widest truncate">{line.citation.sourceFile}</span>
-                   </div>
+                      <CitationBadge check={line.citation.check} dark />
+                   </button>
                 </div>
               </div>
             ))}
@@ -459,12 +489,15 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
                    <p className="text-[10px] text-slate-500 font-medium italic leading-relaxed">
                      “{item.significance}”
                    </p>
-                   <div className="pt-4 border-t border-slate-200">
+                   <button onClick={() => onOpenCitation?.(item.evidence)} className="w-full pt-4 border-t border-slate-200 text-left group/evidence">
                       <p className="text-[7px] font-black uppercase text-slate-400 tracking-widest mb-1 flex items-center gap-1">
                         <ICONS.Document className="w-2 h-2" /> Evidence Source
                       </p>
-                      <p className="text-[8px] font-bold text-slate-600 truncate">{item.evidence.sourceFile}</p>
-                   </div>
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-[8px] font-bold text-slate-600 truncate group-hover/evidence:text-indigo-600">{item.evidence.sourceFile}</p>
+                        <CitationBadge check={item.evidence.check} />
+                      </div>
+                   </button>
                 </div>
               </div>
             ))}
@@ -512,6 +545,14 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
                   return (
                     <div key={i} className="p-6 bg-slate-50 rounded-3xl border border-slate-100 hover:border-rose-200 transition-all group">
                        <p className="text-xs font-black text-slate-800 mb-2 tracking-tight group-hover:text-rose-600 transition-colors">“{objection.text}”</p>
+                       {objection.speaker && (
+                         <button
+                           onClick={() => onOpenCitation?.(objection.citation)}
+                           className="mb-2 text-[9px] font-black uppercase text-rose-400 tracking-widest hover:text-rose-600 transition-colors"
+                         >
+                           Raised by {objection.speaker}{objection.timestamp ? ` at ${objection.timestamp}` : ''}
+                         </button>
+                       )}
                        <div className="flex items-start gap-2">
                           <span className="text-[9px] font-black uppercase text-indigo-500 mt-0.5 tracking-widest shrink-0">Strategy:</span>
                           <p className="text-[10px] font-bold text-slate-500 leading-snug">
@@ -560,9 +601,10 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
         </div>
 
         <div className="grid grid-cols-1 xl:grid-cols-2 gap-10">
-          <CompetitorCard comp={result.competitiveHub.cognigy} name="Cognigy" />
-          <CompetitorCard comp={result.competitiveHub.amelia} name="Amelia" />
-          {result.competitiveHub.others.map((c, i) => <CompetitorCard key={i} comp={c} name={c.name} />)}
+          {result.competitiveHub.map((c, i) => <CompetitorCard key={i} comp={c} name={c.name} onOpenCitation={onOpenCitation} />)}
+          {result.competitiveHub.length === 0 && (
+            <p className="text-sm text-slate-400 italic">No competitors configured or found in the documents. Add rivals to the roster in the meeting configuration.</p>
+          )}
         </div>
 
         {/* Tactical Synthesis Footer */}
@@ -572,7 +614,7 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
               <div className="flex-1 space-y-4">
                  <h4 className="text-[10px] font-black uppercase tracking-[0.4em] text-indigo-400">Competitive Synthesis Summary</h4>
                  <p className="text-2xl font-black leading-tight tracking-tight">
-                    "Exploit Cognigy's {(result.competitiveHub.cognigy.weaknesses[0] || "logic gaps").toLowerCase()} while countering Amelia's {(result.competitiveHub.amelia.strengths[0] || "market presence").toLowerCase()} by anchoring on our {(result.snapshot.priorities[0]?.text || "core value").toLowerCase()} advantage."
+                    "{competitiveSummary}"
                  </p>
               </div>
               <div className="w-full lg:w-fit grid grid-cols-2 gap-4">
@@ -680,10 +722,11 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
                 </div>
 
                 <div className="mt-8 pt-6 border-t border-slate-100/50 flex items-center justify-between text-[8px] font-bold text-slate-400 opacity-60">
-                   <div className="flex items-center gap-2">
+                   <button onClick={() => onOpenCitation?.(o.citation)} className="flex items-center gap-2 hover:text-indigo-600 transition-colors">
                       <ICONS.Document className="w-2.5 h-2.5" />
                       <span>Evidence Source: {o.citation.sourceFile}</span>
-                   </div>
+                      <CitationBadge check={o.citation.check} />
+                   </button>
                    <div className="italic">“{o.citation.snippet.substring(0, 100)}...”</div>
                 </div>
               </div>
@@ -701,20 +744,32 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ result, files, conte
               <h3 className="text-[11px] font-black uppercase tracking-[0.4em] text-indigo-400 mb-2">Master Traceability Index</h3>
               <h2 className="text-3xl font-black">Analysis Evidence Index</h2>
             </div>
-            <div className="flex items-center gap-2 px-6 py-3 bg-white/10 rounded-2xl border border-white/10">
-               <span className="text-indigo-300 font-black text-xl">{evidenceIndex.length}</span>
-               <span className="text-[9px] font-black uppercase tracking-widest opacity-60">Verified Document Links</span>
+            <div className="flex items-center gap-3">
+              <div className="flex items-center gap-2 px-6 py-3 bg-white/10 rounded-2xl border border-white/10">
+                 <span className="text-indigo-300 font-black text-xl">{citationSummary.verified + citationSummary.approximate}/{evidenceIndex.length}</span>
+                 <span className="text-[9px] font-black uppercase tracking-widest opacity-60">Verified Document Links</span>
+              </div>
+              {citationSummary.misattributed + citationSummary.unverified > 0 && (
+                <div className="flex items-center gap-2 px-6 py-3 bg-rose-500/10 rounded-2xl border border-rose-500/30">
+                   <span className="text-rose-300 font-black text-xl">{citationSummary.misattributed + citationSummary.unverified}</span>
+                   <span className="text-[9px] font-black uppercase tracking-widest text-rose-200/70">Suspect Citations</span>
+                </div>
+              )}
             </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
             {evidenceIndex.map((ev, i) => (
-              <div key={i} className="group bg-white/5 border border-white/10 p-8 rounded-[2.5rem] hover:bg-white/10 hover:border-indigo-500/50 transition-all">
+              <div
+                key={i}
+                onClick={() => onOpenCitation?.({ snippet: ev.snippet, sourceFile: ev.source, check: ev.check })}
+                className={`group bg-white/5 border border-white/10 p-8 rounded-[2.5rem] hover:bg-white/10 hover:border-indigo-500/50 transition-all ${onOpenCitation ? 'cursor-pointer' : ''}`}
+              >
                 <div className="flex items-center justify-between mb-4">
                   <span className="text-[7px] font-black uppercase tracking-widest px-2 py-1 bg-indigo-500/20 text-indigo-300 rounded-full border border-indigo-500/30">
                     {ev.category}
                   </span>
-                  <ICONS.Shield className="w-3 h-3 text-indigo-400 opacity-50" />
+                  {ev.check ? <CitationBadge check={ev.check} dark /> : <ICONS.Shield className="w-3 h-3 text-indigo-400 opacity-50" />}
                 </div>
                 <p className="text-[11px] font-serif italic text-white/80 leading-relaxed mb-6 group-hover:text-white transition-colors">
                   “{ev.snippet.length > 150 ? ev.snippet.substring(0, 150) + '...' : ev.snippet}”
@@ -2,19 +2,28 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { ICONS } from '../constants';
 import { generateAssessmentQuestions, evaluateAssessment } from '../services/geminiService';
-import { AssessmentQuestion, AssessmentResult, QuestionType } from '../types';
+import { AssessmentQuestion, AssessmentResult, QuestionType, ValidationIssue, SourceDocument, CitationRef } from '../types';
+import { ValidationNotice } from './ValidationNotice';
+import { CitationBadge } from './CitationBadge';
+import { attachCitationChecks } from '../utils/citationVerifier';
+import { StepErrorNotice } from './StepErrorNotice';
+import { ModelCallError } from '../services/modelCall';
+import { saveAssessmentSession } from '../services/firebaseService';
 
 interface AssessmentLabProps {
-  activeDocuments: { name: string; content: string }[];
+  activeDocuments: SourceDocument[];
+  onOpenCitation?: (citation: CitationRef) => void;
 }
 
-export const AssessmentLab: React.FC<AssessmentLabProps> = ({ activeDocuments }) => {
+export const AssessmentLab: React.FC<AssessmentLabProps> = ({ activeDocuments, onOpenCitation }) => {
   const [stage, setStage] = useState<'config' | 'running' | 'results'>('config');
   const [config, setConfig] = useState({ mcq: 5, short: 0, long: 0, mic: 0, timer: 10 });
   const [questions, setQuestions] = useState<AssessmentQuestion[]>([]);
   const [answers, setAnswers] = useState<Record<string, string>>({});
   const [timeByQuestion, setTimeByQuestion] = useState<Record<string, number>>({});
   const [results, setResults] = useState<AssessmentResult[]>([]);
+  const [questionIssues, setQuestionIssues] = useState<ValidationIssue[]>([]);
+  const [resultIssues, setResultIssues] = useState<ValidationIssue[]>([]);
   const [timeLeft, setTimeLeft] = useState(0);
   const [totalSessionTime, setTotalSessionTime] = useState(0);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -22,10 +31,16 @@ export const AssessmentLab: React.FC<AssessmentLabProps> = ({ activeDocuments })
   const [currentIdx, setCurrentIdx] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [stepError, setStepError] = useState<{ step: 'generate' | 'evaluate'; error: unknown } | null>(null);
 
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const lastTimeRef = useRef<number>(0);
   const recognitionRef = useRef<any>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const lastConfigRef = useRef(config);
+
+  // Cancel any in-flight generation or grading when the lab closes
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Initialize Speech Recognition for MIC questions
   useEffect(() => {
@@ -82,11 +97,19 @@ export const AssessmentLab: React.FC<AssessmentLabProps> = ({ activeDocuments })
 
   const handleStart = async (customConfig?: typeof config) => {
     setIsGenerating(true);
+    setStepError(null);
     const activeConfig = customConfig || config;
+    lastConfigRef.current = activeConfig;
+    abortRef.current = new AbortController();
     try {
-      const combined = activeDocuments.map(d => d.content).join('\n');
-      const qSet = await generateAssessmentQuestions(combined, activeConfig);
-      setQuestions(qSet);
+      // Named sections let the model cite the right file, which the verifier then checks
+      const combined = activeDocuments.map(d => `DOC NAME: ${d.name}\n${d.content}`).join('\n\n');
+      const { value: qSet, issues } = await generateAssessmentQuestions(combined, activeConfig, { signal: abortRef.current.signal });
+      if (qSet.length === 0) {
+        throw new ModelCallError('malformed-json', "Question generation", "No usable questions were returned.");
+      }
+      setQuestions(attachCitationChecks(qSet, activeDocuments));
+      setQuestionIssues(issues);
       
       const seconds = activeConfig.timer * 60;
       setTimeLeft(seconds);
@@ -108,6 +131,7 @@ export const AssessmentLab: React.FC<AssessmentLabProps> = ({ activeDocuments })
       }, 1000);
     } catch (e) {
       console.error(e);
+      if (!(e instanceof ModelCallError && e.kind === 'aborted')) setStepError({ step: 'generate', error: e });
     } finally {
       setIsGenerating(false);
     }
@@ -141,16 +165,29 @@ export const AssessmentLab: React.FC<AssessmentLabProps> = ({ activeDocuments })
     if (timerRef.current) clearInterval(timerRef.current);
     if (recognitionRef.current) recognitionRef.current.stop();
     setIsEvaluating(true);
+    setStepError(null);
+    abortRef.current = new AbortController();
     try {
-      const evals = await evaluateAssessment(questions, answers);
+      const { value: evals, issues } = await evaluateAssessment(questions, answers, { signal: abortRef.current.signal });
       const mappedResults = evals.map(e => ({
         ...e,
         timeSpent: timeByQuestion[e.questionId] || 0
       }));
       setResults(mappedResults);
+      setResultIssues(issues);
       setStage('results');
+      // Kept for the library archive; a failed save never blocks the results
+      saveAssessmentSession({
+        sourceDocuments: activeDocuments.map(d => d.name),
+        sourceDocumentIds: activeDocuments.flatMap(d => d.id ? [d.id] : []),
+        questions,
+        results: mappedResults,
+        createdAt: Date.now()
+      });
     } catch (e) {
       console.error(e);
+      // Answers stay in place, so only the grading step needs to be re-run
+      if (!(e instanceof ModelCallError && e.kind === 'aborted')) setStepError({ step: 'evaluate', error: e });
     } finally {
       setIsEvaluating(false);
     }
@@ -276,6 +313,12 @@ export const AssessmentLab: React.FC<AssessmentLabProps> = ({ activeDocuments })
           </div>
         </div>
 
+        {stepError?.step === 'generate' && (
+          <div className="mb-8">
+            <StepErrorNotice error={stepError.error} onRetry={() => handleStart(lastConfigRef.current)} onDismiss={() => setStepError(null)} />
+          </div>
+        )}
+
         <button 
           onClick={() => handleStart()}
           disabled={isGenerating || activeDocuments.length === 0}
@@ -303,6 +346,10 @@ export const AssessmentLab: React.FC<AssessmentLabProps> = ({ activeDocuments })
 
     return (
       <div className="space-y-8 animate-in fade-in duration-500">
+        <ValidationNotice issues={questionIssues} label="Question Set" />
+        {stepError?.step === 'evaluate' && (
+          <StepErrorNotice error={stepError.error} onRetry={handleSubmit} onDismiss={() => setStepError(null)} />
+        )}
         <div className="bg-white rounded-[2rem] shadow-xl border border-slate-200 overflow-hidden">
           <div className="h-2 w-full bg-slate-100">
              <div 
@@ -475,6 +522,7 @@ export const AssessmentLab: React.FC<AssessmentLabProps> = ({ activeDocuments })
 
     return (
       <div className="space-y-12 animate-in slide-in-from-bottom-8 duration-700">
+        <ValidationNotice issues={resultIssues} label="Grading" />
         <div className="bg-slate-900 rounded-[4rem] p-16 text-white shadow-2xl relative overflow-hidden flex flex-col md:flex-row items-center justify-between gap-12">
            <div className="absolute top-0 right-0 p-16 opacity-5"><ICONS.Trophy className="w-96 h-96" /></div>
            <div className="relative z-10 space-y-8">
@@ -576,7 +624,15 @@ export const AssessmentLab: React.FC<AssessmentLabProps> = ({ activeDocuments })
                                 <p className="text-xs font-serif italic text-white/60 leading-relaxed">
                                    “{q.citation.snippet}”
                                 </p>
-                                <p className="mt-2 text-[8px] font-black uppercase text-indigo-400 tracking-widest">Source: {q.citation.sourceFile}</p>
+                                <div className="mt-2 flex items-center gap-2">
+                                  <button
+                                    onClick={() => q.citation && onOpenCitation?.(q.citation)}
+                                    className="text-[8px] font-black uppercase text-indigo-400 tracking-widest hover:text-indigo-200 transition-colors"
+                                  >
+                                    Source: {q.citation.sourceFile}
+                                  </button>
+                                  <CitationBadge check={q.citation.check} dark />
+                                </div>
                              </div>
                            )}
                         </div>
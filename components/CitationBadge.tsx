@@ -0,0 +1,51 @@
+import React from 'react';
+import { CitationCheck, CitationStatus } from '../types';
+
+interface CitationBadgeProps {
+  check?: CitationCheck;
+  dark?: boolean; // for slate-900 sections
+}
+
+const LABELS: Record<CitationStatus, string> = {
+  verified: 'Verified',
+  approximate: 'Paraphrased',
+  misattributed: 'Misattributed',
+  unverified: 'Not in Source'
+};
+
+const LIGHT_STYLES: Record<CitationStatus, string> = {
+  verified: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  approximate: 'bg-sky-50 text-sky-600 border-sky-100',
+  misattributed: 'bg-amber-50 text-amber-600 border-amber-100',
+  unverified: 'bg-rose-50 text-rose-600 border-rose-100'
+};
+
+const DARK_STYLES: Record<CitationStatus, string> = {
+  verified: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30',
+  approximate: 'bg-sky-500/20 text-sky-300 border-sky-500/30',
+  misattributed: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+  unverified: 'bg-rose-500/20 text-rose-300 border-rose-500/30'
+};
+
+/**
+ * Shows whether a cited snippet was found in its claimed source document.
+ */
+export const CitationBadge: React.FC<CitationBadgeProps> = ({ check, dark = false }) => {
+  if (!check) return null;
+  const title = check.status === 'misattributed'
+    ? `Quote found in ${check.matchedFile}, not the cited file`
+    : check.status === 'unverified'
+      ? `Only ${Math.round(check.score * 100)}% of the quote could be found in any document`
+      : `${Math.round(check.score * 100)}% of the quote matched in ${check.matchedFile}${check.location ? `, ${check.location}` : ''}`;
+
+  return (
+    <span
+      title={title}
+      className={`shrink-0 inline-flex items-center px-2 py-0.5 rounded-full border text-[7px] font-black uppercase tracking-widest ${(dark ? DARK_STYLES : LIGHT_STYLES)[check.status]}`}
+    >
+      {LABELS[check.status]}
+      {check.location && check.status !== 'unverified' && <span className="ml-1 normal-case tracking-normal font-bold">· {check.location}</span>}
+      {check.status === 'misattributed' && check.matchedFile && <span className="ml-1 normal-case tracking-normal font-bold truncate max-w-[100px]">→ {check.matchedFile}</span>}
+    </span>
+  );
+};
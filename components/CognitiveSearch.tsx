@@ -1,8 +1,13 @@
 
 import React, { useState, useEffect, useMemo, FC, FormEvent, useRef } from 'react';
 import { ICONS } from '../constants';
-import { performCognitiveSearchStream, generateDynamicSuggestions, CognitiveSearchResult } from '../services/geminiService';
-import { MeetingContext } from '../types';
+import { performCognitiveSearchStream, generateDynamicSuggestions, parseValidated } from '../services/geminiService';
+import { RetrievalIndex, retrievePassages } from '../services/retrievalIndex';
+import { MeetingContext, CognitiveSearchResult, Validated, ValidationIssue, SourceDocument, CitationRef } from '../types';
+import { cognitiveSearchValidator } from '../utils/responseValidators';
+import { ValidationNotice } from './ValidationNotice';
+import { CitationBadge } from './CitationBadge';
+import { attachCitationChecks } from '../utils/citationVerifier';
 
 const FormattedText: FC<{ text: string }> = ({ text }) => {
   const lines = text.split('\n');
@@ -48,20 +53,23 @@ const FormattedText: FC<{ text: string }> = ({ text }) => {
 };
 
 interface CognitiveSearchProps {
-  activeDocuments: { name: string; content: string }[];
+  activeDocuments: SourceDocument[];
+  retrievalIndex: RetrievalIndex;
   context: MeetingContext;
+  onOpenCitation?: (citation: CitationRef) => void;
 }
 
-export const CognitiveSearch: FC<CognitiveSearchProps> = ({ activeDocuments, context }) => {
+export const CognitiveSearch: FC<CognitiveSearchProps> = ({ activeDocuments, retrievalIndex, context, onOpenCitation }) => {
   const [query, setQuery] = useState("");
   const [isSearching, setIsSearching] = useState(false);
   const [result, setResult] = useState<CognitiveSearchResult | null>(null);
   const [streamingText, setStreamingText] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [isFromCache, setIsFromCache] = useState(false);
 
-  const searchCache = useRef<Map<string, CognitiveSearchResult>>(new Map());
+  const searchCache = useRef<Map<string, Validated<CognitiveSearchResult>>>(new Map());
 
   const contextFingerprint = useMemo(() => {
     return JSON.stringify({
@@ -106,46 +114,6 @@ export const CognitiveSearch: FC<CognitiveSearchProps> = ({ activeDocuments, con
     }
   };
 
-  const robustParse = (str: string) => {
-    let trimmed = str.trim();
-    if (!trimmed) return null;
-
-    const tryParse = (input: string) => {
-      try {
-        return JSON.parse(input);
-      } catch (e: any) {
-        const posMatch = e.message.match(/at position (\d+)/);
-        if (posMatch) {
-          const pos = parseInt(posMatch[1], 10);
-          try {
-            return JSON.parse(input.substring(0, pos));
-          } catch (innerE) {
-            return null;
-          }
-        }
-        return null;
-      }
-    };
-
-    let res = tryParse(trimmed);
-    if (res) return res;
-
-    if (trimmed.includes("```")) {
-      const clean = trimmed.replace(/```(?:json)?([\s\S]*?)```/g, '$1').trim();
-      res = tryParse(clean);
-      if (res) return res;
-    }
-
-    const firstBrace = trimmed.indexOf('{');
-    const lastBrace = trimmed.lastIndexOf('}');
-    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-      res = tryParse(trimmed.substring(firstBrace, lastBrace + 1));
-      if (res) return res;
-    }
-
-    return null;
-  }
-
   const handleSearch = async (e?: FormEvent, customQuery?: string) => {
     e?.preventDefault();
     const activeQuery = (customQuery || query).trim().toLowerCase();
@@ -158,10 +126,11 @@ export const CognitiveSearch: FC<CognitiveSearchProps> = ({ activeDocuments, con
       setResult(null);
       setStreamingText("");
       
-      const cachedResult = searchCache.current.get(cacheKey)!;
+      const cached = searchCache.current.get(cacheKey)!;
       setTimeout(() => {
-        setResult(cachedResult);
-        setStreamingText(cachedResult.answer);
+        setResult(cached.value);
+        setIssues(cached.issues);
+        setStreamingText(cached.value.answer);
         setIsSearching(false);
       }, 300);
       return;
@@ -170,12 +139,13 @@ export const CognitiveSearch: FC<CognitiveSearchProps> = ({ activeDocuments, con
     setIsSearching(true);
     setIsFromCache(false);
     setError(null);
+    setIssues([]);
     setResult(null);
     setStreamingText("");
 
     try {
-      const combinedContent = activeDocuments.map(f => `FILE: ${f.name}\n${f.content}`).join('\n\n');
-      const stream = performCognitiveSearchStream(activeQuery, combinedContent, context);
+      const passages = await retrievePassages(retrievalIndex, activeQuery);
+      const stream = performCognitiveSearchStream(activeQuery, passages, context);
       
       let fullBuffer = "";
       for await (const chunk of stream) {
@@ -205,11 +175,19 @@ export const CognitiveSearch: FC<CognitiveSearchProps> = ({ activeDocuments, con
         }
       }
       
-      const finalResult = robustParse(fullBuffer);
-      if (finalResult) {
-        setResult(finalResult);
-        setStreamingText(finalResult.answer);
-        searchCache.current.set(cacheKey, finalResult);
+      // Unparseable output keeps the streamed partial result on screen.
+      let final: Validated<CognitiveSearchResult> | null = null;
+      try {
+        const parsed = parseValidated(fullBuffer, cognitiveSearchValidator);
+        final = { ...parsed, value: attachCitationChecks(parsed.value, activeDocuments) };
+      } catch (parseErr) {
+        console.warn("Final search payload could not be parsed.", parseErr);
+      }
+      if (final) {
+        setResult(final.value);
+        setIssues(final.issues);
+        setStreamingText(final.value.answer);
+        searchCache.current.set(cacheKey, final);
       }
       
     } catch (err: any) {
@@ -274,6 +252,7 @@ export const CognitiveSearch: FC<CognitiveSearchProps> = ({ activeDocuments, con
 
       {(result || isSearching) && (
         <div className="space-y-10 animate-in slide-in-from-top-6 duration-700">
+          {!isSearching && <ValidationNotice issues={issues} label="Cognitive Answer" />}
           
           <div className="bg-indigo-950 rounded-[3rem] p-10 shadow-2xl relative overflow-hidden group border border-indigo-900">
              <div className="absolute -top-10 -right-10 p-12 opacity-5 rotate-12 transition-transform group-hover:rotate-0 duration-1000"><ICONS.Brain className="w-56 h-56 text-white" /></div>
@@ -346,10 +325,17 @@ export const CognitiveSearch: FC<CognitiveSearchProps> = ({ activeDocuments, con
                  </div>
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                    {result.citations.map((cit, i) => (
-                     <div key={i} className="p-8 bg-slate-50/50 border border-slate-100 rounded-[2rem] group hover:bg-white hover:border-indigo-300 hover:shadow-2xl transition-all duration-500">
-                        <p className="text-[9px] font-black text-indigo-500 uppercase tracking-widest mb-4 flex items-center gap-2">
-                          <ICONS.Document className="w-3.5 h-3.5" /> {cit.source || 'Intelligence Store'}
-                        </p>
+                     <div
+                       key={i}
+                       onClick={() => onOpenCitation?.(cit)}
+                       className={`p-8 bg-slate-50/50 border border-slate-100 rounded-[2rem] group hover:bg-white hover:border-indigo-300 hover:shadow-2xl transition-all duration-500 ${onOpenCitation ? 'cursor-pointer' : ''}`}
+                     >
+                        <div className="flex items-center justify-between gap-3 mb-4">
+                          <p className="text-[9px] font-black text-indigo-500 uppercase tracking-widest flex items-center gap-2 min-w-0">
+                            <ICONS.Document className="w-3.5 h-3.5 shrink-0" /> <span className="truncate">{cit.source || 'Intelligence Store'}</span>
+                          </p>
+                          <CitationBadge check={cit.check} />
+                        </div>
                         <p className="text-md text-slate-600 leading-relaxed font-serif italic relative">
                            {cit.snippet}
                         </p>
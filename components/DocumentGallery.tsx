@@ -1,14 +1,22 @@
 
-import React, { useState, useEffect } from 'react';
-import { StoredDocument } from '../types';
-import { ICONS } from '../constants';
-import { deleteDocumentFromFirebase, getFirebasePermissionError, updateDocumentInFirebase } from '../services/firebaseService';
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { DocumentKind, StoredDocument } from '../types';
+import { DOCUMENT_KINDS, ICONS } from '../constants';
+import { canWriteActiveWorkspace, getFirebasePermissionError, isContentLoaded } from '../services/firebaseService';
+import { deleteLibraryDocument, loadLibraryContent, loadLibraryContents, resolveConflict, updateLibraryOrganization } from '../services/librarySync';
+import { describeModelError } from '../services/modelCall';
+import { DocumentViewer, PassageFocus, formatDate, formatTime } from './DocumentViewer';
+import { SearchSnippet, createLibrarySearchIndex } from '../services/librarySearch';
+import { ArchiveSummary, exportLibraryArchive, importLibraryArchive } from '../services/libraryArchive';
+import { EMPTY_FILTER, LibraryFilter, collectFacets, filterDocuments, isFilterActive, parseTags } from '../utils/libraryFilters';
 
 interface DocumentGalleryProps {
   documents: StoredDocument[];
   onRefresh: () => void;
   selectedIds: string[];
   onToggleSelect: (id: string) => void;
+  onDocumentsLoaded?: (docs: StoredDocument[]) => void; // chunked text fetched for viewing or search
+  onImported?: () => void; // an archive added documents, analyses or assessments
   onSynthesize: () => void;
   isAnalyzing: boolean;
 }
@@ -18,63 +26,177 @@ export const DocumentGallery: React.FC<DocumentGalleryProps> = ({
   onRefresh, 
   selectedIds, 
   onToggleSelect,
+  onDocumentsLoaded,
+  onImported,
   onSynthesize,
   isAnalyzing
 }) => {
   const [viewingDoc, setViewingDoc] = useState<StoredDocument | null>(null);
-  const [isEditing, setIsEditing] = useState(false);
-  const [editContent, setEditContent] = useState("");
-  const [isSaving, setIsSaving] = useState(false);
+  const [viewingFocus, setViewingFocus] = useState<PassageFocus | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filter, setFilter] = useState<LibraryFilter>(EMPTY_FILTER);
+  const [bulkTags, setBulkTags] = useState('');
+  const [bulkFolder, setBulkFolder] = useState('');
+  const [isFiling, setIsFiling] = useState(false);
+  const [loadingDocId, setLoadingDocId] = useState<string | null>(null);
+  const [searchLoading, setSearchLoading] = useState(0);
+  // Ids of documents whose text failed to load for this search
+  const [searchFailedIds, setSearchFailedIds] = useState<string[]>([]);
+  const [archiveBusy, setArchiveBusy] = useState<'export' | 'import' | null>(null);
+  const [archiveNotice, setArchiveNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   const hasError = getFirebasePermissionError();
+  // Viewers of a shared workspace can browse, search and export, but not change the library
+  const readOnly = !canWriteActiveWorkspace();
+  const facets = useMemo(() => collectFacets(documents), [documents]);
+  const visibleDocs = useMemo(() => filterDocuments(documents, filter), [documents, filter]);
+  const isFiltered = isFilterActive(filter);
 
+  // Indexing hundreds of documents is not free, so it waits for the first query
+  const deferredQuery = useDeferredValue(searchQuery.trim());
+  // The index only depends on whether there is a query, not on its text
+  const hasQuery = !!deferredQuery;
+  const searchIndex = useMemo(() => hasQuery ? createLibrarySearchIndex(visibleDocs.filter(isContentLoaded)) : null, [visibleDocs, hasQuery]);
+  const searchHits = useMemo(() => searchIndex ? searchIndex.search(deferredQuery) : [], [searchIndex, deferredQuery]);
+
+  // Searching needs every document's text, so the first query loads whatever the listing left out.
+  // Each document is requested once per search, so one that fails to load isn't retried in a loop.
+  const requestedContent = useRef<Set<string>>(new Set());
   useEffect(() => {
-    if (viewingDoc) {
-      setEditContent(viewingDoc.content);
-    } else {
-      setIsEditing(false);
-      setEditContent("");
+    if (!hasQuery) {
+      requestedContent.current.clear();
+      setSearchFailedIds([]);
+      return;
+    }
+    if (searchLoading > 0) return;
+    const missing = documents.filter(d => !isContentLoaded(d) && !requestedContent.current.has(d.id));
+    if (missing.length === 0) return;
+    missing.forEach(d => requestedContent.current.add(d.id));
+    setSearchLoading(missing.length);
+    loadLibraryContents(missing)
+      .then(({ loaded, failed }) => {
+        onDocumentsLoaded?.(loaded);
+        setSearchFailedIds(prev => [...prev, ...failed.map(f => f.doc.id)]);
+      })
+      .catch(err => {
+        console.error("Loading library text for search failed:", err);
+        setSearchFailedIds(prev => [...prev, ...missing.map(d => d.id)]);
+      })
+      .finally(() => setSearchLoading(0));
+  }, [hasQuery, documents, searchLoading, onDocumentsLoaded]);
+
+  // A document opened since then has its text and is searched after all
+  const unsearchable = visibleDocs.filter(d => searchFailedIds.includes(d.id) && !isContentLoaded(d));
+  const unsearchableNotice = unsearchable.length > 0 && (
+    <p className="text-[9px] font-black uppercase tracking-widest text-rose-400">
+      {unsearchable.length} {unsearchable.length === 1 ? 'document' : 'documents'} could not be searched: {unsearchable.slice(0, 3).map(d => d.name).join(', ')}{unsearchable.length > 3 ? ` and ${unsearchable.length - 3} more` : ''}
+    </p>
+  );
+
+  const openDoc = async (doc: StoredDocument, snippet?: SearchSnippet) => {
+    let full = doc;
+    if (!isContentLoaded(doc)) {
+      setLoadingDocId(doc.id);
+      try {
+        full = await loadLibraryContent(doc);
+        onDocumentsLoaded?.([full]);
+      } catch (err) {
+        alert(describeModelError(err));
+        return;
+      } finally {
+        setLoadingDocId(null);
+      }
     }
-  }, [viewingDoc]);
+    setViewingDoc(full);
+    setViewingFocus(snippet ? { snippet: snippet.text, start: snippet.start, end: snippet.start + snippet.text.length } : null);
+  };
 
-  const handleDelete = async (e: React.MouseEvent, id: string) => {
+  const toggleTag = (tag: string) => setFilter(prev => ({
+    ...prev,
+    tags: prev.tags.includes(tag) ? prev.tags.filter(t => t !== tag) : [...prev.tags, tag]
+  }));
+
+  // Adds tags and (optionally) moves every selected document; existing tags are kept
+  const handleBulkFile = async () => {
+    const tags = parseTags(bulkTags);
+    const folder = bulkFolder.trim();
+    if (tags.length === 0 && !folder) return;
+    setIsFiling(true);
+    const selected = documents.filter(d => selectedIds.includes(d.id));
+    const results = await Promise.all(selected.map(d => updateLibraryOrganization(d, {
+      tags: [...new Set([...(d.tags || []), ...tags])],
+      account: d.account,
+      kind: d.kind,
+      folder: folder || d.folder
+    })));
+    setBulkTags('');
+    setBulkFolder('');
+    setIsFiling(false);
+    const refusedCount = results.filter(ok => !ok).length;
+    if (refusedCount > 0) alert(`The cloud library refused filing ${refusedCount} of ${selected.length} documents.`);
+    onRefresh();
+  };
+
+  const handleDelete = async (e: React.MouseEvent, doc: StoredDocument) => {
     e.stopPropagation();
     if (confirm("Delete this document from the cognitive library?")) {
-      const success = await deleteDocumentFromFirebase(id);
+      const success = await deleteLibraryDocument(doc);
       if (success) onRefresh();
+      else alert("The cloud library refused the delete.");
     }
   };
 
-  const handleSaveEdit = async () => {
-    if (!viewingDoc) return;
-    setIsSaving(true);
-    const success = await updateDocumentInFirebase(viewingDoc.id, editContent);
-    if (success) {
-      setIsEditing(false);
-      onRefresh();
-      // Optional: Refresh the local view data or re-fetch from list
-      const updatedDoc = { ...viewingDoc, content: editContent, updatedAt: Date.now() };
-      setViewingDoc(updatedDoc);
+  const handleExport = async () => {
+    setArchiveBusy('export');
+    setArchiveNotice(null);
+    try {
+      const { blob, summary } = await exportLibraryArchive(documents.filter(d => selectedIds.includes(d.id)));
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `cognitive-library-${new Date().toISOString().substring(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setArchiveNotice(`Exported ${describeArchive(summary)}.`);
+    } catch (err) {
+      alert(describeModelError(err));
+    } finally {
+      setArchiveBusy(null);
     }
-    setIsSaving(false);
   };
 
-  const formatDate = (ts: number) => {
-    return new Date(ts).toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric', 
-      year: 'numeric' 
-    });
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setArchiveBusy('import');
+    setArchiveNotice(null);
+    try {
+      const summary = await importLibraryArchive(file, documents);
+      const notes = [
+        `Imported ${describeArchive(summary)}`,
+        ...summary.renamed.map(r => `"${r.from}" saved as "${r.to}"`),
+        summary.skipped.length > 0 ? `${summary.skipped.length} already in the library` : '',
+        ...summary.failed
+      ].filter(Boolean);
+      setArchiveNotice(notes.join(' · '));
+      onImported?.();
+    } catch (err) {
+      alert(describeModelError(err));
+    } finally {
+      setArchiveBusy(null);
+    }
   };
 
-  const formatTime = (ts: number) => {
-    return new Date(ts).toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    });
+  const handleResolve = async (e: React.MouseEvent, doc: StoredDocument, keep: 'local' | 'cloud') => {
+    e.stopPropagation();
+    await resolveConflict(doc, keep);
+    onRefresh();
   };
 
-  if (hasError) {
+  // With a local copy to show, a locked cloud library is a notice rather than a dead end
+  if (hasError && documents.length === 0) {
     return (
       <div className="p-8 bg-rose-50 border-2 border-rose-100 rounded-[2rem] space-y-4 animate-in fade-in zoom-in-95">
         <div className="flex items-center gap-3 text-rose-600">
@@ -102,6 +224,16 @@ export const DocumentGallery: React.FC<DocumentGalleryProps> = ({
 
   return (
     <div className="space-y-6">
+      {hasError && (
+        <div className="flex items-center justify-between gap-4 p-4 bg-rose-50 border border-rose-100 rounded-2xl">
+          <p className="text-[10px] font-bold text-rose-600 uppercase tracking-widest">
+            Cloud memory is locked • showing the local copy; changes sync once access returns
+          </p>
+          <button onClick={onRefresh} className="shrink-0 text-[9px] font-black uppercase tracking-widest text-rose-600 hover:text-rose-800">
+            Re-validate
+          </button>
+        </div>
+      )}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
           <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-400">Cognitive Library History</h4>
@@ -125,10 +257,10 @@ export const DocumentGallery: React.FC<DocumentGalleryProps> = ({
           
           <div className="flex items-center gap-1 border border-slate-200 rounded-xl p-1 bg-slate-50">
             <button 
-              onClick={() => documents.forEach(d => !selectedIds.includes(d.id) && onToggleSelect(d.id))}
+              onClick={() => (deferredQuery ? searchHits.map(h => h.doc) : visibleDocs).forEach(d => !selectedIds.includes(d.id) && onToggleSelect(d.id))}
               className="px-3 py-1.5 text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 hover:bg-white rounded-lg transition-all"
             >
-              Select All
+              {deferredQuery ? `Select ${searchHits.length} Results` : isFiltered ? `Select ${visibleDocs.length} Shown` : 'Select All'}
             </button>
             <div className="w-px h-3 bg-slate-200"></div>
             <button 
@@ -139,6 +271,27 @@ export const DocumentGallery: React.FC<DocumentGalleryProps> = ({
             </button>
           </div>
 
+          <div className="flex items-center gap-1 border border-slate-200 rounded-xl p-1 bg-slate-50">
+            <button
+              onClick={handleExport}
+              disabled={selectedIds.length === 0 || archiveBusy !== null}
+              className="px-3 py-1.5 text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 hover:bg-white rounded-lg transition-all disabled:opacity-40"
+              title="Download the selected documents with their analyses and assessments"
+            >
+              {archiveBusy === 'export' ? 'Exporting...' : `Export${selectedIds.length > 0 ? ` ${selectedIds.length}` : ''}`}
+            </button>
+            <div className="w-px h-3 bg-slate-200"></div>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={archiveBusy !== null || readOnly}
+              className="px-3 py-1.5 text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 hover:bg-white rounded-lg transition-all disabled:opacity-40"
+              title="Restore a library archive"
+            >
+              {archiveBusy === 'import' ? 'Importing...' : 'Import'}
+            </button>
+            <input ref={importInputRef} type="file" accept=".zip" className="hidden" onChange={handleImport} />
+          </div>
+
           <button 
             onClick={onRefresh}
             className="p-2.5 hover:bg-slate-100 rounded-xl transition-colors text-slate-400 border border-slate-100"
@@ -151,13 +304,185 @@ export const DocumentGallery: React.FC<DocumentGalleryProps> = ({
         </div>
       </div>
 
+      {archiveNotice && (
+        <div className="flex items-start justify-between gap-3 px-4 py-3 bg-emerald-50 border border-emerald-100 rounded-2xl text-[11px] font-medium text-emerald-800">
+          <span>{archiveNotice}</span>
+          <button onClick={() => setArchiveNotice(null)} className="text-emerald-400 hover:text-emerald-700 shrink-0" title="Dismiss">
+            <ICONS.X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      {documents.length > 0 && (
+        <div className="relative">
+          <ICONS.Search className="w-4 h-4 absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" />
+          <input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder={`Search ${documents.length} documents by name or content...`}
+            className="w-full bg-white border border-slate-200 rounded-2xl pl-11 pr-10 py-3 text-sm font-medium text-slate-700 outline-none focus:border-indigo-400 focus:ring-4 focus:ring-indigo-50 transition-all"
+          />
+          {searchQuery && (
+            <button
+              onClick={() => setSearchQuery('')}
+              className="absolute right-3 top-1/2 -translate-y-1/2 p-1 text-slate-300 hover:text-rose-500"
+              title="Clear Search"
+            >
+              <ICONS.X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {documents.length > 0 && (
+        <div className="p-4 bg-slate-50 border border-slate-100 rounded-[1.5rem] space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-[8px] font-black uppercase tracking-widest text-slate-400 mr-1">Folders</span>
+            {[{ label: 'All', value: null as string | null }, { label: 'Unfiled', value: '' }, ...facets.folders.map(f => ({ label: f, value: f as string | null }))].map(({ label, value }) => (
+              <button
+                key={label}
+                onClick={() => setFilter(prev => ({ ...prev, folder: value }))}
+                className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${filter.folder === value ? 'bg-indigo-600 text-white' : 'bg-white text-slate-500 border border-slate-200 hover:border-indigo-300'}`}
+              >
+                {label}
+              </button>
+            ))}
+            <div className="flex-1"></div>
+            <select
+              value={filter.account}
+              onChange={(e) => setFilter(prev => ({ ...prev, account: e.target.value }))}
+              className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-[9px] font-black uppercase tracking-widest text-slate-500 outline-none"
+            >
+              <option value="">All Accounts</option>
+              {facets.accounts.map(a => <option key={a} value={a}>{a}</option>)}
+            </select>
+            <select
+              value={filter.kind}
+              onChange={(e) => setFilter(prev => ({ ...prev, kind: e.target.value as DocumentKind | '' }))}
+              className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-[9px] font-black uppercase tracking-widest text-slate-500 outline-none"
+            >
+              <option value="">All Types</option>
+              {DOCUMENT_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+            </select>
+            {isFiltered && (
+              <button
+                onClick={() => setFilter(EMPTY_FILTER)}
+                className="px-2 py-1 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-500"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+          {facets.tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-[8px] font-black uppercase tracking-widest text-slate-400 mr-1">Tags</span>
+              {facets.tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-2 py-0.5 rounded-full text-[9px] font-bold transition-all ${filter.tags.includes(tag) ? 'bg-indigo-600 text-white' : 'bg-white text-slate-500 border border-slate-200 hover:border-indigo-300'}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+          {selectedIds.length > 0 && !readOnly && (
+            <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-slate-200">
+              <span className="text-[8px] font-black uppercase tracking-widest text-slate-400 mr-1">File Selected</span>
+              <input
+                value={bulkTags}
+                onChange={(e) => setBulkTags(e.target.value)}
+                placeholder="Add tags"
+                className="bg-white border border-slate-200 rounded-lg px-3 py-1 text-[10px] font-bold text-slate-600 outline-none focus:border-indigo-400"
+              />
+              <input
+                value={bulkFolder}
+                onChange={(e) => setBulkFolder(e.target.value)}
+                list="gallery-folders"
+                placeholder="Move to folder"
+                className="bg-white border border-slate-200 rounded-lg px-3 py-1 text-[10px] font-bold text-slate-600 outline-none focus:border-indigo-400"
+              />
+              <datalist id="gallery-folders">{facets.folders.map(f => <option key={f} value={f} />)}</datalist>
+              <button
+                onClick={handleBulkFile}
+                disabled={isFiling || (!bulkTags.trim() && !bulkFolder.trim())}
+                className="px-4 py-1 bg-slate-900 text-white rounded-lg text-[9px] font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-40"
+              >
+                {isFiling ? 'Filing...' : `Apply to ${selectedIds.length}`}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {documents.length === 0 ? (
         <div className="py-12 border-2 border-dashed border-slate-100 rounded-[2rem] text-center bg-slate-50/50">
           <p className="text-slate-300 text-xs italic">The global cognitive library is currently empty.</p>
         </div>
+      ) : deferredQuery ? (
+        searchHits.length === 0 ? (
+          <div className="py-12 border-2 border-dashed border-slate-100 rounded-[2rem] text-center bg-slate-50/50">
+            <p className="text-slate-300 text-xs italic">
+              {searchLoading > 0 ? `Loading ${searchLoading} documents to search...` : `No documents mention "${deferredQuery}"${isFiltered ? ' within these filters' : ''}.`}
+            </p>
+            {unsearchableNotice && <div className="mt-3 px-6">{unsearchableNotice}</div>}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+              {searchHits.length} Ranked Results{searchLoading > 0 && <span className="text-indigo-400 animate-pulse"> • Loading {searchLoading} more documents</span>}
+            </p>
+            {unsearchableNotice}
+            {searchHits.map(hit => {
+              const isSelected = selectedIds.includes(hit.doc.id);
+              return (
+                <div
+                  key={hit.doc.id}
+                  className={`bg-white border p-5 rounded-[1.5rem] transition-all ${isSelected ? 'border-indigo-600 ring-4 ring-indigo-50' : 'border-slate-100 hover:border-indigo-300'}`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <button
+                        onClick={() => openDoc(hit.doc)}
+                        className={`text-sm font-black text-left hover:text-indigo-600 line-clamp-1 ${hit.nameMatch ? 'text-indigo-700' : 'text-slate-800'}`}
+                      >
+                        {hit.doc.name}
+                      </button>
+                      <div className="flex items-center gap-2 mt-1 text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+                        <span>{formatDate(hit.doc.timestamp)}</span>
+                        {hit.doc.kind && <span className="text-indigo-400">{hit.doc.kind}</span>}
+                        {hit.doc.account && <span className="text-amber-500">{hit.doc.account}</span>}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onToggleSelect(hit.doc.id)}
+                      className={`shrink-0 px-4 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${isSelected ? 'bg-emerald-50 text-emerald-600 border border-emerald-100' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
+                    >
+                      {isSelected ? 'Selected' : 'Add to Analysis'}
+                    </button>
+                  </div>
+                  {hit.snippets.map((snippet, i) => (
+                    <button
+                      key={i}
+                      onClick={() => openDoc(hit.doc, snippet)}
+                      className="block w-full text-left mt-3 p-3 bg-slate-50 hover:bg-indigo-50/50 rounded-xl text-xs text-slate-600 leading-relaxed transition-colors"
+                    >
+                      <HighlightedText snippet={snippet} />
+                    </button>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )
+      ) : visibleDocs.length === 0 ? (
+        <div className="py-12 border-2 border-dashed border-slate-100 rounded-[2rem] text-center bg-slate-50/50">
+          <p className="text-slate-300 text-xs italic">No documents match these filters.</p>
+        </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {documents.map((doc) => {
+          {visibleDocs.map((doc) => {
             const isSelected = selectedIds.includes(doc.id);
             return (
               <div 
@@ -175,19 +500,21 @@ export const DocumentGallery: React.FC<DocumentGalleryProps> = ({
                   
                   <div className="flex items-center gap-2">
                     <button 
-                      onClick={(e) => { e.stopPropagation(); setViewingDoc(doc); }}
+                      onClick={(e) => { e.stopPropagation(); openDoc(doc); }}
                       className="p-2 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
                       title="View & Edit Content"
                     >
-                      <ICONS.Search className="w-4 h-4" />
-                    </button>
-                    <button 
-                      onClick={(e) => handleDelete(e, doc.id)}
-                      className="opacity-0 group-hover:opacity-100 p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"
-                      title="Delete"
-                    >
-                      <ICONS.X className="w-4 h-4" />
+                      <ICONS.Search className={`w-4 h-4 ${loadingDocId === doc.id ? 'animate-pulse text-indigo-600' : ''}`} />
                     </button>
+                    {!readOnly && (
+                      <button 
+                        onClick={(e) => handleDelete(e, doc)}
+                        className="opacity-0 group-hover:opacity-100 p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"
+                        title="Delete"
+                      >
+                        <ICONS.X className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
                 
@@ -198,8 +525,46 @@ export const DocumentGallery: React.FC<DocumentGalleryProps> = ({
                     <span className="w-1 h-1 bg-slate-200 rounded-full"></span>
                     <span>{formatTime(doc.timestamp)}</span>
                   </div>
+                  {(doc.kind || doc.account || doc.folder) && (
+                    <div className="flex flex-wrap items-center gap-1.5 pt-2">
+                      {doc.kind && <span className="px-2 py-0.5 bg-indigo-50 text-indigo-600 rounded-md text-[8px] font-black uppercase tracking-widest">{doc.kind}</span>}
+                      {doc.account && <span className="px-2 py-0.5 bg-amber-50 text-amber-600 rounded-md text-[8px] font-black uppercase tracking-widest">{doc.account}</span>}
+                      {doc.folder && <span className="px-2 py-0.5 bg-slate-100 text-slate-500 rounded-md text-[8px] font-black uppercase tracking-widest">{doc.folder}</span>}
+                    </div>
+                  )}
+                  {doc.tags && doc.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {doc.tags.map(tag => (
+                        <button
+                          key={tag}
+                          onClick={(e) => { e.stopPropagation(); toggleTag(tag); }}
+                          className={`text-[9px] font-bold ${filter.tags.includes(tag) ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-500'}`}
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
+                {doc.syncState === 'conflict' && (
+                  <div className="mt-4 p-3 bg-rose-50 border border-rose-100 rounded-xl space-y-2">
+                    <p className="text-[9px] font-bold text-rose-600 leading-snug">
+                      {doc.conflictReason === 'deleted' ? 'Deleted from the cloud while you changed it offline.'
+                        : doc.conflictReason === 'rejected' ? 'The cloud library refused this offline change.'
+                        : 'Changed in the cloud while you changed it offline.'}
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <button onClick={(e) => handleResolve(e, doc, 'local')} className="px-3 py-1 bg-white border border-rose-200 rounded-lg text-[8px] font-black uppercase tracking-widest text-rose-600 hover:bg-rose-100">
+                        {doc.conflictReason === 'rejected' ? 'Retry' : 'Keep Mine'}
+                      </button>
+                      <button onClick={(e) => handleResolve(e, doc, 'cloud')} className="px-3 py-1 text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600">
+                        {doc.conflictReason === 'deleted' || doc.conflictReason === 'rejected' ? 'Discard' : 'Use Cloud'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
                 <div className="mt-5 pt-4 border-t border-slate-50 flex items-center justify-between">
                   {isSelected ? (
                     <span className="text-[8px] font-black uppercase text-emerald-600 bg-emerald-50 px-3 py-1 rounded-lg border border-emerald-100 flex items-center gap-1.5">
@@ -208,7 +573,11 @@ export const DocumentGallery: React.FC<DocumentGalleryProps> = ({
                     </span>
                   ) : (
                     <div className="flex flex-col gap-0.5">
-                       <span className="text-[8px] font-black uppercase text-slate-400 px-3 py-1 bg-slate-50 rounded-lg">Stored In Cloud</span>
+                       {doc.syncState ? (
+                         <span className="text-[8px] font-black uppercase text-amber-600 px-3 py-1 bg-amber-50 rounded-lg">{doc.syncState === 'conflict' ? 'Sync Conflict' : 'Waiting to Sync'}</span>
+                       ) : (
+                         <span className="text-[8px] font-black uppercase text-slate-400 px-3 py-1 bg-slate-50 rounded-lg">Stored In Cloud</span>
+                       )}
                        {doc.updatedAt && doc.updatedAt !== doc.timestamp && (
                          <span className="text-[7px] font-bold text-indigo-400 px-1">Modified: {formatDate(doc.updatedAt)}</span>
                        )}
@@ -236,137 +605,31 @@ export const DocumentGallery: React.FC<DocumentGalleryProps> = ({
 
       {/* OCR Result Viewer & Editor Modal */}
       {viewingDoc && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
-          <div className="bg-white w-full max-w-5xl max-h-[90vh] rounded-[3rem] shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
-            <div className="p-8 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
-              <div className="flex items-center gap-4">
-                <div className="p-3 bg-indigo-600 text-white rounded-2xl shadow-lg shadow-indigo-100">
-                  <ICONS.Search className="w-5 h-5" />
-                </div>
-                <div>
-                  <h3 className="text-xl font-black text-slate-900 tracking-tight">
-                    {isEditing ? 'Neural Intelligence Editor' : 'Neural Scan Review'}
-                  </h3>
-                  <div className="flex items-center gap-3 mt-1">
-                    <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
-                      Captured: {formatDate(viewingDoc.timestamp)} at {formatTime(viewingDoc.timestamp)}
-                    </p>
-                    {viewingDoc.updatedAt && viewingDoc.updatedAt !== viewingDoc.timestamp && (
-                      <>
-                        <span className="w-1 h-1 bg-slate-200 rounded-full"></span>
-                        <p className="text-[10px] text-indigo-400 font-bold uppercase tracking-widest">
-                          Updated: {formatDate(viewingDoc.updatedAt)} at {formatTime(viewingDoc.updatedAt)}
-                        </p>
-                      </>
-                    )}
-                  </div>
-                </div>
-              </div>
-              <div className="flex items-center gap-3">
-                {!isEditing ? (
-                  <button 
-                    onClick={() => setIsEditing(true)}
-                    className="px-6 py-2.5 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 transition-all shadow-sm"
-                  >
-                    Edit Intelligence
-                  </button>
-                ) : (
-                  <div className="flex items-center gap-2">
-                    <button 
-                      onClick={() => { setIsEditing(false); setEditContent(viewingDoc.content); }}
-                      className="px-4 py-2.5 text-slate-400 text-[10px] font-black uppercase tracking-widest hover:text-rose-500"
-                    >
-                      Cancel
-                    </button>
-                    <button 
-                      onClick={handleSaveEdit}
-                      disabled={isSaving}
-                      className="px-8 py-2.5 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 shadow-xl shadow-indigo-100 flex items-center gap-2 disabled:opacity-50"
-                    >
-                      {isSaving ? (
-                        <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                      ) : (
-                        <svg xmlns="http://www.w3.org/2000/svg" className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                        </svg>
-                      )}
-                      Commit Changes
-                    </button>
-                  </div>
-                )}
-                <button 
-                  onClick={() => setViewingDoc(null)}
-                  className="p-3 bg-white border border-slate-200 rounded-2xl text-slate-400 hover:text-rose-500 hover:border-rose-100 transition-all shadow-sm"
-                >
-                  <ICONS.X />
-                </button>
-              </div>
-            </div>
-
-            <div className="flex-1 overflow-y-auto p-12 custom-scrollbar">
-              <div className="mb-10 p-6 bg-indigo-50/50 border border-indigo-100 rounded-2xl">
-                 <h4 className="text-[10px] font-black uppercase text-indigo-600 tracking-widest mb-2">Cognitive Source Meta</h4>
-                 <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
-                    <div>
-                       <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">File Name</p>
-                       <p className="text-xs font-bold text-slate-800 line-clamp-1">{viewingDoc.name}</p>
-                    </div>
-                    <div>
-                       <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Database ID</p>
-                       <p className="text-xs font-mono text-slate-500">#{viewingDoc.id.substring(0, 12)}</p>
-                    </div>
-                    <div>
-                       <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Format</p>
-                       <p className="text-xs font-bold text-slate-800 uppercase">{viewingDoc.type.split('/')[1] || 'DOCUMENT'}</p>
-                    </div>
-                    <div>
-                       <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Memory Integrity</p>
-                       <p className="text-xs font-bold text-emerald-600 flex items-center gap-1.5">
-                         <div className="w-1.5 h-1.5 bg-emerald-500 rounded-full"></div> Verified
-                       </p>
-                    </div>
-                 </div>
-              </div>
-
-              <div className="space-y-4">
-                 <div className="flex items-center justify-between mb-4">
-                   <h4 className="text-[10px] font-black uppercase text-slate-400 tracking-widest">
-                     {isEditing ? 'Editing OCR Extracted Payload' : 'Extracted Intelligence Core'}
-                   </h4>
-                   {isEditing && (
-                     <span className="text-[9px] font-bold text-indigo-400 animate-pulse uppercase tracking-widest">Manual Override Active</span>
-                   )}
-                 </div>
-                 
-                 {isEditing ? (
-                   <textarea
-                     value={editContent}
-                     onChange={(e) => setEditContent(e.target.value)}
-                     className="w-full h-[500px] bg-slate-50 border-2 border-indigo-100 rounded-[2rem] p-10 font-mono text-sm leading-relaxed text-slate-700 shadow-inner focus:border-indigo-500 outline-none transition-all resize-none"
-                     placeholder="Edit document intelligence content here..."
-                   />
-                 ) : (
-                   <div className="bg-slate-50 border border-slate-100 rounded-[2rem] p-10 font-mono text-sm leading-relaxed text-slate-700 whitespace-pre-wrap shadow-inner min-h-[500px]">
-                      {viewingDoc.content || "Neural scan empty or content missing from database index."}
-                   </div>
-                 )}
-              </div>
-            </div>
-
-            <div className="p-8 border-t border-slate-100 bg-white flex justify-between items-center">
-              <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">
-                Grounded Knowledge Base v3.1 • Cross-Referencing Active
-              </p>
-              <button 
-                onClick={() => setViewingDoc(null)}
-                className="px-10 py-4 bg-slate-900 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-800 transition-all active:scale-95"
-              >
-                Close Review
-              </button>
-            </div>
-          </div>
-        </div>
+        <DocumentViewer
+          doc={viewingDoc}
+          focus={viewingFocus}
+          onClose={() => { setViewingDoc(null); setViewingFocus(null); }}
+          onSaved={(updated) => { onRefresh(); setViewingDoc(updated); }}
+          facets={facets}
+        />
       )}
     </div>
   );
 };
+
+const HighlightedText = ({ snippet }: { snippet: SearchSnippet }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    parts.push(snippet.text.substring(cursor, start));
+    parts.push(<mark key={i} className="bg-amber-100 text-slate-900 rounded px-0.5">{snippet.text.substring(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(snippet.text.substring(cursor));
+  return <>{snippet.start > 0 ? '…' : ''}{parts}</>;
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const describeArchive = (summary: ArchiveSummary) =>
+  `${plural(summary.documents, 'document')}, ${plural(summary.analyses, 'analysis thread')} and ${plural(summary.assessments, 'assessment')}`;
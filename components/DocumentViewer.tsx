@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { DocumentKind, StoredDocument } from '../types';
+import { DOCUMENT_KINDS, ICONS } from '../constants';
+import { isLocalOnly, updateLibraryDocument, updateLibraryOrganization } from '../services/librarySync';
+import { canWriteActiveWorkspace } from '../services/firebaseService';
+import { formatLocation, locationAt } from '../utils/documentMarkers';
+import { LibraryFacets, parseTags } from '../utils/libraryFilters';
+import { RevisionHistory } from './RevisionHistory';
+
+export interface PassageFocus {
+  snippet: string;
+  start?: number; // character offsets into the document content
+  end?: number;
+}
+
+interface DocumentViewerProps {
+  doc: StoredDocument;
+  focus?: PassageFocus | null;
+  onClose: () => void;
+  onSaved?: (updated: StoredDocument) => void;
+  facets?: LibraryFacets; // existing tags, accounts and folders offered as suggestions
+}
+
+export const formatDate = (ts: number) => {
+  return new Date(ts).toLocaleDateString('en-US', { 
+    month: 'short', 
+    day: 'numeric', 
+    year: 'numeric' 
+  });
+};
+
+export const formatTime = (ts: number) => {
+  return new Date(ts).toLocaleTimeString('en-US', { 
+    hour: '2-digit', 
+    minute: '2-digit' 
+  });
+};
+
+/**
+ * Review and edit modal for a stored document. When opened from a citation it
+ * scrolls to the cited passage and highlights it.
+ */
+export const DocumentViewer: React.FC<DocumentViewerProps> = ({ doc, focus, onClose, onSaved, facets }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState(doc.content);
+  const [isSaving, setIsSaving] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const [account, setAccount] = useState('');
+  const [kind, setKind] = useState<DocumentKind | ''>('');
+  const [folder, setFolder] = useState('');
+  const [isFiling, setIsFiling] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const highlightRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    setEditContent(doc.content);
+    setIsEditing(false);
+    setShowHistory(false);
+    setTagInput((doc.tags || []).join(', '));
+    setAccount(doc.account || '');
+    setKind(doc.kind || '');
+    setFolder(doc.folder || '');
+  }, [doc]);
+
+  const filingChanged = tagInput !== (doc.tags || []).join(', ')
+    || account !== (doc.account || '')
+    || kind !== (doc.kind || '')
+    || folder !== (doc.folder || '');
+
+  // Offsets are only trusted while they still point inside the current content.
+  const highlight = useMemo(() => {
+    if (!focus || focus.start === undefined || focus.end === undefined) return null;
+    if (focus.end > doc.content.length || focus.start >= focus.end) return null;
+    return { start: focus.start, end: focus.end, location: locationAt(doc.content, focus.start) };
+  }, [focus, doc.content]);
+
+  useEffect(() => {
+    if (highlight && !isEditing) highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlight, isEditing]);
+
+  const handleSaveEdit = async () => {
+    setIsSaving(true);
+    const success = await updateLibraryDocument(doc, editContent);
+    if (success) {
+      setIsEditing(false);
+      // An unchanged save records no revision
+      onSaved?.({ ...doc, content: editContent, revision: (doc.revision || 0) + (editContent === doc.content ? 0 : 1), updatedAt: Date.now() });
+    } else {
+      alert("The cloud library refused the edit. Your changes are still in the editor.");
+    }
+    setIsSaving(false);
+  };
+
+  const handleSaveFiling = async () => {
+    setIsFiling(true);
+    const organization = { tags: parseTags(tagInput), account: account.trim() || undefined, kind: kind || undefined, folder: folder.trim() || undefined };
+    const success = await updateLibraryOrganization(doc, organization);
+    if (success) onSaved?.({ ...doc, ...organization, updatedAt: Date.now() });
+    else alert("The cloud library refused the filing change.");
+    setIsFiling(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-5xl max-h-[90vh] rounded-[3rem] shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        <div className="p-8 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-indigo-600 text-white rounded-2xl shadow-lg shadow-indigo-100">
+              <ICONS.Search className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="text-xl font-black text-slate-900 tracking-tight">
+                {isEditing ? 'Neural Intelligence Editor' : 'Neural Scan Review'}
+              </h3>
+              <div className="flex items-center gap-3 mt-1">
+                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+                  Captured: {formatDate(doc.timestamp)} at {formatTime(doc.timestamp)}
+                </p>
+                {doc.updatedAt && doc.updatedAt !== doc.timestamp && (
+                  <>
+                    <span className="w-1 h-1 bg-slate-200 rounded-full"></span>
+                    <p className="text-[10px] text-indigo-400 font-bold uppercase tracking-widest">
+                      Updated: {formatDate(doc.updatedAt)} at {formatTime(doc.updatedAt)}
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {doc.id && !isLocalOnly(doc) && !isEditing && (
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={`px-6 py-2.5 border rounded-xl text-[10px] font-black uppercase tracking-widest transition-all shadow-sm ${showHistory ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:text-indigo-600 hover:border-indigo-100'}`}
+              >
+                {showHistory ? 'Hide History' : `History${doc.revision ? ` · Rev ${doc.revision}` : ''}`}
+              </button>
+            )}
+            {!doc.id || !canWriteActiveWorkspace() ? null : !isEditing ? (
+              <button 
+                onClick={() => { setIsEditing(true); setShowHistory(false); }}
+                className="px-6 py-2.5 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 transition-all shadow-sm"
+              >
+                Edit Intelligence
+              </button>
+            ) : (
+              <div className="flex items-center gap-2">
+                <button 
+                  onClick={() => { setIsEditing(false); setEditContent(doc.content); }}
+                  className="px-4 py-2.5 text-slate-400 text-[10px] font-black uppercase tracking-widest hover:text-rose-500"
+                >
+                  Cancel
+                </button>
+                <button 
+                  onClick={handleSaveEdit}
+                  disabled={isSaving}
+                  className="px-8 py-2.5 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 shadow-xl shadow-indigo-100 flex items-center gap-2 disabled:opacity-50"
+                >
+                  {isSaving ? (
+                    <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                  ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                    </svg>
+                  )}
+                  Commit Changes
+                </button>
+              </div>
+            )}
+            <button 
+              onClick={() => onClose()}
+              className="p-3 bg-white border border-slate-200 rounded-2xl text-slate-400 hover:text-rose-500 hover:border-rose-100 transition-all shadow-sm"
+            >
+              <ICONS.X />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-12 custom-scrollbar">
+          <div className="mb-10 p-6 bg-indigo-50/50 border border-indigo-100 rounded-2xl">
+             <h4 className="text-[10px] font-black uppercase text-indigo-600 tracking-widest mb-2">Cognitive Source Meta</h4>
+             <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                <div>
+                   <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">File Name</p>
+                   <p className="text-xs font-bold text-slate-800 line-clamp-1">{doc.name}</p>
+                </div>
+                <div>
+                   <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Database ID</p>
+                   <p className="text-xs font-mono text-slate-500">{doc.id ? `#${doc.id.substring(0, 12)}` : 'Session Upload'}</p>
+                </div>
+                <div>
+                   <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Format</p>
+                   <p className="text-xs font-bold text-slate-800 uppercase">{doc.type.split('/')[1] || 'DOCUMENT'}</p>
+                </div>
+                <div>
+                   <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Memory Integrity</p>
+                   <p className="text-xs font-bold text-emerald-600 flex items-center gap-1.5">
+                     <div className="w-1.5 h-1.5 bg-emerald-500 rounded-full"></div> Verified
+                   </p>
+                </div>
+             </div>
+             {(doc.metadata?.title || doc.metadata?.sourceUrl) && (
+               <div className="mt-6 pt-6 border-t border-indigo-100 grid grid-cols-1 md:grid-cols-2 gap-6">
+                 {doc.metadata.title && (
+                   <div>
+                     <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Page Title</p>
+                     <p className="text-xs font-bold text-slate-800 line-clamp-1">{doc.metadata.title}</p>
+                   </div>
+                 )}
+                 {doc.metadata.sourceUrl && (
+                   <div>
+                     <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">Original URL</p>
+                     <a href={doc.metadata.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-xs font-bold text-indigo-600 hover:underline line-clamp-1 break-all">{doc.metadata.sourceUrl}</a>
+                   </div>
+                 )}
+               </div>
+             )}
+          </div>
+
+          {doc.id && (
+            <div className="mb-10 p-6 bg-white border border-slate-100 rounded-2xl">
+              <div className="flex items-center justify-between mb-4">
+                <h4 className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Library Filing</h4>
+                {filingChanged && canWriteActiveWorkspace() && (
+                  <button
+                    onClick={handleSaveFiling}
+                    disabled={isFiling}
+                    className="px-4 py-1.5 bg-indigo-600 text-white rounded-lg text-[9px] font-black uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {isFiling ? 'Saving...' : 'Save Filing'}
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <label className="block">
+                  <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Document Type</span>
+                  <select
+                    value={kind}
+                    onChange={(e) => setKind(e.target.value as DocumentKind | '')}
+                    className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none focus:border-indigo-400"
+                  >
+                    <option value="">Unlabelled</option>
+                    {DOCUMENT_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Account</span>
+                  <input
+                    value={account}
+                    onChange={(e) => setAccount(e.target.value)}
+                    list="library-accounts"
+                    placeholder="Client or account"
+                    className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none focus:border-indigo-400"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Folder</span>
+                  <input
+                    value={folder}
+                    onChange={(e) => setFolder(e.target.value)}
+                    list="library-folders"
+                    placeholder="Unfiled"
+                    className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none focus:border-indigo-400"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Tags</span>
+                  <input
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    placeholder="pricing, security"
+                    className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700 outline-none focus:border-indigo-400"
+                  />
+                </label>
+              </div>
+              {facets && (
+                <>
+                  <datalist id="library-accounts">{facets.accounts.map(a => <option key={a} value={a} />)}</datalist>
+                  <datalist id="library-folders">{facets.folders.map(f => <option key={f} value={f} />)}</datalist>
+                </>
+              )}
+            </div>
+          )}
+
+          {focus && (
+            <div className={`mb-10 p-6 rounded-2xl border ${highlight ? 'bg-amber-50/60 border-amber-100' : 'bg-rose-50/60 border-rose-100'}`}>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className={`text-[10px] font-black uppercase tracking-widest ${highlight ? 'text-amber-600' : 'text-rose-600'}`}>
+                  {highlight ? 'Cited Passage' : 'Cited Passage Not Located'}
+                </h4>
+                {highlight?.location && (
+                  <span className="px-3 py-1 bg-white border border-amber-200 rounded-full text-[9px] font-black text-amber-600 uppercase tracking-widest">{formatLocation(highlight.location)}</span>
+                )}
+              </div>
+              <p className="text-xs italic text-slate-600 leading-relaxed">"{focus.snippet}"</p>
+              {!highlight && (
+                <p className="mt-2 text-[9px] font-bold text-rose-400 uppercase tracking-widest">The quote could not be found in this document's current text.</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-4">
+             <div className="flex items-center justify-between mb-4">
+               <h4 className="text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                 {isEditing ? 'Editing OCR Extracted Payload' : showHistory ? 'Edit History' : 'Extracted Intelligence Core'}
+               </h4>
+               {isEditing && (
+                 <span className="text-[9px] font-bold text-indigo-400 animate-pulse uppercase tracking-widest">Manual Override Active</span>
+               )}
+             </div>
+             
+             {showHistory && !isEditing ? (
+               <RevisionHistory
+                 doc={doc}
+                 readOnly={!canWriteActiveWorkspace()}
+                 onReverted={(updated) => { setShowHistory(false); onSaved?.(updated); }}
+               />
+             ) : isEditing ? (
+               <textarea
+                 value={editContent}
+                 onChange={(e) => setEditContent(e.target.value)}
+                 className="w-full h-[500px] bg-slate-50 border-2 border-indigo-100 rounded-[2rem] p-10 font-mono text-sm leading-relaxed text-slate-700 shadow-inner focus:border-indigo-500 outline-none transition-all resize-none"
+                 placeholder="Edit document intelligence content here..."
+               />
+             ) : (
+               <div className="bg-slate-50 border border-slate-100 rounded-[2rem] p-10 font-mono text-sm leading-relaxed text-slate-700 whitespace-pre-wrap shadow-inner min-h-[500px]">
+                  {highlight ? (
+                    <>
+                      {doc.content.substring(0, highlight.start)}
+                      <mark ref={highlightRef} className="bg-amber-200 text-slate-900 rounded px-0.5 ring-2 ring-amber-300">
+                        {doc.content.substring(highlight.start, highlight.end)}
+                      </mark>
+                      {doc.content.substring(highlight.end)}
+                    </>
+                  ) : (doc.content || "Neural scan empty or content missing from database index.")}
+               </div>
+             )}
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-slate-100 bg-white flex justify-between items-center">
+          <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">
+            Grounded Knowledge Base v3.1 • Cross-Referencing Active
+          </p>
+          <button 
+            onClick={() => onClose()}
+            className="px-10 py-4 bg-slate-900 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-800 transition-all active:scale-95"
+          >
+            Close Review
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
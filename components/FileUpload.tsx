@@ -1,20 +1,129 @@
 
 import React, { useRef, useState } from 'react';
-import { UploadedFile } from '../types';
+import { UploadedFile, PageStatus, StoredDocument, DocumentMetadata, DuplicateMatch } from '../types';
 import { ICONS } from '../constants';
 import { parseDocument } from '../services/fileService';
-import { saveDocumentToFirebase } from '../services/firebaseService';
+import { loadLibraryContent, loadLibraryContents, saveLibraryDocument, updateLibraryDocument } from '../services/librarySync';
+import { describeModelError } from '../services/modelCall';
+import { canWriteActiveWorkspace, isContentLoaded } from '../services/firebaseService';
+import { inferDocumentKind } from '../utils/libraryFilters';
+import { DuplicateCandidate, findDuplicate, mergeContent } from '../utils/duplicates';
 
 interface FileUploadProps {
   onFilesChange: React.Dispatch<React.SetStateAction<UploadedFile[]>>;
   files: UploadedFile[];
   onUploadSuccess?: () => void;
+  library?: StoredDocument[]; // checked for copies of each new upload
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, onUploadSuccess }) => {
+type DuplicateResolution = 'merge' | 'replace' | 'keep';
+
+const withAlias = (metadata: DocumentMetadata | undefined, name: string): DocumentMetadata => ({
+  ...metadata,
+  aliases: [...new Set([...(metadata?.aliases || []), name])]
+});
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, onUploadSuccess, library = [] }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [ocrProgress, setOcrProgress] = useState<number>(0);
   const [isCognitiveOcr, setIsCognitiveOcr] = useState<boolean>(false);
+  // Original File handles, kept so a failed file can be re-parsed without re-selecting it
+  const sourceFiles = useRef<Map<string, File>>(new Map());
+  // Uploads in one batch are processed in a loop, so checks read the latest list rather than this render's
+  const latestFiles = useRef(files);
+  latestFiles.current = files;
+
+  const processFile = async (file: File) => {
+    try {
+      const { text, metadata } = await parseDocument(file, {
+        onProgress: (p) => setOcrProgress(p),
+        onStatusChange: (isOcr) => setIsCognitiveOcr(isOcr),
+        onPageStatus: (pages) => onFilesChange(prev => prev.map(f => f.name === file.name ? { ...f, pages } : f))
+      });
+
+      sourceFiles.current.delete(file.name);
+
+      // Copies wait for the user to choose merge, replace or keep both before anything is saved
+      const duplicateOf = await matchDuplicate(file.name, text);
+      if (duplicateOf) {
+        onFilesChange(prev => prev.map(f =>
+          f.name === file.name ? { ...f, content: text, metadata, status: 'duplicate', duplicateOf, error: undefined } : f
+        ));
+        return;
+      }
+
+      // Push to Firebase for long-term memory; kept locally until it syncs when offline
+      await saveLibraryDocument(file.name, text, file.type, metadata, { kind: inferDocumentKind(file.name, text) });
+
+      onFilesChange(prev => prev.map(f => 
+        f.name === file.name ? { ...f, content: text, metadata, status: 'ready', error: undefined } : f
+      ));
+      
+      onUploadSuccess?.();
+    } catch (err) {
+      console.error(`Error parsing ${file.name}:`, err);
+      onFilesChange(prev => prev.map(f => 
+        f.name === file.name ? { ...f, status: 'error', error: describeModelError(err) } : f
+      ));
+    }
+  };
+
+  const matchDuplicate = async (name: string, text: string): Promise<DuplicateMatch | undefined> => {
+    // Listings compare by stored signature; documents saved before signatures were kept need their text
+    const unsigned = library.filter(d => !isContentLoaded(d) && !d.contentSignature);
+    const { loaded } = await loadLibraryContents(unsigned);
+    const byId = new Map(loaded.map(d => [d.id, d]));
+    // Session uploads not yet in the library (e.g. while Firestore is offline) are checked too
+    const libraryNames = new Set(library.map(d => d.name));
+    const candidates: DuplicateCandidate[] = [
+      ...library.map(d => byId.get(d.id) || d),
+      ...latestFiles.current.filter(f => f.status === 'ready' && f.name !== name && !libraryNames.has(f.name))
+    ];
+    const hit = findDuplicate(text, candidates);
+    return hit ? { id: hit.candidate.id, name: hit.candidate.name, similarity: hit.similarity, exact: hit.exact } : undefined;
+  };
+
+  const resolveDuplicate = async (file: UploadedFile, resolution: DuplicateResolution) => {
+    const match = file.duplicateOf!;
+    const existing = match.id ? library.find(d => d.id === match.id) : undefined;
+    onFilesChange(prev => prev.map(f => f.name === file.name ? { ...f, status: 'processing' } : f));
+
+    let error: string | undefined;
+    try {
+      if (resolution === 'keep') {
+        await saveLibraryDocument(file.name, file.content, file.type, file.metadata, { kind: inferDocumentKind(file.name, file.content) });
+      } else if (existing) {
+        // The library copy keeps its id, filing and history; the upload's name is recorded as an alias.
+        // Its text is loaded for both, since the revision is only bumped when the text actually changes.
+        const current = await loadLibraryContent(existing);
+        const content = resolution === 'merge' ? mergeContent(current.content, file.content) : file.content;
+        const metadata = withAlias(resolution === 'replace' ? { ...existing.metadata, ...file.metadata } : existing.metadata, file.name);
+        if (!await updateLibraryDocument(current, content, metadata)) error = 'The library copy could not be updated.';
+      } else {
+        // The match is another upload in this session, which already carries the content
+        onFilesChange(prev => prev.filter(f => f.name !== file.name).map(f =>
+          f.name !== match.name ? f : { ...f, content: resolution === 'merge' ? mergeContent(f.content, file.content) : file.content }
+        ));
+        return;
+      }
+    } catch (err) {
+      error = describeModelError(err);
+    }
+
+    onFilesChange(prev => prev.map(f => f.name !== file.name ? f : error
+      ? { ...f, status: 'duplicate', error }
+      : { ...f, status: 'ready', duplicateOf: undefined, error: undefined }
+    ));
+    if (!error) onUploadSuccess?.();
+  };
+
+  const retryFile = async (name: string) => {
+    const file = sourceFiles.current.get(name);
+    if (!file) return;
+    // Pages already OCR'd are served from the page cache, so the retry resumes where it failed
+    onFilesChange(prev => prev.map(f => f.name === name ? { ...f, status: 'processing', error: undefined } : f));
+    await processFile(file);
+  };
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files) return;
@@ -30,26 +139,8 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, on
     onFilesChange(prev => [...prev, ...placeholders]);
 
     for (const file of fileList) {
-      try {
-        const text = await parseDocument(file, {
-          onProgress: (p) => setOcrProgress(p),
-          onStatusChange: (isOcr) => setIsCognitiveOcr(isOcr)
-        });
-
-        // Push to Firebase for long-term memory
-        await saveDocumentToFirebase(file.name, text, file.type);
-
-        onFilesChange(prev => prev.map(f => 
-          f.name === file.name ? { ...f, content: text, status: 'ready' } : f
-        ));
-        
-        onUploadSuccess?.();
-      } catch (err) {
-        console.error(`Error parsing ${file.name}:`, err);
-        onFilesChange(prev => prev.map(f => 
-          f.name === file.name ? { ...f, status: 'error' } : f
-        ));
-      }
+      sourceFiles.current.set(file.name, file);
+      await processFile(file);
     }
     
     // Reset input so the same file can be uploaded again if needed
@@ -58,6 +149,11 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, on
 
   return (
     <div className="space-y-4">
+      {!canWriteActiveWorkspace() && (
+        <p className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-bold text-slate-500">
+          View-only workspace: uploads can be analyzed in this session but are not saved to the shared library.
+        </p>
+      )}
       <div 
         className="border-2 border-dashed border-slate-300 rounded-xl p-8 text-center hover:border-indigo-400 cursor-pointer bg-white/50 transition-colors" 
         onClick={() => fileInputRef.current?.click()}
@@ -68,7 +164,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, on
           className="hidden" 
           ref={fileInputRef} 
           onChange={handleFileChange} 
-          accept=".pdf,.docx,.txt,.csv,.md,image/*" 
+          accept=".pdf,.docx,.pptx,.eml,.mbox,.vtt,.srt,.html,.htm,.xlsx,.xls,.ods,.txt,.csv,.tsv,.md,image/*" 
         />
         <div className="flex flex-col items-center">
           <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-full flex items-center justify-center mb-3">
@@ -84,7 +180,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, on
           <div key={idx} className="p-3 bg-white border border-slate-200 rounded-lg shadow-sm animate-in fade-in slide-in-from-bottom-2">
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center gap-2 overflow-hidden">
-                <div className={`shrink-0 ${file.status === 'ready' ? 'text-indigo-500' : file.status === 'error' ? 'text-rose-500' : 'text-slate-400'}`}>
+                <div className={`shrink-0 ${file.status === 'ready' ? 'text-indigo-500' : file.status === 'error' ? 'text-rose-500' : file.status === 'duplicate' ? 'text-amber-500' : 'text-slate-400'}`}>
                   <ICONS.Document />
                 </div>
                 <span className="text-sm font-semibold text-slate-700 truncate">{file.name}</span>
@@ -102,11 +198,13 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, on
             {file.status === 'processing' && (
               <div className="flex flex-col gap-1">
                 <span className="text-[9px] font-black text-indigo-600 uppercase tracking-widest animate-pulse">
-                  {isCognitiveOcr ? `Neural Scan (${ocrProgress}%)` : 'Grounded Parsing...'}
+                  {file.pages ? pageSummary(file.pages) : isCognitiveOcr ? `Neural Scan (${ocrProgress}%)` : 'Grounded Parsing...'}
                 </span>
-                <div className="w-full h-1 bg-slate-100 rounded-full overflow-hidden">
-                  <div className="h-full bg-indigo-500 animate-[progress_1s_infinite] w-full origin-left"></div>
-                </div>
+                {file.pages ? <PageStrip pages={file.pages} /> : (
+                  <div className="w-full h-1 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 animate-[progress_1s_infinite] w-full origin-left"></div>
+                  </div>
+                )}
               </div>
             )}
             {file.status === 'ready' && (
@@ -114,10 +212,61 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, on
                 <ICONS.Shield className="w-2 h-2" /> Context Loaded & Synced
               </span>
             )}
+            {file.status === 'duplicate' && file.duplicateOf && (
+              <div className="space-y-2">
+                <p className="text-[9px] font-bold text-amber-600 uppercase tracking-widest leading-snug">
+                  {file.duplicateOf.exact ? 'Exact copy of' : `${Math.round(file.duplicateOf.similarity * 100)}% match with`} {file.duplicateOf.id ? 'library file' : 'upload'} "{file.duplicateOf.name}"
+                </p>
+                {file.error && <p className="text-[10px] text-rose-400 leading-snug">{file.error}</p>}
+                <div className="flex items-center gap-2">
+                  {!file.duplicateOf.exact && (
+                    <button
+                      onClick={() => resolveDuplicate(file, 'merge')}
+                      title="Add the paragraphs the existing copy is missing"
+                      className="px-3 py-1 bg-amber-50 text-amber-700 border border-amber-100 rounded-lg text-[9px] font-black uppercase tracking-widest hover:bg-amber-100"
+                    >
+                      Merge
+                    </button>
+                  )}
+                  <button
+                    onClick={() => resolveDuplicate(file, 'replace')}
+                    title={file.duplicateOf.exact ? 'Keep only the existing copy' : 'Replace the existing copy with this version'}
+                    className="px-3 py-1 bg-amber-50 text-amber-700 border border-amber-100 rounded-lg text-[9px] font-black uppercase tracking-widest hover:bg-amber-100"
+                  >
+                    {file.duplicateOf.exact ? 'Use Existing' : 'Replace'}
+                  </button>
+                  <button
+                    onClick={() => resolveDuplicate(file, 'keep')}
+                    className="px-3 py-1 text-slate-400 text-[9px] font-black uppercase tracking-widest hover:text-indigo-600"
+                  >
+                    Keep Both
+                  </button>
+                </div>
+              </div>
+            )}
             {file.status === 'error' && (
-              <span className="text-[9px] font-bold text-rose-500 uppercase tracking-widest">
-                Parsing Failed
-              </span>
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <span className="text-[9px] font-bold text-rose-500 uppercase tracking-widest">
+                    Parsing Failed
+                  </span>
+                  {file.error && <p className="text-[10px] text-rose-400 leading-snug mt-1">{file.error}</p>}
+                  {file.pages && (
+                    <div className="mt-2 space-y-1">
+                      <PageStrip pages={file.pages} />
+                      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{pageSummary(file.pages)} • finished pages are kept</p>
+                    </div>
+                  )}
+                </div>
+                {sourceFiles.current.has(file.name) && (
+                  <button 
+                    onClick={() => retryFile(file.name)}
+                    className="shrink-0 text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800"
+                  >
+                    Retry
+                  </button>
+                )}
+              </div>
             )}
           </div>
         ))}
@@ -132,3 +281,38 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files, on
     </div>
   );
 };
+
+const PAGE_COLORS: Record<PageStatus, string> = {
+  text: 'bg-emerald-300',
+  cached: 'bg-emerald-400',
+  done: 'bg-emerald-500',
+  queued: 'bg-slate-200',
+  ocr: 'bg-indigo-500 animate-pulse',
+  failed: 'bg-rose-500'
+};
+
+const PAGE_LABELS: Record<PageStatus, string> = {
+  text: 'text layer',
+  cached: 'resumed from cache',
+  done: 'OCR complete',
+  queued: 'waiting for OCR',
+  ocr: 'OCR in progress',
+  failed: 'OCR failed'
+};
+
+const pageSummary = (pages: PageStatus[]) => {
+  const finished = pages.filter(p => p === 'text' || p === 'cached' || p === 'done').length;
+  const scanning = pages.indexOf('ocr');
+  return scanning >= 0
+    ? `Neural Scan: Page ${scanning + 1} • ${finished}/${pages.length} Ready`
+    : `${finished}/${pages.length} Pages Ready`;
+};
+
+// One segment per PDF page, coloured by where its text came from
+const PageStrip = ({ pages }: { pages: PageStatus[] }) => (
+  <div className="flex w-full h-1.5 gap-px rounded-full overflow-hidden">
+    {pages.map((status, i) => (
+      <div key={i} title={`Page ${i + 1}: ${PAGE_LABELS[status]}`} className={`flex-1 ${PAGE_COLORS[status]}`}></div>
+    ))}
+  </div>
+);
@@ -1,14 +1,50 @@
 
-import React from 'react';
+import React, { useRef } from 'react';
 import { ICONS } from '../constants';
 import { logoutUser } from '../services/firebaseService';
+import { getProviderSettings } from '../services/providers';
+import { exportFixtures, importFixtures } from '../services/providers/fixtureStore';
 import { User } from 'firebase/auth';
+import { Workspace } from '../types';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
 
 interface HeaderProps {
   user?: User | null;
+  workspaces?: Workspace[];
+  workspaceInvites?: Workspace[];
+  activeWorkspaceId?: string | null;
+  onSwitchWorkspace?: (workspaceId: string | null) => void;
+  onWorkspacesChanged?: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ user }) => {
+export const Header: React.FC<HeaderProps> = ({ user, workspaces = [], workspaceInvites = [], activeWorkspaceId = null, onSwitchWorkspace, onWorkspacesChanged }) => {
+  const providerSettings = getProviderSettings();
+  const isMock = providerSettings.id === 'mock';
+  const isRecording = !!providerSettings.recordFixtures && !isMock;
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+
+  const downloadFixtures = () => {
+    const blob = new Blob([exportFixtures()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `llm-fixtures-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const loadFixtures = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const count = importFixtures(await file.text());
+      alert(`${count} fixtures loaded into the offline engine.`);
+    } catch (err) {
+      alert("Fixture file could not be read.");
+    }
+    e.target.value = "";
+  };
+
   return (
     <header className="fixed top-0 left-0 right-0 z-50 glass-effect border-b border-slate-200">
       <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
@@ -22,6 +58,38 @@ export const Header: React.FC<HeaderProps> = ({ user }) => {
         </div>
 
         <div className="flex items-center gap-4">
+          {isMock && (
+            <>
+              <input type="file" accept="application/json" className="hidden" ref={fixtureInputRef} onChange={loadFixtures} />
+              <button
+                onClick={() => fixtureInputRef.current?.click()}
+                className="px-3 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg border bg-amber-50 text-amber-600 border-amber-100 hover:bg-amber-100 transition-all"
+                title="Load recorded fixtures"
+              >
+                Offline Mock Engine
+              </button>
+            </>
+          )}
+          {isRecording && (
+            <button
+              onClick={downloadFixtures}
+              className="flex items-center gap-2 px-3 py-1 text-[9px] font-black uppercase tracking-widest rounded-lg border bg-rose-50 text-rose-600 border-rose-100 hover:bg-rose-100 transition-all"
+              title="Download recorded fixtures for offline replay"
+            >
+              <span className="w-1.5 h-1.5 bg-rose-500 rounded-full animate-pulse"></span>
+              Recording Fixtures
+            </button>
+          )}
+          {user && onSwitchWorkspace && (
+            <WorkspaceSwitcher
+              user={user}
+              workspaces={workspaces}
+              invites={workspaceInvites}
+              activeWorkspaceId={activeWorkspaceId}
+              onSwitch={onSwitchWorkspace}
+              onChanged={() => onWorkspacesChanged?.()}
+            />
+          )}
           {user && (
             <div className="flex items-center gap-4 bg-slate-50 px-4 py-1.5 rounded-full border border-slate-100">
               <div className="flex flex-col items-end">
@@ -1,11 +1,13 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { MeetingContext, CustomerPersonaType, ThinkingLevel } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { MeetingContext, CustomerPersonaType, ThinkingLevel, CompetitorProfile, EmailParticipant } from '../types';
 import { ICONS } from '../constants';
+import { suggestClientParticipants } from '../utils/emailParser';
 
 interface MeetingContextConfigProps {
   context: MeetingContext;
   onContextChange: (updated: MeetingContext) => void;
+  participants?: EmailParticipant[]; // From ingested email threads, used to suggest client names
 }
 
 const PERSONAS: { type: CustomerPersonaType; label: string; desc: string; icon: React.ReactNode; strategicGuidance: string }[] = [
@@ -71,7 +73,7 @@ const ANSWER_STYLES = [
   "Decision Matrix"
 ];
 
-export const MeetingContextConfig: React.FC<MeetingContextConfigProps> = ({ context, onContextChange }) => {
+export const MeetingContextConfig: React.FC<MeetingContextConfigProps> = ({ context, onContextChange, participants = [] }) => {
   const [keywordInput, setKeywordInput] = useState("");
   const [localPrompt, setLocalPrompt] = useState(context.baseSystemPrompt);
   const [isSaved, setIsSaved] = useState(false);
@@ -108,6 +110,12 @@ export const MeetingContextConfig: React.FC<MeetingContextConfigProps> = ({ cont
     onContextChange({ ...context, [field]: value });
   };
 
+  const suggestedClients = useMemo(() => suggestClientParticipants(participants, context), [participants, context]);
+
+  const addClientName = (name: string) => {
+    handleChange('clientNames', context.clientNames.trim() ? `${context.clientNames.trim()}, ${name}` : name);
+  };
+
   const handlePromptUpdate = (val: string) => {
     setLocalPrompt(val);
     isCustomizedRef.current = true;
@@ -127,6 +135,18 @@ export const MeetingContextConfig: React.FC<MeetingContextConfigProps> = ({ cont
     handleChange('answerStyles', updated);
   };
 
+  const addCompetitor = () => {
+    handleChange('competitors', [...context.competitors, { id: Date.now().toString(), name: "", positioning: "", battlecardNotes: "" }]);
+  };
+
+  const updateCompetitor = (id: string, field: keyof CompetitorProfile, value: string) => {
+    handleChange('competitors', context.competitors.map(c => c.id === id ? { ...c, [field]: value } : c));
+  };
+
+  const removeCompetitor = (id: string) => {
+    handleChange('competitors', context.competitors.filter(c => c.id !== id));
+  };
+
   const addKeyword = () => {
     if (keywordInput.trim()) {
       handleChange('strategicKeywords', [...context.strategicKeywords, keywordInput.trim()]);
@@ -195,6 +215,23 @@ export const MeetingContextConfig: React.FC<MeetingContextConfigProps> = ({ cont
             <div className="space-y-5">
               <Input label="Client Company" value={context.clientCompany} onChange={v => handleChange('clientCompany', v)} placeholder="e.g. Prospect Organization Name" />
               <Input label="Client Name(s)" value={context.clientNames} onChange={v => handleChange('clientNames', v)} placeholder="e.g. Primary stakeholder(s)" />
+              {suggestedClients.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Suggested From Email Threads</p>
+                  <div className="flex flex-wrap gap-2">
+                    {suggestedClients.map(p => (
+                      <button
+                        key={p.email}
+                        onClick={() => addClientName(p.name)}
+                        title={p.email}
+                        className="px-3 py-1.5 bg-rose-50 text-rose-600 border border-rose-100 rounded-xl text-[10px] font-bold hover:bg-rose-100 transition-all"
+                      >
+                        + {p.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
@@ -371,6 +408,56 @@ export const MeetingContextConfig: React.FC<MeetingContextConfigProps> = ({ cont
         </div>
       </div>
 
+      {/* Competitor Roster */}
+      <div className="bg-white rounded-[2.5rem] p-10 shadow-xl border border-slate-100 space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <ICONS.Shield /> Competitive Landscape
+          </h3>
+          <button 
+            onClick={addCompetitor}
+            className="px-5 py-2.5 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 shadow-lg active:scale-95 transition-all"
+          >
+            Add Competitor
+          </button>
+        </div>
+        {showHelp && (
+          <p className="text-xs text-slate-500 font-medium max-w-3xl leading-relaxed">
+            Each rival listed here gets its own <strong>SWOT card</strong> in the strategy synthesis. Positioning and battlecard notes are passed to the AI as background; competitors found only in the documents are added automatically.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {context.competitors.map(c => (
+            <div key={c.id} className="p-6 bg-slate-50 rounded-[2rem] border border-slate-100 space-y-4">
+              <div className="flex items-end gap-3">
+                <div className="flex-1">
+                  <Input label="Competitor" value={c.name} onChange={v => updateCompetitor(c.id, 'name', v)} placeholder="e.g. Rival Platform Inc." />
+                </div>
+                <button 
+                  onClick={() => removeCompetitor(c.id)}
+                  className="p-4 text-slate-400 hover:text-rose-500 transition-colors"
+                  title="Remove competitor"
+                >
+                  <ICONS.X />
+                </button>
+              </div>
+              <Input label="Known Positioning" value={c.positioning} onChange={v => updateCompetitor(c.id, 'positioning', v)} placeholder="e.g. Low-cost, self-serve, SMB focused" />
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.15em] ml-1">Battlecard Notes</label>
+                <textarea
+                  value={c.battlecardNotes}
+                  onChange={e => updateCompetitor(c.id, 'battlecardNotes', e.target.value)}
+                  className="w-full bg-white border-2 border-slate-100 rounded-2xl p-5 text-sm focus:border-indigo-500 outline-none transition-all h-24 resize-none shadow-inner leading-relaxed"
+                  placeholder="e.g. Weak on data residency; lost two deals on integration cost..."
+                />
+              </div>
+            </div>
+          ))}
+          {context.competitors.length === 0 && <p className="text-slate-300 text-xs italic">No competitors configured. The analysis will only cover rivals mentioned in your documents.</p>}
+        </div>
+      </div>
+
       {/* Neural Core System Prompt with Manual Save Button */}
       <div className="bg-slate-900 rounded-[3rem] p-12 shadow-2xl relative overflow-hidden group">
         <div className="absolute top-0 right-0 p-10 opacity-10 group-hover:opacity-30 transition-opacity">
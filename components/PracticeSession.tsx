@@ -1,9 +1,12 @@
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { AnalysisResult, CustomerPersonaType, GroomingEvaluation } from '../types';
+import { AnalysisResult, CustomerPersonaType, GroomingEvaluation, ValidationIssue } from '../types';
 import { ICONS } from '../constants';
-import { GoogleGenAI, Modality, LiveServerMessage, Type } from '@google/genai';
-import { generatePitchAudio, decodeAudioData } from '../services/geminiService';
+import { Type } from '@google/genai';
+import { generatePitchAudio, decodeAudioData, parseValidated } from '../services/geminiService';
+import { groomingEvaluationValidator } from '../utils/responseValidators';
+import { ValidationNotice } from './ValidationNotice';
+import { getProvider } from '../services/providers';
 
 interface PracticeSessionProps {
   analysis: AnalysisResult;
@@ -37,6 +40,7 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
   // Grooming specific state
   const [groomingTarget, setGroomingTarget] = useState(analysis.objectionHandling[0]?.objection || "How do you define value?");
   const [evaluation, setEvaluation] = useState<GroomingEvaluation | null>(null);
+  const [evaluationIssues, setEvaluationIssues] = useState<ValidationIssue[]>([]);
   const [isPlayingIdeal, setIsPlayingIdeal] = useState(false);
   const [isPlayingExplanation, setIsPlayingExplanation] = useState(false);
   const [savedGroomings, setSavedGroomings] = useState<SavedGrooming[]>([]);
@@ -95,7 +99,6 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
   const startPractice = async () => {
     setStatus('connecting');
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
 
@@ -114,10 +117,11 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
         ? `Act as the buyer: ${analysis.snapshot.role}. Persona: ${selectedPersona}. ${personaDirectives}. Objection context: ${analysis.objectionHandling.map(o => o.objection).join(', ')}.`
         : `Act as a world-class speech and sales coach. Start by stating: "I'm going to ask you a critical question. Take a breath, and give me your best structured response." Then ask exactly this question: "${groomingTarget}". Once the user provides a full answer, remain silent until the session is ended manually. You are observing their performance for a later audit focusing on voice tone, grammar, and pacing.`;
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+      const sessionPromise = getProvider().connectLive({
+        systemInstruction,
+        voiceName: 'Charon',
         callbacks: {
-          onopen: () => {
+          onOpen: () => {
             setStatus('active');
             setIsActive(true);
             const source = inputCtx.createMediaStreamSource(stream);
@@ -127,51 +131,40 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
               const int16 = new Int16Array(inputData.length);
               for (let i = 0; i < inputData.length; i++) int16[i] = inputData[i] * 32768;
               const pcmBlob = { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' };
-              sessionPromise.then(session => session.sendRealtimeInput({ media: pcmBlob }));
+              sessionPromise.then(session => session.sendAudio(pcmBlob));
             };
             source.connect(scriptProcessor);
             scriptProcessor.connect(inputCtx.destination);
           },
-          onmessage: async (message: LiveServerMessage) => {
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio) {
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
-              const buffer = await decodeAudioData(decode(base64Audio), outputCtx, 24000, 1);
-              const source = outputCtx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(outputCtx.destination);
-              source.onended = () => sourcesRef.current.delete(source);
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(source);
-            }
-
-            if (message.serverContent?.inputTranscription) {
-              userTranscriptionRef.current += message.serverContent.inputTranscription.text;
-              setCurrentTranscription(prev => ({ ...prev, user: userTranscriptionRef.current }));
-            }
-            if (message.serverContent?.outputTranscription) {
-              aiTranscriptionRef.current += message.serverContent.outputTranscription.text;
-              setCurrentTranscription(prev => ({ ...prev, ai: aiTranscriptionRef.current }));
-            }
-            if (message.serverContent?.turnComplete) {
-              setTranscription(prev => [...prev, { user: userTranscriptionRef.current, ai: aiTranscriptionRef.current }]);
-              if (sessionMode === 'roleplay') {
-                userTranscriptionRef.current = '';
-                aiTranscriptionRef.current = '';
-                setCurrentTranscription({ user: '', ai: '' });
-              }
+          onAudio: async (base64Audio: string) => {
+            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
+            const buffer = await decodeAudioData(decode(base64Audio), outputCtx, 24000, 1);
+            const source = outputCtx.createBufferSource();
+            source.buffer = buffer;
+            source.connect(outputCtx.destination);
+            source.onended = () => sourcesRef.current.delete(source);
+            source.start(nextStartTimeRef.current);
+            nextStartTimeRef.current += buffer.duration;
+            sourcesRef.current.add(source);
+          },
+          onInputTranscript: (text: string) => {
+            userTranscriptionRef.current += text;
+            setCurrentTranscription(prev => ({ ...prev, user: userTranscriptionRef.current }));
+          },
+          onOutputTranscript: (text: string) => {
+            aiTranscriptionRef.current += text;
+            setCurrentTranscription(prev => ({ ...prev, ai: aiTranscriptionRef.current }));
+          },
+          onTurnComplete: () => {
+            setTranscription(prev => [...prev, { user: userTranscriptionRef.current, ai: aiTranscriptionRef.current }]);
+            if (sessionMode === 'roleplay') {
+              userTranscriptionRef.current = '';
+              aiTranscriptionRef.current = '';
+              setCurrentTranscription({ user: '', ai: '' });
             }
           },
-          onerror: (e) => { setStatus('error'); stopPractice(); },
-          onclose: () => stopPractice(),
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Charon' } } },
-          systemInstruction
+          onError: () => { setStatus('error'); stopPractice(); },
+          onClose: () => stopPractice(),
         },
       });
       sessionRef.current = await sessionPromise;
@@ -184,10 +177,10 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
     stopPractice();
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        contents: `Act as a world-class communication, linguistics, and sales coach. 
+      const response = await getProvider().generateJson({
+        tier: 'reasoning',
+        task: 'grooming.audit',
+        prompt: `Act as a world-class communication, linguistics, and sales coach. 
         Perform a comprehensive "Grooming Audit" for a salesperson.
         
         QUESTION POSED: "${groomingTarget}"
@@ -214,26 +207,25 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
           "idealWording": "A 'Master Performance' version of the answer, rewritten for elite delivery.",
           "correctionExplanation": "3-4 paragraphs explaining EXACTLY WHY the user's structure was sub-optimal and why the new version wins."
         }`,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              transcription: { type: Type.STRING },
-              grammarScore: { type: Type.NUMBER },
-              toneAnalysis: { type: Type.STRING },
-              grammarFeedback: { type: Type.STRING },
-              sentenceFormation: { type: Type.STRING },
-              breathPacingGuide: { type: Type.STRING },
-              strategicAlignment: { type: Type.STRING },
-              idealWording: { type: Type.STRING },
-              correctionExplanation: { type: Type.STRING }
-            },
-            required: ["transcription", "grammarScore", "toneAnalysis", "grammarFeedback", "sentenceFormation", "breathPacingGuide", "strategicAlignment", "idealWording", "correctionExplanation"]
-          }
+        schema: {
+          type: Type.OBJECT,
+          properties: {
+            transcription: { type: Type.STRING },
+            grammarScore: { type: Type.NUMBER },
+            toneAnalysis: { type: Type.STRING },
+            grammarFeedback: { type: Type.STRING },
+            sentenceFormation: { type: Type.STRING },
+            breathPacingGuide: { type: Type.STRING },
+            strategicAlignment: { type: Type.STRING },
+            idealWording: { type: Type.STRING },
+            correctionExplanation: { type: Type.STRING }
+          },
+          required: ["transcription", "grammarScore", "toneAnalysis", "grammarFeedback", "sentenceFormation", "breathPacingGuide", "strategicAlignment", "idealWording", "correctionExplanation"]
         }
       });
-      setEvaluation(JSON.parse(response.text || "{}"));
+      const { value, issues } = parseValidated(response || "{}", groomingEvaluationValidator);
+      setEvaluation(value);
+      setEvaluationIssues(issues);
       setStatus('idle');
     } catch (e) {
       console.error(e);
@@ -350,7 +342,7 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
                      <p className="text-sm font-black text-slate-900 mb-2 truncate">Q: {saved.question}</p>
                      <p className="text-[11px] font-bold text-slate-500 italic mb-6 line-clamp-2">"{(saved.evaluation as any).idealWording}"</p>
                      <button 
-                       onClick={() => { setEvaluation(saved.evaluation); setShowGroomingJournal(false); }}
+                       onClick={() => { setEvaluation(saved.evaluation); setEvaluationIssues([]); setShowGroomingJournal(false); }}
                        className="text-[10px] font-black uppercase text-indigo-600 tracking-widest flex items-center gap-2 hover:translate-x-1 transition-transform"
                      >
                        Rehearse & Correct <ICONS.Play className="w-3 h-3" />
@@ -453,6 +445,7 @@ export const PracticeSession: React.FC<PracticeSessionProps> = ({ analysis }) =>
                 </div>
              </div>
           </div>
+          <ValidationNotice issues={evaluationIssues} label="Mastery Audit" />
 
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 items-start">
             {/* Left: Feedback Cards */}
@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DocumentRevision, StoredDocument } from '../types';
+import { fetchDocumentRevisions } from '../services/firebaseService';
+import { updateLibraryDocument } from '../services/librarySync';
+import { describeModelError } from '../services/modelCall';
+import { diffLines, revertDiff, sideBySide } from '../utils/lineDiff';
+import { hashString } from '../utils/hash';
+
+interface RevisionHistoryProps {
+  doc: StoredDocument; // with its text loaded
+  readOnly?: boolean;
+  onReverted: (updated: StoredDocument) => void;
+}
+
+const formatStamp = (ts: number) => new Date(ts).toLocaleString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const ROW_STYLES = {
+  same: { left: '', right: '' },
+  changed: { left: 'bg-rose-50 text-rose-800', right: 'bg-emerald-50 text-emerald-800' },
+  removed: { left: 'bg-rose-50 text-rose-800', right: 'bg-slate-50' },
+  added: { left: 'bg-slate-50', right: 'bg-emerald-50 text-emerald-800' }
+};
+
+/**
+ * A document's saved edits with a side-by-side diff. Earlier texts are rebuilt by
+ * walking the diffs back from the current text; the walk stops at the first revision
+ * whose stored hash doesn't match, so a broken link never yields a wrong restore.
+ */
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ doc, readOnly, onReverted }) => {
+  const [revisions, setRevisions] = useState<DocumentRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<'previous' | 'current'>('previous');
+  const [isReverting, setIsReverting] = useState(false);
+
+  const current = doc.revision || 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setLoadError(null);
+    fetchDocumentRevisions(doc)
+      .then(list => {
+        if (cancelled) return;
+        setRevisions(list);
+        setSelected(list[0]?.revision ?? null);
+      })
+      .catch(err => !cancelled && setLoadError(describeModelError(err)))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => { cancelled = true; };
+  }, [doc.id, doc.updatedAt]);
+
+  // Text of every revision that can be rebuilt, keyed by revision number
+  const texts = useMemo(() => {
+    const byRevision = new Map<number, string>([[current, doc.content]]);
+    let text = doc.content;
+    for (const rev of revisions) {
+      if (!byRevision.has(rev.revision) || rev.textHash !== hashString(text)) break;
+      try {
+        text = revertDiff(text, rev.diff);
+      } catch (err) {
+        break;
+      }
+      byRevision.set(rev.revision - 1, text);
+    }
+    return byRevision;
+  }, [revisions, doc.content, current]);
+
+  const oldestAvailable = Math.min(...texts.keys());
+  const selectedRevision = revisions.find(r => r.revision === selected) || null;
+  const mode = selected === 0 || selected === null ? 'current' : compareTo;
+
+  const rows = useMemo(() => {
+    if (selected === null || !texts.has(selected)) return [];
+    if (mode === 'previous' && selectedRevision && texts.has(selected - 1)) {
+      return sideBySide(texts.get(selected - 1)!, selectedRevision.diff);
+    }
+    const base = texts.get(selected)!;
+    return sideBySide(base, diffLines(base, doc.content));
+  }, [selected, mode, selectedRevision, texts, doc.content]);
+
+  const handleRevert = async () => {
+    if (selected === null || !texts.has(selected)) return;
+    if (!confirm(`Restore revision ${selected}? The current text is kept in the history.`)) return;
+    setIsReverting(true);
+    const content = texts.get(selected)!;
+    const success = await updateLibraryDocument(doc, content, doc.metadata, selected);
+    setIsReverting(false);
+    if (success) onReverted({ ...doc, content, revision: current + 1, updatedAt: Date.now() });
+    else alert("The revision could not be restored.");
+  };
+
+  if (isLoading) {
+    return <p className="text-[9px] font-black uppercase tracking-widest text-indigo-400 animate-pulse">Loading Edit History...</p>;
+  }
+  if (loadError) {
+    return <p className="text-xs text-rose-600">{loadError}</p>;
+  }
+  if (revisions.length === 0) {
+    return <p className="text-xs text-slate-400 italic">No edits yet. This is the text as it was first saved.</p>;
+  }
+
+  const entries = [...revisions.map(r => r.revision), ...(revisions[revisions.length - 1].revision === 1 ? [0] : [])];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[220px_1fr] gap-6">
+      <ol className="space-y-2">
+        {entries.map(n => {
+          const rev = revisions.find(r => r.revision === n);
+          const available = texts.has(n);
+          return (
+            <li key={n}>
+              <button
+                onClick={() => setSelected(n)}
+                disabled={!available}
+                className={`w-full text-left px-4 py-3 rounded-2xl border transition-all disabled:opacity-40 ${n === selected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-100 hover:border-indigo-200'}`}
+              >
+                <p className="text-[10px] font-black uppercase tracking-widest">
+                  {n === current ? `Rev ${n} · Current` : n === 0 ? 'Original Upload' : `Rev ${n}`}
+                </p>
+                {rev && (
+                  <>
+                    <p className={`text-[9px] font-bold truncate ${n === selected ? 'text-indigo-100' : 'text-slate-400'}`}>{rev.author} · {formatStamp(rev.createdAt)}</p>
+                    <p className={`text-[9px] font-bold ${n === selected ? 'text-indigo-100' : 'text-slate-400'}`}>
+                      +{rev.added} −{rev.removed} lines{rev.revertedFrom !== undefined ? ` · restored rev ${rev.revertedFrom}` : ''}
+                    </p>
+                  </>
+                )}
+              </button>
+            </li>
+          );
+        })}
+        {oldestAvailable > 0 && (
+          <li className="px-2 text-[9px] font-bold text-rose-400 uppercase tracking-widest">Older revisions can't be rebuilt from the stored history.</li>
+        )}
+      </ol>
+
+      <div className="min-w-0 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-1 border border-slate-200 rounded-xl p-1 bg-slate-50">
+            {(['previous', 'current'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setCompareTo(option)}
+                disabled={option === 'previous' && (selected === 0 || selected === null)}
+                className={`px-3 py-1.5 text-[8px] font-black uppercase tracking-widest rounded-lg transition-all disabled:opacity-40 ${mode === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-indigo-600'}`}
+              >
+                {option === 'previous' ? 'Changes In This Edit' : 'Compared To Current'}
+              </button>
+            ))}
+          </div>
+          {!readOnly && selected !== null && selected !== current && (
+            <button
+              onClick={handleRevert}
+              disabled={isReverting}
+              className="px-5 py-2 bg-indigo-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isReverting ? 'Restoring...' : `Restore ${selected === 0 ? 'Original' : `Rev ${selected}`}`}
+            </button>
+          )}
+        </div>
+
+        {mode === 'current' && selected === current ? (
+          <p className="text-xs text-slate-400 italic">This is the current text.</p>
+        ) : (
+          <div className="border border-slate-100 rounded-2xl overflow-hidden font-mono text-[11px] leading-relaxed">
+            <div className="grid grid-cols-2 bg-slate-50 border-b border-slate-100 text-[8px] font-black uppercase tracking-widest text-slate-400">
+              <span className="px-3 py-2">{mode === 'previous' ? `Rev ${(selected || 1) - 1}` : selected === 0 ? 'Original' : `Rev ${selected}`}</span>
+              <span className="px-3 py-2 border-l border-slate-100">{mode === 'previous' ? `Rev ${selected}` : 'Current'}</span>
+            </div>
+            <div className="max-h-[500px] overflow-y-auto custom-scrollbar">
+              {rows.map((row, i) => row.kind === 'gap' ? (
+                <div key={i} className="px-3 py-1 bg-slate-50 text-center text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+                  {row.hidden} unchanged lines
+                </div>
+              ) : (
+                <div key={i} className="grid grid-cols-2">
+                  {(['left', 'right'] as const).map(side => (
+                    <div key={side} className={`flex gap-3 px-3 whitespace-pre-wrap break-words ${side === 'right' ? 'border-l border-slate-100' : ''} ${ROW_STYLES[row.kind][side]}`}>
+                      <span className="w-8 shrink-0 text-right text-slate-300 select-none">{row[side]?.number ?? ''}</span>
+                      <span className="min-w-0">{row[side]?.text ?? ''}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
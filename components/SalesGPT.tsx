@@ -2,14 +2,16 @@
 import React, { useState, useRef, useEffect, FC } from 'react';
 import { ICONS } from '../constants';
 import { streamSalesGPT, generatePineappleImage, streamDeepStudy, performCognitiveSearchStream } from '../services/geminiService';
-import { GPTMessage, GPTToolMode, MeetingContext } from '../types';
+import { RetrievalIndex, retrievePassages } from '../services/retrievalIndex';
+import { GPTMessage, GPTToolMode, MeetingContext, SourceDocument } from '../types';
 
 interface SalesGPTProps {
-  activeDocuments: { name: string; content: string }[];
+  activeDocuments: SourceDocument[];
+  retrievalIndex: RetrievalIndex;
   meetingContext: MeetingContext;
 }
 
-export const SalesGPT: FC<SalesGPTProps> = ({ activeDocuments, meetingContext }) => {
+export const SalesGPT: FC<SalesGPTProps> = ({ activeDocuments, retrievalIndex, meetingContext }) => {
   const [messages, setMessages] = useState<GPTMessage[]>([]);
   const [input, setInput] = useState("");
   const [mode, setMode] = useState<GPTToolMode>('standard');
@@ -73,12 +75,11 @@ export const SalesGPT: FC<SalesGPTProps> = ({ activeDocuments, meetingContext })
 
     setMessages(prev => [...prev, assistantMessage]);
 
-    // Construct Grounding Context
-    const docContext = activeDocuments.map(d => `FILE [${d.name}]:\n${d.content}`).join('\n\n');
-    let contextStr = docContext;
+    // Meeting brief, sent alongside the retrieved passages when enabled
+    let meetingBrief: string | undefined;
     
     if (includeContext) {
-      const meetingDetails = `
+      meetingBrief = `
 --- STRATEGIC MEETING CONTEXT ---
 Seller: ${meetingContext.sellerCompany} (${meetingContext.sellerNames})
 Prospect: ${meetingContext.clientCompany} (${meetingContext.clientNames})
@@ -89,17 +90,19 @@ Strategic Keywords: ${meetingContext.strategicKeywords.join(', ')}
 Executive Snapshot: ${meetingContext.executiveSnapshot}
 ---------------------------------
 `;
-      contextStr = meetingDetails + docContext;
     }
 
     try {
+      // Deep Study reasons across more of the material than a quick answer needs
+      const passages = mode === 'pineapple' ? [] : await retrievePassages(retrievalIndex, input, { k: mode === 'deep-study' ? 16 : 8 });
+
       if (mode === 'pineapple') {
         const imageUrl = await generatePineappleImage(input);
         setMessages(prev => prev.map(m => 
           m.id === assistantId ? { ...m, content: imageUrl ? "Your strategic visual asset has been synthesized and grounded in neural logic:" : "Strategic visualization engine encountered a rendering stall.", imageUrl: imageUrl || undefined, isStreaming: false } : m
         ));
       } else if (mode === 'deep-study') {
-        const stream = streamDeepStudy(input, currentHistory, contextStr);
+        const stream = streamDeepStudy(input, currentHistory, passages, meetingBrief);
         let fullText = "";
         for await (const chunk of stream) {
           fullText += chunk;
@@ -109,7 +112,7 @@ Executive Snapshot: ${meetingContext.executiveSnapshot}
         }
         setMessages(prev => prev.map(m => m.id === assistantId ? { ...m, isStreaming: false } : m));
       } else if (mode === 'cognitive') {
-        const stream = performCognitiveSearchStream(input, docContext, meetingContext);
+        const stream = performCognitiveSearchStream(input, passages, meetingContext);
         let fullBuffer = "";
         for await (const chunk of stream) {
           fullBuffer += chunk;
@@ -129,7 +132,7 @@ Executive Snapshot: ${meetingContext.executiveSnapshot}
         }
         setMessages(prev => prev.map(m => m.id === assistantId ? { ...m, isStreaming: false } : m));
       } else {
-        const stream = streamSalesGPT(input, currentHistory, contextStr);
+        const stream = streamSalesGPT(input, currentHistory, passages, meetingBrief);
         let fullText = "";
         for await (const chunk of stream) {
           fullText += chunk;
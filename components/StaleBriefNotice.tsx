@@ -0,0 +1,51 @@
+import React from 'react';
+import { StaleChange } from '../types';
+
+interface StaleBriefNoticeProps {
+  changes: StaleChange[];
+  isAnalyzing?: boolean;
+  onRerun: () => void;
+}
+
+const KIND_LABELS: Record<StaleChange['kind'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  edited: 'Edited',
+  context: 'Context'
+};
+
+const KIND_STYLES: Record<StaleChange['kind'], string> = {
+  added: 'bg-emerald-100 text-emerald-700',
+  removed: 'bg-rose-100 text-rose-600',
+  edited: 'bg-amber-100 text-amber-700',
+  context: 'bg-indigo-100 text-indigo-600'
+};
+
+/**
+ * Shown over a brief whose source documents or meeting context changed after it was
+ * generated, listing each change with a re-run.
+ */
+export const StaleBriefNotice: React.FC<StaleBriefNoticeProps> = ({ changes, isAnalyzing, onRerun }) => (
+  <div className="mb-8 bg-amber-50 border border-amber-100 rounded-2xl p-6 flex items-start justify-between gap-6">
+    <div className="space-y-3 min-w-0">
+      <p className="text-amber-700 font-bold">Brief Out Of Date</p>
+      <p className="text-amber-600 text-sm">The inputs changed after this brief was generated:</p>
+      <ul className="space-y-1.5">
+        {changes.map((change, i) => (
+          <li key={i} className="flex items-center gap-2 text-xs text-slate-600 min-w-0">
+            <span className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest shrink-0 ${KIND_STYLES[change.kind]}`}>{KIND_LABELS[change.kind]}</span>
+            <span className="font-bold truncate">{change.label}</span>
+            {change.detail && <span className="text-slate-400 truncate">{change.detail}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+    <button
+      onClick={onRerun}
+      disabled={isAnalyzing}
+      className="px-5 py-2.5 bg-amber-500 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-amber-600 active:scale-95 transition-all shrink-0 disabled:opacity-50"
+    >
+      Re-Run Analysis
+    </button>
+  </div>
+);
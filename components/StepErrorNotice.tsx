@@ -0,0 +1,43 @@
+import React from 'react';
+import { ModelCallError, describeModelError } from '../services/modelCall';
+
+interface StepErrorNoticeProps {
+  error: unknown;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+/**
+ * Names the step that failed and why, with a retry that re-runs only that step.
+ */
+export const StepErrorNotice: React.FC<StepErrorNoticeProps> = ({ error, onRetry, onDismiss }) => {
+  const message = typeof error === 'string' ? error : describeModelError(error);
+  const kind = error instanceof ModelCallError ? error.kind : null;
+
+  return (
+    <div className="bg-rose-50 border border-rose-100 rounded-2xl p-6 flex items-start justify-between gap-6">
+      <div className="space-y-2">
+        <div className="flex items-center gap-3">
+          <p className="text-rose-600 font-bold">⚠️ {error instanceof ModelCallError ? error.step : 'Step'} Interrupted</p>
+          {kind && (
+            <span className="px-2 py-0.5 bg-rose-100 text-rose-600 rounded-full text-[8px] font-black uppercase tracking-widest">{kind}</span>
+          )}
+        </div>
+        <p className="text-rose-500 text-sm">{message}</p>
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        {onDismiss && (
+          <button onClick={onDismiss} className="text-[10px] font-black uppercase tracking-widest text-rose-400 hover:text-rose-600">Dismiss</button>
+        )}
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="px-5 py-2.5 bg-rose-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-700 active:scale-95 transition-all"
+          >
+            Retry Step
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
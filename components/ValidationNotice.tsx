@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { ValidationIssue, ValidationSeverity } from '../types';
+import { ICONS } from '../constants';
+
+interface ValidationNoticeProps {
+  issues: ValidationIssue[];
+  label?: string;
+}
+
+const SEVERITY_STYLES: Record<ValidationSeverity, string> = {
+  repaired: 'bg-indigo-50 text-indigo-600',
+  defaulted: 'bg-amber-100 text-amber-700',
+  dropped: 'bg-rose-50 text-rose-600'
+};
+
+/**
+ * Shows what the validator had to fix in a model response, so gaps in the output
+ * are visible instead of silently rendering as blanks.
+ */
+export const ValidationNotice: React.FC<ValidationNoticeProps> = ({ issues, label = "Model Output" }) => {
+  const [expanded, setExpanded] = useState(false);
+  if (issues.length === 0) return null;
+
+  const counts = issues.reduce((acc, issue) => {
+    acc[issue.severity] = (acc[issue.severity] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ValidationSeverity, number>>);
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-2xl px-6 py-4">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between gap-4 text-left"
+      >
+        <div className="flex items-center gap-3">
+          <ICONS.Shield className="w-4 h-4 text-amber-600" />
+          <span className="text-[10px] font-black uppercase tracking-widest text-amber-700">
+            {label}: {issues.length} field{issues.length === 1 ? '' : 's'} repaired by validation
+          </span>
+          <div className="flex gap-2">
+            {(Object.keys(counts) as ValidationSeverity[]).map(s => (
+              <span key={s} className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest ${SEVERITY_STYLES[s]}`}>
+                {counts[s]} {s}
+              </span>
+            ))}
+          </div>
+        </div>
+        <span className="text-[9px] font-black uppercase tracking-widest text-amber-600">{expanded ? 'Hide' : 'Details'}</span>
+      </button>
+
+      {expanded && (
+        <ul className="mt-4 space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+          {issues.map((issue, idx) => (
+            <li key={idx} className="flex items-start gap-3 text-[11px]">
+              <span className={`shrink-0 px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest ${SEVERITY_STYLES[issue.severity]}`}>{issue.severity}</span>
+              <code className="shrink-0 font-mono text-slate-500">{issue.path}</code>
+              <span className="text-slate-700">{issue.problem}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,13 @@
 
 import React, { useState, useRef } from 'react';
 import { ICONS } from '../constants';
-import { GoogleGenAI, Type } from '@google/genai';
-import { MeetingContext } from '../types';
+import { Type } from '@google/genai';
+import { MeetingContext, CoachingAdvice, ValidationIssue } from '../types';
+import { VideoJob } from '../services/llmProvider';
+import { getProvider } from '../services/providers';
+import { parseValidated } from '../services/geminiService';
+import { coachingAdviceValidator } from '../utils/responseValidators';
+import { ValidationNotice } from './ValidationNotice';
 
 interface VideoGeneratorProps {
   context: MeetingContext;
@@ -10,16 +15,6 @@ interface VideoGeneratorProps {
 
 type SynthesisMode = 'delivery-coach' | 'text-to-video' | 'extension';
 
-interface CoachingAdvice {
-  voiceTone: string;
-  openingManeuver: string;
-  answerStrategy: string;
-  handMovements: string;
-  bodyLanguage: string;
-  eyeExpression: string;
-  tacticalClosing: string;
-}
-
 export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ context }) => {
   const [coachingQuestion, setCoachingQuestion] = useState("A prospect just told me our solution is 'too complex' for their mid-market team. How should I deliver a response that simplifies the value?");
   const [prompt, setPrompt] = useState(`A professional corporate executive delivering a high-stakes keynote, cinematic lighting, 8k resolution.`);
@@ -27,14 +22,16 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ context }) => {
   const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>('16:9');
   const [isGenerating, setIsGenerating] = useState(false);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [lastOperation, setLastOperation] = useState<any>(null);
+  const [lastOperation, setLastOperation] = useState<VideoJob | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState("");
   const [mode, setMode] = useState<SynthesisMode>('delivery-coach');
   const [coachingAdvice, setCoachingAdvice] = useState<CoachingAdvice | null>(null);
+  const [adviceIssues, setAdviceIssues] = useState<ValidationIssue[]>([]);
 
   const handleGenerateVideo = async () => {
-    if (!(await window.aistudio.hasSelectedApiKey())) {
+    // Key selection only applies to the hosted Gemini backend
+    if (getProvider().id === 'gemini' && !(await window.aistudio.hasSelectedApiKey())) {
       await window.aistudio.openSelectKey();
     }
 
@@ -42,18 +39,20 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ context }) => {
     setError(null);
     setVideoUrl(null);
     setCoachingAdvice(null);
+    setAdviceIssues([]);
     setStatusMessage("Initializing Performance Studio...");
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const provider = getProvider();
       
       let finalVeoPrompt = prompt;
 
       if (mode === 'delivery-coach') {
         setStatusMessage("Architecting Strategic Delivery Logic...");
-        const coachResponse = await ai.models.generateContent({
-          model: 'gemini-3-pro-preview',
-          contents: `Act as an elite Speech, Body Language, and Sales Performance Coach. 
+        const coachResponse = await provider.generateJson({
+          tier: 'reasoning',
+          task: 'video.coaching',
+          prompt: `Act as an elite Speech, Body Language, and Sales Performance Coach. 
           
           STRATEGIC CONTEXT:
           - Seller: ${context.sellerNames} (${context.sellerCompany})
@@ -74,26 +73,24 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ context }) => {
           - bodyLanguage: Provide highly actionable instructions on POSTURE (e.g., 'axial extension'), SHOULDER POSITIONING (e.g., 'broad but relaxed'), and LEANING (e.g., 'the tactical 5-degree forward lean') to project a commanding yet accessible professional presence.
           - eyeExpression: Gaze intensity and blinking rate to project honesty and focus.
           - tacticalClosing: How to wrap up the answer effectively to drive the next logical step (e.g., confirming understanding, a tactical micro-ask, or a pivot to a positive value statement), specifically tailored to the ${context.meetingFocus} objective.`,
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.OBJECT,
-              properties: {
-                voiceTone: { type: Type.STRING },
-                openingManeuver: { type: Type.STRING },
-                answerStrategy: { type: Type.STRING },
-                handMovements: { type: Type.STRING },
-                bodyLanguage: { type: Type.STRING },
-                eyeExpression: { type: Type.STRING },
-                tacticalClosing: { type: Type.STRING }
-              },
-              required: ["voiceTone", "openingManeuver", "answerStrategy", "handMovements", "bodyLanguage", "eyeExpression", "tacticalClosing"]
-            }
+          schema: {
+            type: Type.OBJECT,
+            properties: {
+              voiceTone: { type: Type.STRING },
+              openingManeuver: { type: Type.STRING },
+              answerStrategy: { type: Type.STRING },
+              handMovements: { type: Type.STRING },
+              bodyLanguage: { type: Type.STRING },
+              eyeExpression: { type: Type.STRING },
+              tacticalClosing: { type: Type.STRING }
+            },
+            required: ["voiceTone", "openingManeuver", "answerStrategy", "handMovements", "bodyLanguage", "eyeExpression", "tacticalClosing"]
           }
         });
 
-        const advice = JSON.parse(coachResponse.text || "{}");
+        const { value: advice, issues } = parseValidated(coachResponse || "{}", coachingAdviceValidator);
         setCoachingAdvice(advice);
+        setAdviceIssues(issues);
         
         finalVeoPrompt = `A high-fidelity cinematic 3D animation of a charismatic, professional human sales executive in a minimalist modern studio. 
         The coach is looking directly into the lens, actively explaining a strategy. 
@@ -105,24 +102,12 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ context }) => {
 
       setStatusMessage("Synthesizing Master Delivery Asset...");
       
-      const generationConfig: any = {
-        numberOfVideos: 1,
-        resolution: resolution,
-        aspectRatio: aspectRatio
-      };
-
-      const params: any = {
-        model: 'veo-3.1-fast-generate-preview',
+      let operation = await provider.startVideo({
         prompt: finalVeoPrompt,
-        config: generationConfig
-      };
-
-      if (mode === 'extension' && lastOperation?.response?.generatedVideos?.[0]?.video) {
-        params.video = lastOperation.response.generatedVideos[0].video;
-        params.config.resolution = '720p';
-      }
-
-      let operation = await ai.models.generateVideos(params);
+        resolution,
+        aspectRatio,
+        extendFrom: mode === 'extension' && lastOperation ? lastOperation : undefined
+      });
 
       const loadingMessages = [
         "Simulating Vocal Resonance...",
@@ -137,19 +122,15 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ context }) => {
       while (!operation.done) {
         setStatusMessage(loadingMessages[msgIdx % loadingMessages.length]);
         msgIdx++;
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        const pollingAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        operation = await pollingAi.operations.getVideosOperation({ operation: operation });
+        await new Promise(resolve => setTimeout(resolve, operation.pollAfterMs ?? 10000));
+        operation = await provider.pollVideo(operation);
       }
 
       setLastOperation(operation);
-      const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
       
-      if (downloadLink) {
+      if (operation.videoUri) {
         setStatusMessage("Fetching Visual Payload...");
-        const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-        if (!response.ok) throw new Error("Video asset fetch failed.");
-        const blob = await response.blob();
+        const blob = await provider.fetchVideo(operation);
         setVideoUrl(URL.createObjectURL(blob));
       } else {
         throw new Error("Synthesis completed but no video data was found.");
@@ -339,6 +320,7 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({ context }) => {
               {/* Coaching Intelligence Panel (Explicitly mapping the core pillars) */}
               {mode === 'delivery-coach' && coachingAdvice && (
                 <div className="w-full lg:w-[480px] space-y-6">
+                  <ValidationNotice issues={adviceIssues} label="Delivery Coaching" />
                   <div className="p-10 bg-indigo-600 rounded-[3rem] shadow-2xl relative overflow-hidden group">
                      <div className="absolute top-0 right-0 p-8 opacity-10 rotate-12 transition-transform group-hover:rotate-0 duration-700"><ICONS.Speaker className="w-20 h-20" /></div>
                      <h5 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-200 mb-4">01 • Vocal Pitch & Authority</h5>
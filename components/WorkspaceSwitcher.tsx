@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { User } from 'firebase/auth';
+import { Workspace, WorkspaceRole } from '../types';
+import {
+  WORKSPACE_ROLES,
+  acceptWorkspaceInvite,
+  createWorkspace,
+  inviteToWorkspace,
+  leaveWorkspace,
+  removeWorkspaceMember,
+  revokeWorkspaceInvite,
+  roleIn,
+  setWorkspaceRole
+} from '../services/workspaceService';
+import { refreshEmailVerification, resendEmailVerification } from '../services/firebaseService';
+
+interface WorkspaceSwitcherProps {
+  user: User;
+  workspaces: Workspace[];
+  invites: Workspace[];
+  activeWorkspaceId: string | null;
+  onSwitch: (workspaceId: string | null) => void;
+  onChanged: () => void; // membership or invites changed and should be reloaded
+}
+
+const ROLE_STYLES: Record<WorkspaceRole, string> = {
+  owner: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  editor: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  viewer: 'bg-slate-50 text-slate-500 border-slate-200'
+};
+
+const RoleBadge = ({ role }: { role: WorkspaceRole }) => (
+  <span className={`px-1.5 py-0.5 rounded border text-[7px] font-black uppercase tracking-widest ${ROLE_STYLES[role]}`}>{role}</span>
+);
+
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ user, workspaces, invites, activeWorkspaceId, onSwitch, onChanged }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+  const [isBusy, setIsBusy] = useState(false);
+  const [isVerified, setIsVerified] = useState(user.emailVerified);
+
+  const active = workspaces.find(w => w.id === activeWorkspaceId) || null;
+  const activeRole = active ? roleIn(active, user.uid) : null;
+
+  // Every membership change is a single write; failures are almost always the rules refusing it
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsBusy(true);
+    const result = await action();
+    setIsBusy(false);
+    if (!result) alert(failure);
+    else onChanged();
+    return result;
+  };
+
+  // Switching reloads the workspace list, which picks up the new one
+  const handleCreate = async () => {
+    setIsBusy(true);
+    const created = await createWorkspace(newName);
+    setIsBusy(false);
+    if (!created) return alert("The workspace could not be created.");
+    setNewName('');
+    onSwitch(created.id);
+  };
+
+  const handleInvite = async () => {
+    if (!active) return;
+    if (await run(() => inviteToWorkspace(active, inviteEmail, inviteRole), `Could not invite ${inviteEmail}. Check the address.`)) setInviteEmail('');
+  };
+
+  // Invites are only visible to verified addresses, so confirming one reloads them
+  const handleCheckVerified = async () => {
+    setIsBusy(true);
+    const verified = await refreshEmailVerification().catch(() => false);
+    setIsBusy(false);
+    setIsVerified(verified);
+    if (verified) onChanged();
+    else alert("This address hasn't been confirmed yet. Open the link in the verification email first.");
+  };
+
+  const handleResend = async () => {
+    if (await resendEmailVerification()) alert(`A verification link was sent to ${user.email}.`);
+    else alert("The verification email could not be sent. Try again in a few minutes.");
+  };
+
+  const handleLeave = async () => {
+    if (!active || !confirm(`Leave "${active.name}"? You will lose access to its library.`)) return;
+    // The reload no longer finds the workspace and falls back to the personal library
+    await run(() => leaveWorkspace(active), "Could not leave the workspace.");
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 bg-slate-50 border border-slate-100 rounded-full hover:border-indigo-200 transition-all"
+        title="Switch workspace"
+      >
+        <div className="flex flex-col items-start">
+          <span className="text-[8px] font-black uppercase text-slate-400 tracking-widest">Workspace</span>
+          <span className="text-[10px] font-bold text-slate-700 truncate max-w-[140px]">{active ? active.name : 'Personal Library'}</span>
+        </div>
+        {activeRole && <RoleBadge role={activeRole} />}
+        {invites.length > 0 && <span className="w-1.5 h-1.5 bg-rose-500 rounded-full animate-pulse" title="Pending invites"></span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white border border-slate-200 rounded-2xl shadow-2xl p-4 space-y-4 z-50 animate-in fade-in slide-in-from-top-2">
+          <div className="space-y-1">
+            <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 px-2">Libraries</p>
+            {[null, ...workspaces].map(w => (
+              <button
+                key={w ? w.id : 'personal'}
+                onClick={() => { onSwitch(w ? w.id : null); setIsOpen(false); }}
+                className={`w-full flex items-center justify-between px-3 py-2 rounded-xl text-left text-xs font-bold transition-all ${(w ? w.id : null) === activeWorkspaceId ? 'bg-indigo-600 text-white' : 'text-slate-700 hover:bg-slate-50'}`}
+              >
+                <span className="truncate">{w ? w.name : 'Personal Library'}</span>
+                {w && roleIn(w, user.uid) && <RoleBadge role={roleIn(w, user.uid)!} />}
+              </button>
+            ))}
+          </div>
+
+          {!isVerified && (
+            <div className="space-y-2 pt-3 border-t border-slate-100 px-2">
+              <p className="text-[10px] font-medium text-slate-500">Confirm your email address to see and join workspaces you've been invited to.</p>
+              <div className="flex items-center gap-3">
+                <button onClick={handleResend} disabled={isBusy} className="text-[8px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800 disabled:opacity-40">
+                  Resend Link
+                </button>
+                <button onClick={handleCheckVerified} disabled={isBusy} className="text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 disabled:opacity-40">
+                  I've Verified
+                </button>
+              </div>
+            </div>
+          )}
+
+          {invites.length > 0 && (
+            <div className="space-y-1 pt-3 border-t border-slate-100">
+              <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 px-2">Invitations</p>
+              {invites.map(w => (
+                <div key={w.id} className="flex items-center justify-between px-3 py-2 bg-amber-50 border border-amber-100 rounded-xl">
+                  <span className="text-xs font-bold text-amber-800 truncate">{w.name}</span>
+                  <button
+                    onClick={() => run(() => acceptWorkspaceInvite(w), "The invitation could not be accepted.")}
+                    disabled={isBusy || !isVerified}
+                    className="px-3 py-1 bg-amber-500 text-white rounded-lg text-[8px] font-black uppercase tracking-widest hover:bg-amber-600 disabled:opacity-50"
+                  >
+                    Join
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {active && activeRole === 'owner' && (
+            <div className="space-y-2 pt-3 border-t border-slate-100">
+              <p className="text-[8px] font-black uppercase tracking-widest text-slate-400 px-2">Members</p>
+              {Object.entries(active.members).map(([uid, role]) => (
+                <div key={uid} className="flex items-center gap-2 px-2">
+                  <span className="flex-1 text-[10px] font-bold text-slate-600 truncate">{active.memberEmails[uid] || uid}</span>
+                  {uid === active.ownerId ? (
+                    <RoleBadge role="owner" />
+                  ) : (
+                    <>
+                      <select
+                        value={role}
+                        onChange={(e) => run(() => setWorkspaceRole(active, uid, e.target.value as WorkspaceRole), "The role could not be changed.")}
+                        disabled={isBusy}
+                        className="bg-slate-50 border border-slate-200 rounded-lg px-1.5 py-0.5 text-[9px] font-bold text-slate-600 outline-none"
+                      >
+                        {WORKSPACE_ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+                      </select>
+                      <button
+                        onClick={() => run(() => removeWorkspaceMember(active, uid), "The member could not be removed.")}
+                        disabled={isBusy}
+                        className="text-[9px] font-black text-slate-300 hover:text-rose-500"
+                        title="Remove member"
+                      >
+                        ✕
+                      </button>
+                    </>
+                  )}
+                </div>
+              ))}
+              {Object.keys(active.invites).map(email => (
+                <div key={email} className="flex items-center gap-2 px-2">
+                  <span className="flex-1 text-[10px] font-medium italic text-slate-400 truncate">{email} (invited)</span>
+                  <RoleBadge role={active.invites[email]} />
+                  <button
+                    onClick={() => run(() => revokeWorkspaceInvite(active, email), "The invitation could not be withdrawn.")}
+                    disabled={isBusy}
+                    className="text-[9px] font-black text-slate-300 hover:text-rose-500"
+                    title="Withdraw invitation"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center gap-1.5 pt-1">
+                <input
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && inviteEmail.trim() && handleInvite()}
+                  placeholder="colleague@company.com"
+                  className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-600 outline-none focus:border-indigo-400"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                  className="bg-slate-50 border border-slate-200 rounded-lg px-1.5 py-1 text-[9px] font-bold text-slate-600 outline-none"
+                >
+                  {WORKSPACE_ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+                <button
+                  onClick={handleInvite}
+                  disabled={isBusy || !inviteEmail.trim()}
+                  className="px-2.5 py-1 bg-slate-900 text-white rounded-lg text-[8px] font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-40"
+                >
+                  Invite
+                </button>
+              </div>
+            </div>
+          )}
+
+          {active && activeRole !== 'owner' && (
+            <div className="pt-3 border-t border-slate-100 flex items-center justify-between px-2">
+              <span className="text-[10px] font-medium text-slate-500">
+                {activeRole === 'viewer' ? 'View-only access' : `${Object.keys(active.members).length} members`}
+              </span>
+              <button
+                onClick={handleLeave}
+                disabled={isBusy || active.ownerId === user.uid}
+                className="text-[8px] font-black uppercase tracking-widest text-rose-500 hover:text-rose-700 disabled:opacity-40"
+              >
+                Leave Workspace
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center gap-1.5 pt-3 border-t border-slate-100">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && newName.trim() && handleCreate()}
+              placeholder="New team workspace"
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-600 outline-none focus:border-indigo-400"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={isBusy || !newName.trim()}
+              className="px-2.5 py-1 bg-indigo-600 text-white rounded-lg text-[8px] font-black uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-40"
+            >
+              Create
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { CompetitorProfile, DocumentKind } from './types';
 
 export const ICONS = {
   Document: ({ className }: { className?: string } = {}) => (
@@ -90,3 +91,24 @@ export const ICONS = {
     </svg>
   ),
 };
+
+// Labels offered when filing a library document
+export const DOCUMENT_KINDS: DocumentKind[] = [
+  'RFP', 'Transcript', 'Annual Report', 'Proposal', 'Contract', 'Email Thread', 'Presentation', 'Web Page', 'Spreadsheet', 'Notes', 'Other'
+];
+
+// Starting roster for new sessions; users edit it in the meeting configuration.
+export const DEFAULT_COMPETITORS: CompetitorProfile[] = [
+  {
+    id: 'cognigy',
+    name: 'Cognigy',
+    positioning: "Low-code conversational AI platform for contact-center automation.",
+    battlecardNotes: ""
+  },
+  {
+    id: 'amelia',
+    name: 'Amelia',
+    positioning: "Enterprise AI agent platform sold as a digital workforce for IT and HR service desks.",
+    battlecardNotes: ""
+  }
+];
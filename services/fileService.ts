@@ -1,24 +1,49 @@
 
 import { performVisionOcr } from './geminiService';
 import { preprocessCanvas } from '../utils/imageUtils';
+import { parseDelimited, toTable, renderTables, ExtractedTable } from '../utils/tableText';
+import { marker } from '../utils/documentMarkers';
+import { parseMailbox, renderEmails } from '../utils/emailParser';
+import { looksLikeTranscript, parseTranscript, renderTranscript } from '../utils/transcriptParser';
+import { extractHtml } from '../utils/htmlExtractor';
+import { cachePage, clearCachedFile, getCachedPage, ocrFileKey } from './ocrPageCache';
+import { DocumentMetadata, PageStatus } from '../types';
 
 export interface ParsingCallbacks {
   onProgress?: (percent: number) => void;
   onStatusChange?: (isOcr: boolean) => void;
+  onPageStatus?: (pages: PageStatus[]) => void;
+}
+
+// Pages with less extracted text than this are treated as scans and OCR'd
+const MIN_PAGE_CHARS = 50;
+
+export interface ParsedDocument {
+  text: string;
+  metadata?: DocumentMetadata;
+}
+
+/**
+ * Extracts raw text, plus any provenance metadata, from a variety of document formats.
+ */
+export async function parseDocument(file: File, callbacks: ParsingCallbacks = {}): Promise<ParsedDocument> {
+  if (/\.(html?|xhtml)$/i.test(file.name) || file.type === 'text/html') {
+    const { text, metadata } = extractHtml(new TextDecoder().decode(await file.arrayBuffer()));
+    return { text, metadata };
+  }
+  if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
+    return extractTextFromPdf(file, callbacks);
+  }
+  return { text: await extractText(file, callbacks) };
 }
 
 /**
  * Extracts raw text from a variety of document formats.
  * Includes intelligent fallback to high-precision OCR for scanned PDFs and images.
  */
-export async function parseDocument(file: File, callbacks: ParsingCallbacks = {}): Promise<string> {
+async function extractText(file: File, callbacks: ParsingCallbacks): Promise<string> {
   const { onProgress, onStatusChange } = callbacks;
 
-  if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-    const arrayBuffer = await file.arrayBuffer();
-    return extractTextFromPdf(arrayBuffer, onProgress, onStatusChange);
-  } 
-  
   if (file.type.startsWith('image/')) {
     onStatusChange?.(true);
     const text = await extractTextFromImage(file);
@@ -32,55 +57,242 @@ export async function parseDocument(file: File, callbacks: ParsingCallbacks = {}
     return result.value;
   } 
 
-  // Default: Plain text fallback
+  if (file.name.toLowerCase().endsWith('.pptx')) {
+    const arrayBuffer = await file.arrayBuffer();
+    return extractTextFromPptx(arrayBuffer, onProgress, onStatusChange);
+  }
+
+  if (/\.(eml|mbox)$/i.test(file.name) || file.type === 'message/rfc822') {
+    // One char per byte, so each MIME part can be decoded with its declared charset
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return renderEmails(parseMailbox(binary));
+  }
+
+  if (/\.(xlsx|xlsm|xls|ods)$/i.test(file.name)) {
+    const arrayBuffer = await file.arrayBuffer();
+    return extractTextFromWorkbook(arrayBuffer);
+  }
+
+  if (/\.(csv|tsv)$/i.test(file.name) || file.type === 'text/csv') {
+    const text = new TextDecoder().decode(await file.arrayBuffer());
+    const sheetName = file.name.replace(/\.[^.]+$/, '');
+    const table = toTable(sheetName, parseDelimited(text, file.name.toLowerCase().endsWith('.tsv') ? '\t' : undefined));
+    return table ? renderTables([table]) : '';
+  }
+
+  if (/\.(vtt|srt)$/i.test(file.name)) {
+    const text = new TextDecoder().decode(await file.arrayBuffer());
+    return renderTranscript(parseTranscript(text));
+  }
+
+  // Default: Plain text fallback, with speaker-labelled exports kept as transcript turns
   const arrayBuffer = await file.arrayBuffer();
-  return new TextDecoder().decode(arrayBuffer);
+  const text = new TextDecoder().decode(arrayBuffer);
+  return looksLikeTranscript(text) ? renderTranscript(parseTranscript(text)) : text;
 }
 
-async function extractTextFromPdf(
-  arrayBuffer: ArrayBuffer, 
-  onProgress?: (p: number) => void, 
-  onStatusChange?: (isOcr: boolean) => void
-): Promise<string> {
+/**
+ * Text layer first, then OCR for just the pages that came back nearly empty. Each OCR'd
+ * page is cached as soon as it is read, so a retry after a failure skips finished pages.
+ */
+async function extractTextFromPdf(file: File, callbacks: ParsingCallbacks): Promise<ParsedDocument> {
+  const { onProgress, onStatusChange, onPageStatus } = callbacks;
   const pdfjsLib = (window as any).pdfjsLib;
-  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
+  const loadingTask = pdfjsLib.getDocument({ data: await file.arrayBuffer() });
   const pdf = await loadingTask.promise;
-  let fullText = "";
-  
-  // Preliminary text extraction attempt
+  const fileKey = ocrFileKey(file);
+
+  const texts: string[] = [];
+  const statuses: PageStatus[] = [];
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
     const textContent = await page.getTextContent();
-    fullText += textContent.items.map((item: any) => item.str).join(" ") + "\n";
+    const text = textContent.items.map((item: any) => item.str).join(" ");
+    texts.push(text);
+    statuses.push(text.trim().length < MIN_PAGE_CHARS ? 'queued' : 'text');
   }
+  const report = (index: number, status: PageStatus) => {
+    statuses[index] = status;
+    onPageStatus?.([...statuses]);
+  };
+  onPageStatus?.([...statuses]);
 
-  // If text density is low, trigger high-precision Cognitive OCR
-  if (fullText.trim().length < 50 * pdf.numPages && pdf.numPages > 0) {
-    onStatusChange?.(true);
-    fullText = "";
-    for (let i = 1; i <= pdf.numPages; i++) {
-      onProgress?.(Math.round((i / pdf.numPages) * 100));
-      const page = await pdf.getPage(i);
-      const viewport = page.getViewport({ scale: 4.0 }); // Ultra-HD 4.0x Scale
-      const canvas = document.createElement('canvas');
-      canvas.height = viewport.height;
-      canvas.width = viewport.width;
-      
-      await page.render({ 
-        canvasContext: canvas.getContext('2d'), 
-        viewport 
-      }).promise;
-      
-      preprocessCanvas(canvas);
-      const base64Data = canvas.toDataURL('image/png').split(',')[1];
-      const extractedText = await performVisionOcr(base64Data, 'image/png');
-      fullText += `--- PAGE ${i} ---\n${extractedText}\n\n`;
+  const ocrPages = statuses.map((s, i) => s === 'queued' ? i + 1 : 0).filter(Boolean);
+  if (ocrPages.length > 0) onStatusChange?.(true);
+  try {
+    for (const [done, pageNumber] of ocrPages.entries()) {
+      onProgress?.(Math.round((done / ocrPages.length) * 100));
+      const cached = getCachedPage(fileKey, pageNumber);
+      if (cached !== undefined) {
+        texts[pageNumber - 1] = cached;
+        report(pageNumber - 1, 'cached');
+        continue;
+      }
+
+      report(pageNumber - 1, 'ocr');
+      try {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: 4.0 }); // Ultra-HD 4.0x Scale
+        const canvas = document.createElement('canvas');
+        canvas.height = viewport.height;
+        canvas.width = viewport.width;
+
+        await page.render({
+          canvasContext: canvas.getContext('2d'),
+          viewport
+        }).promise;
+
+        preprocessCanvas(canvas);
+        const base64Data = canvas.toDataURL('image/png').split(',')[1];
+        const extractedText = await performVisionOcr(base64Data, 'image/png', `OCR page ${pageNumber} of ${pdf.numPages}`);
+        texts[pageNumber - 1] = extractedText;
+        cachePage(fileKey, pageNumber, extractedText);
+        report(pageNumber - 1, 'done');
+      } catch (error) {
+        report(pageNumber - 1, 'failed');
+        throw error;
+      }
+    }
+  } finally {
+    if (ocrPages.length > 0) {
+      onStatusChange?.(false);
+      onProgress?.(0);
     }
+  }
+
+  clearCachedFile(fileKey);
+  return {
+    text: texts.map((text, i) => `${marker('page', i + 1)}\n${text.trim()}`).join('\n\n'),
+    metadata: { pageCount: pdf.numPages, ...(ocrPages.length > 0 ? { ocrPages } : {}) }
+  };
+}
+
+// One table per non-empty sheet, in workbook order, with formatted cell values.
+async function extractTextFromWorkbook(arrayBuffer: ArrayBuffer): Promise<string> {
+  const XLSX = (window as any).XLSX;
+  if (!XLSX) throw new Error("Spreadsheet parser (SheetJS) failed to load.");
+  const workbook = XLSX.read(arrayBuffer, { type: 'array' });
+  const tables = (workbook.SheetNames as string[])
+    .map(name => toTable(name, XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, raw: false, defval: '', blankrows: false })))
+    .filter((t): t is ExtractedTable => t !== null);
+  return renderTables(tables);
+}
+
+const PPTX_NS = {
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  rel: 'http://schemas.openxmlformats.org/package/2006/relationships'
+};
+const OCR_IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp' };
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Relationship id -> zip path, resolved against the part's folder.
+async function readRels(zip: any, partPath: string): Promise<Map<string, { type: string; target: string }>> {
+  const folder = partPath.substring(0, partPath.lastIndexOf('/'));
+  const relsPath = `${folder}/_rels/${partPath.substring(folder.length + 1)}.rels`;
+  const xml = await zip.file(relsPath)?.async('string');
+  const rels = new Map<string, { type: string; target: string }>();
+  if (!xml) return rels;
+  Array.from(parseXml(xml).getElementsByTagNameNS(PPTX_NS.rel, 'Relationship')).forEach(rel => {
+    const target = rel.getAttribute('Target') || '';
+    const parts = (target.startsWith('/') ? target : `${folder}/${target}`).split('/');
+    const resolved: string[] = [];
+    parts.forEach(p => { if (p === '..') resolved.pop(); else if (p && p !== '.') resolved.push(p); });
+    rels.set(rel.getAttribute('Id') || '', { type: rel.getAttribute('Type') || '', target: resolved.join('/') });
+  });
+  return rels;
+}
+
+// Paragraph text of a shape tree, one line per <a:p>.
+const paragraphs = (root: Element): string[] =>
+  Array.from(root.getElementsByTagNameNS(PPTX_NS.a, 'p'))
+    .map(p => Array.from(p.getElementsByTagNameNS(PPTX_NS.a, 't')).map(t => t.textContent || '').join('').trim())
+    .filter(Boolean);
+
+const isTitleShape = (shape: Element) => {
+  const ph = shape.getElementsByTagNameNS(PPTX_NS.p, 'ph')[0];
+  return !!ph && ['title', 'ctrTitle'].includes(ph.getAttribute('type') || '');
+};
+
+/**
+ * Slides in presentation order, each with its title, body text and speaker notes.
+ * Slides with no text but with pictures are sent to vision OCR.
+ */
+async function extractTextFromPptx(
+  arrayBuffer: ArrayBuffer,
+  onProgress?: (p: number) => void,
+  onStatusChange?: (isOcr: boolean) => void
+): Promise<string> {
+  const JSZip = (window as any).JSZip;
+  if (!JSZip) throw new Error("Presentation parser (JSZip) failed to load.");
+  const zip = await JSZip.loadAsync(arrayBuffer);
+
+  const presentation = await zip.file('ppt/presentation.xml')?.async('string');
+  if (!presentation) throw new Error("Not a PowerPoint deck: ppt/presentation.xml is missing.");
+  const presentationRels = await readRels(zip, 'ppt/presentation.xml');
+  const slidePaths = Array.from(parseXml(presentation).getElementsByTagNameNS(PPTX_NS.p, 'sldId'))
+    .map(el => presentationRels.get(el.getAttributeNS(PPTX_NS.r, 'id') || '')?.target)
+    .filter((path): path is string => !!path && !!zip.file(path));
+
+  const sections: string[] = [];
+  let usedOcr = false;
+  for (let i = 0; i < slidePaths.length; i++) {
+    const slide = parseXml(await zip.file(slidePaths[i]).async('string'));
+    const rels = await readRels(zip, slidePaths[i]);
+    const shapes = Array.from(slide.getElementsByTagNameNS(PPTX_NS.p, 'sp'));
+    const title = shapes.filter(isTitleShape).flatMap(paragraphs).join(' ');
+    const body = shapes.filter(s => !isTitleShape(s)).flatMap(paragraphs);
+    // Table cells live in graphic frames rather than shapes
+    Array.from(slide.getElementsByTagNameNS(PPTX_NS.a, 'tr')).forEach(row => {
+      const cells = Array.from(row.getElementsByTagNameNS(PPTX_NS.a, 'tc')).map(c => paragraphs(c).join(' '));
+      if (cells.some(Boolean)) body.push(`| ${cells.join(' | ')} |`);
+    });
+
+    if (!title && body.length === 0) {
+      const images = Array.from(slide.getElementsByTagNameNS(PPTX_NS.a, 'blip'))
+        .map(blip => rels.get(blip.getAttributeNS(PPTX_NS.r, 'embed') || '')?.target)
+        .filter((path): path is string => !!path && !!OCR_IMAGE_TYPES[path.split('.').pop()!.toLowerCase()]);
+      if (images.length > 0 && !usedOcr) {
+        usedOcr = true;
+        onStatusChange?.(true);
+      }
+      for (const path of images) {
+        onProgress?.(Math.round(((i + 1) / slidePaths.length) * 100));
+        const base64Data = await zip.file(path).async('base64');
+        const mimeType = OCR_IMAGE_TYPES[path.split('.').pop()!.toLowerCase()];
+        const text = await performVisionOcr(base64Data, mimeType, `OCR slide ${i + 1} of ${slidePaths.length}`);
+        if (text.trim()) body.push(text.trim());
+      }
+    }
+
+    const notesPath = [...rels.values()].find(r => r.type.endsWith('/notesSlide'))?.target;
+    const notesXml = notesPath ? await zip.file(notesPath)?.async('string') : undefined;
+    // Notes pages repeat the slide number and image placeholders; only the body placeholder holds notes
+    const notes = notesXml
+      ? Array.from(parseXml(notesXml).getElementsByTagNameNS(PPTX_NS.p, 'sp'))
+          .filter(s => s.getElementsByTagNameNS(PPTX_NS.p, 'ph')[0]?.getAttribute('type') === 'body')
+          .flatMap(paragraphs)
+      : [];
+
+    sections.push([
+      marker('slide', i + 1),
+      title && `TITLE: ${title}`,
+      body.join('\n'),
+      notes.length > 0 && `SPEAKER NOTES:\n${notes.join('\n')}`
+    ].filter(Boolean).join('\n'));
+  }
+
+  if (usedOcr) {
     onStatusChange?.(false);
     onProgress?.(0);
   }
-
-  return fullText;
+  return sections.join('\n\n');
 }
 
 async function extractTextFromImage(file: File): Promise<string> {
@@ -97,7 +309,7 @@ async function extractTextFromImage(file: File): Promise<string> {
         preprocessCanvas(canvas);
         const base64Data = canvas.toDataURL('image/png').split(',')[1];
         try {
-          const text = await performVisionOcr(base64Data, 'image/png');
+          const text = await performVisionOcr(base64Data, 'image/png', "Image OCR");
           resolve(text);
         } catch (err) { 
           reject(err); 
@@ -11,14 +11,21 @@ import {
   getFirestore, 
   Firestore,
   collection, 
-  addDoc, 
+  getDoc,
   getDocs, 
+  setDoc,
   query, 
   where,
   Timestamp,
   deleteDoc,
   doc,
-  updateDoc
+  updateDoc,
+  writeBatch,
+  runTransaction,
+  increment,
+  deleteField,
+  connectFirestoreEmulator,
+  DocumentReference
 } from "firebase/firestore";
 import { 
   getAuth, 
@@ -26,10 +33,17 @@ import {
   onAuthStateChanged, 
   signInWithEmailAndPassword, 
   createUserWithEmailAndPassword, 
+  sendEmailVerification,
   signOut,
+  connectAuthEmulator,
   User
 } from "firebase/auth";
-import { StoredDocument } from "../types";
+import { AnalysisResult, AnalysisThread, AnalysisVersion, AssessmentSession, DocumentMetadata, DocumentOrganization, DocumentRevision, MeetingContext, SourceRevision, StoredDocument, WorkspaceRole } from "../types";
+import { analysisResultValidator } from "../utils/responseValidators";
+import { validate } from "../utils/validation";
+import { hashString } from "../utils/hash";
+import { contentFingerprint, storedSignature } from "../utils/duplicates";
+import { diffLines, diffStats } from "../utils/lineDiff";
 
 // State to track if we've hit a permission error
 let internalPermissionError = false;
@@ -43,6 +57,10 @@ const firebaseConfig = {
   appId: "1:937017757020:web:1a899a8be406844e268599"
 };
 
+// Set to e.g. "localhost" to run against `npm run emulators` instead of the live project
+const EMULATOR_HOST = process.env.FIREBASE_EMULATOR_HOST;
+const EMULATOR_PROJECT_ID = "demo-cognitive-sales";
+
 // Properly type db and auth instances instead of using any
 let db: Firestore | null = null;
 let auth: Auth | null = null;
@@ -52,25 +70,77 @@ try {
   if (firebaseConfig.apiKey && firebaseConfig.apiKey !== "REPLACE_WITH_YOUR_API_KEY") {
     // Correct modular initialization for Firebase v9+
     // Using any for app to bypass potential type export issues in this environment
-    const app: any = initializeApp(firebaseConfig);
+    const app: any = initializeApp(EMULATOR_HOST ? { ...firebaseConfig, projectId: EMULATOR_PROJECT_ID } : firebaseConfig);
     db = getFirestore(app);
     auth = getAuth(app);
+    if (EMULATOR_HOST) {
+      connectFirestoreEmulator(db, EMULATOR_HOST, 8080);
+      connectAuthEmulator(auth, `http://${EMULATOR_HOST}:9099`, { disableWarnings: true });
+    }
   }
 } catch (error) {
   console.error("Firebase Initialization Error:", error);
 }
 
 const COLLECTION_NAME = "cognitive_documents";
+const ANALYSES_COLLECTION = "cognitive_analyses";
+const VERSIONS_SUBCOLLECTION = "versions";
+const CONTENT_SUBCOLLECTION = "chunks";
+const REVISIONS_SUBCOLLECTION = "revisions";
+const ASSESSMENTS_COLLECTION = "cognitive_assessments";
 
 export const getAuthInstance = () => auth;
 export const getDbInstance = () => db;
 
+/**
+ * Where the library, analyses and assessments are read and written: a shared workspace,
+ * or null for the signed-in user's personal library.
+ */
+let activeWorkspace: { id: string; role: WorkspaceRole } | null = null;
+
+export const setActiveWorkspace = (workspace: { id: string; role: WorkspaceRole } | null) => { activeWorkspace = workspace; };
+export const getActiveWorkspace = () => activeWorkspace;
+export const canWriteActiveWorkspace = () => activeWorkspace?.role !== 'viewer';
+
+// Personal records carry userId; workspace records carry workspaceId plus their author,
+// so a query on userId never returns workspace records (see firestore.rules)
+type OwnerFields = { userId: string } | { workspaceId: string; createdBy: string };
+
+const ownerFields = (uid: string): OwnerFields =>
+  activeWorkspace ? { workspaceId: activeWorkspace.id, createdBy: uid } : { userId: uid };
+
+const ownerFilter = (uid: string) =>
+  activeWorkspace ? where("workspaceId", "==", activeWorkspace.id) : where("userId", "==", uid);
+
 export const getFirebasePermissionError = () => internalPermissionError;
 export const clearFirebasePermissionError = () => { internalPermissionError = false; };
 
 // Auth Helper Functions
 export const loginUser = (email: string, pass: string) => auth ? signInWithEmailAndPassword(auth, email, pass) : Promise.reject("Auth module not initialized");
-export const registerUser = (email: string, pass: string) => auth ? createUserWithEmailAndPassword(auth, email, pass) : Promise.reject("Auth module not initialized");
+// New accounts start unverified; workspace invites can't be seen or accepted until the address is confirmed
+export const registerUser = async (email: string, pass: string) => {
+  if (!auth) return Promise.reject("Auth module not initialized");
+  const credential = await createUserWithEmailAndPassword(auth, email, pass);
+  sendEmailVerification(credential.user).catch(error => console.error("Send verification email failed:", error));
+  return credential;
+};
+export const resendEmailVerification = async (): Promise<boolean> => {
+  if (!auth?.currentUser) return false;
+  try {
+    await sendEmailVerification(auth.currentUser);
+    return true;
+  } catch (error) {
+    console.error("Send verification email failed:", error);
+    return false;
+  }
+};
+// Picks up a verification made in another tab; the token is refreshed so the rules see it too
+export const refreshEmailVerification = async (): Promise<boolean> => {
+  if (!auth?.currentUser) return false;
+  await auth.currentUser.reload();
+  if (auth.currentUser.emailVerified) await auth.currentUser.getIdToken(true);
+  return auth.currentUser.emailVerified;
+};
 export const logoutUser = () => auth && signOut(auth);
 export const subscribeToAuth = (callback: (user: User | null) => void) => {
   if (auth) {
@@ -80,67 +150,302 @@ export const subscribeToAuth = (callback: (user: User | null) => void) => {
   return () => {};
 };
 
-export const saveDocumentToFirebase = async (name: string, content: string, type: string): Promise<string | null> => {
+// Firestore rejects undefined values, so unset filing fields are left out of the write
+const organizationFields = (organization: DocumentOrganization): DocumentOrganization => ({
+  ...(organization.tags && organization.tags.length > 0 ? { tags: organization.tags } : {}),
+  ...(organization.account?.trim() ? { account: organization.account.trim() } : {}),
+  ...(organization.kind ? { kind: organization.kind } : {}),
+  ...(organization.folder?.trim() ? { folder: organization.folder.trim() } : {})
+});
+
+// Document text lives in chunk subdocuments so long OCR'd files stay under Firestore's
+// 1 MiB document limit. 200k UTF-16 units is at most ~600 KB of UTF-8.
+const CONTENT_CHUNK_CHARS = 200_000;
+// Chunks per batch, keeping each commit well under the 10 MiB request limit
+const CHUNKS_PER_BATCH = 8;
+const PREVIEW_CHARS = 280;
+
+export class DocumentStorageError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'DocumentStorageError';
+  }
+}
+
+// Text fetched this session, keyed by document id and valid while updatedAt is unchanged
+const contentCache = new Map<string, { updatedAt: number; content: string }>();
+
+export const splitContent = (content: string): string[] => {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < content.length) {
+    let end = Math.min(start + CONTENT_CHUNK_CHARS, content.length);
+    // Never split a surrogate pair across two chunks
+    if (end < content.length && /[\uD800-\uDBFF]/.test(content[end - 1])) end--;
+    chunks.push(content.substring(start, end));
+    start = end;
+  }
+  return chunks;
+};
+
+/** Library listings carry metadata only; chunked text is fetched when a document is opened or selected. */
+export const isContentLoaded = (stored: StoredDocument) => !stored.contentChunks || stored.content.length > 0;
+
+const contentSummary = (content: string) => ({
+  contentHash: contentFingerprint(content),
+  contentSignature: storedSignature(content),
+  contentLength: content.length,
+  preview: content.substring(0, PREVIEW_CHARS)
+});
+
+// Writes chunks 0..n-1 under `parent` and removes any left over from a longer previous version.
+const writeContentChunks = async (parent: DocumentReference, owner: OwnerFields, content: string, previousCount = 0): Promise<number> => {
+  const chunks = splitContent(content);
+  for (let i = 0; i < Math.max(chunks.length, previousCount); i += CHUNKS_PER_BATCH) {
+    const batch = writeBatch(db!);
+    for (let j = i; j < Math.min(i + CHUNKS_PER_BATCH, Math.max(chunks.length, previousCount)); j++) {
+      const chunkRef = doc(parent, CONTENT_SUBCOLLECTION, j.toString());
+      if (j < chunks.length) batch.set(chunkRef, { ...owner, index: j, text: chunks[j] });
+      else batch.delete(chunkRef);
+    }
+    await batch.commit();
+  }
+  return chunks.length;
+};
+
+// Joins the chunks under `parent`; null when any of the expected `count` are missing
+const readContentChunks = async (parent: DocumentReference, uid: string, count: number): Promise<{ text: string | null; found: number }> => {
+  const querySnapshot = await getDocs(query(collection(parent, CONTENT_SUBCOLLECTION), ownerFilter(uid)));
+  const chunks = querySnapshot.docs
+    .map(d => d.data() as { index: number; text: string })
+    .filter(c => c.index < count)
+    .sort((a, b) => a.index - b.index);
+  const complete = chunks.length === count && chunks.every((c, i) => c.index === i);
+  return { text: complete ? chunks.map(c => c.text).join('') : null, found: chunks.length };
+};
+
+const storageFailure = (action: string, error: any): DocumentStorageError => {
+  if (error?.code === 'permission-denied') {
+    internalPermissionError = true;
+    console.error("CRITICAL: Firestore Permission Denied. Ensure rules are updated to check request.auth.uid.");
+    return new DocumentStorageError(`${action} failed: the cloud library denied access. Check the Firestore rules.`, error);
+  }
+  if (error?.code === 'resource-exhausted' || error?.code === 'invalid-argument') {
+    return new DocumentStorageError(`${action} failed: the document is larger than the cloud library accepts.`, error);
+  }
+  return new DocumentStorageError(`${action} failed: ${error?.message || 'the cloud library could not be reached.'}`, error);
+};
+
+/**
+ * Saves a parsed document. Chunks are written first and the listing entry last, so a
+ * failed upload never leaves a half-written document in the library.
+ * Throws DocumentStorageError when the write fails; returns null when signed out.
+ */
+export const saveDocumentToFirebase = async (
+  name: string,
+  content: string,
+  type: string,
+  metadata?: DocumentMetadata,
+  organization: DocumentOrganization = {},
+  // Imports keep the dates the document had in the archive
+  dates?: { timestamp: number; updatedAt: number }
+): Promise<string | null> => {
   if (!db || !auth || !auth.currentUser) return null;
 
+  const owner = ownerFields(auth.currentUser.uid);
+  const docRef = doc(collection(db, COLLECTION_NAME));
   try {
+    const contentChunks = await writeContentChunks(docRef, owner, content);
     const now = Timestamp.now();
-    const docRef = await addDoc(collection(db, COLLECTION_NAME), {
-      userId: auth.currentUser.uid, // Tie document to unique user
+    const timestamp = dates ? Timestamp.fromMillis(dates.timestamp) : now;
+    const updatedAt = dates ? Timestamp.fromMillis(dates.updatedAt) : now;
+    await setDoc(docRef, {
+      ...owner, // Tie document to its user or workspace
       name,
-      content,
       type,
-      timestamp: now,
-      updatedAt: now
+      ...contentSummary(content),
+      contentChunks,
+      // Firestore rejects undefined fields, so metadata is only written when present
+      ...(metadata && Object.keys(metadata).length > 0 ? { metadata } : {}),
+      ...organizationFields(organization),
+      timestamp,
+      updatedAt
     });
+    contentCache.set(docRef.id, { updatedAt: updatedAt.toMillis(), content });
     internalPermissionError = false;
     return docRef.id;
   } catch (error: any) {
-    if (error.code === 'permission-denied') {
-      internalPermissionError = true;
-      console.error("CRITICAL: Firestore Permission Denied. Ensure rules are updated to check request.auth.uid.");
-    }
-    return null;
+    console.error("Error saving document:", error);
+    // Orphaned chunks are invisible to the listing, but they still count against storage
+    writeContentChunks(docRef, owner, '', splitContent(content).length).catch(() => {});
+    throw storageFailure(`Saving "${name}"`, error);
   }
 };
 
-export const updateDocumentInFirebase = async (id: string, newContent: string): Promise<boolean> => {
-  if (!db || !auth || !auth.currentUser) return false;
+const revisionRef = (docId: string, revision: number) =>
+  doc(db!, COLLECTION_NAME, docId, REVISIONS_SUBCOLLECTION, revision.toString().padStart(6, '0'));
+
+// Removes a revision and the chunks of a diff too large to store inline
+const deleteRevision = async (ref: DocumentReference, owner: OwnerFields, diffChunks = 0) => {
+  if (diffChunks > 0) await writeContentChunks(ref, owner, '', diffChunks);
+  await deleteDoc(ref);
+};
+
+/**
+ * Replaces a document's text and records the edit as a revision holding the line diff,
+ * author and time. `revertedFrom` marks an edit that restored an earlier revision.
+ * Returns the new updatedAt in milliseconds, or null when signed out. Throws
+ * DocumentStorageError when the write fails.
+ */
+export const updateDocumentInFirebase = async (id: string, newContent: string, metadata?: DocumentMetadata, revertedFrom?: number): Promise<number | null> => {
+  if (!db || !auth || !auth.currentUser) return null;
+  const user = auth.currentUser;
+  const owner = ownerFields(user.uid);
+  let claimed: { ref: DocumentReference; diffChunks: number } | null = null;
   try {
     const docRef = doc(db, COLLECTION_NAME, id);
-    // Note: Firestore rules should prevent updating if userId doesn't match
+    const previous = (await getDoc(docRef)).data() || {};
+    const now = Timestamp.now();
+
+    // The diff is taken against the cloud text, which the caller may not have loaded
+    const before = (await loadDocumentContent({
+      id, name: previous.name || id, type: previous.type || '',
+      content: previous.content ?? '',
+      contentChunks: previous.content === undefined ? previous.contentChunks : undefined,
+      timestamp: previous.timestamp?.toMillis() || 0,
+      updatedAt: previous.updatedAt?.toMillis() || previous.timestamp?.toMillis() || 0
+    })).content;
+    const revision = (previous.revision || 0) + (before === newContent ? 0 : 1);
+
+    if (before !== newContent) {
+      const diff = diffLines(before, newContent);
+      const diffJson = JSON.stringify(diff);
+      const inline = diffJson.length <= CONTENT_CHUNK_CHARS;
+      const ref = revisionRef(id, revision);
+      // Writing the revision first claims its number. The rules never let a revision be
+      // overwritten, so of two editors saving at once only one gets through.
+      await setDoc(ref, {
+        ...owner,
+        revision,
+        author: user.email || user.uid,
+        ...diffStats(diff),
+        textHash: hashString(newContent),
+        ...(inline ? { diffJson } : { diffChunks: splitContent(diffJson).length }),
+        ...(revertedFrom !== undefined ? { revertedFrom } : {}),
+        createdAt: now
+      });
+      claimed = { ref, diffChunks: inline ? 0 : splitContent(diffJson).length };
+      if (!inline) await writeContentChunks(ref, owner, diffJson);
+    }
+
+    const contentChunks = await writeContentChunks(docRef, owner, newContent, previous.contentChunks || 0);
+    // Note: Firestore rules should prevent updating if the user can't write to its owner
     await updateDoc(docRef, {
-      content: newContent,
-      updatedAt: Timestamp.now()
+      // Documents saved before chunking kept their text inline
+      content: deleteField(),
+      ...contentSummary(newContent),
+      contentChunks,
+      revision,
+      ...(metadata && Object.keys(metadata).length > 0 ? { metadata } : {}),
+      updatedAt: now
     });
-    return true;
+    contentCache.set(id, { updatedAt: now.toMillis(), content: newContent });
+    return now.toMillis();
   } catch (error: any) {
     console.error("Error updating document:", error);
-    return false;
+    // An unused revision would block the next save from claiming its number
+    if (claimed) deleteRevision(claimed.ref, owner, claimed.diffChunks).catch(() => {});
+    throw storageFailure("Saving the edit", error);
   }
 };
 
+/** A document's saved edits, newest first. Throws DocumentStorageError when they can't be read. */
+export const fetchDocumentRevisions = async (stored: StoredDocument): Promise<DocumentRevision[]> => {
+  if (!db || !auth || !auth.currentUser) return [];
+  const uid = auth.currentUser.uid;
+  try {
+    const querySnapshot = await getDocs(query(collection(db, COLLECTION_NAME, stored.id, REVISIONS_SUBCOLLECTION), ownerFilter(uid)));
+    const revisions = await Promise.all(querySnapshot.docs.map(async (d): Promise<DocumentRevision | null> => {
+      const data = d.data();
+      // Left behind by a save that failed after claiming its number
+      if (data.revision > (stored.revision || 0)) return null;
+      const diffJson = data.diffChunks ? (await readContentChunks(d.ref, uid, data.diffChunks)).text : data.diffJson;
+      if (!diffJson) return null;
+      return {
+        id: d.id,
+        revision: data.revision,
+        author: data.author || '',
+        createdAt: data.createdAt?.toMillis() || 0,
+        diff: JSON.parse(diffJson),
+        added: data.added || 0,
+        removed: data.removed || 0,
+        textHash: data.textHash,
+        revertedFrom: data.revertedFrom
+      };
+    }));
+    return revisions.filter((r): r is DocumentRevision => !!r).sort((a, b) => b.revision - a.revision);
+  } catch (error: any) {
+    throw storageFailure(`Loading the history of "${stored.name}"`, error);
+  }
+};
+
+// Replaces all filing fields at once; cleared fields are removed from the document.
+// Throws DocumentStorageError when the write fails.
+export const updateDocumentOrganization = async (id: string, organization: DocumentOrganization): Promise<number | null> => {
+  if (!db || !auth || !auth.currentUser) return null;
+  try {
+    const fields = organizationFields(organization);
+    const now = Timestamp.now();
+    await updateDoc(doc(db, COLLECTION_NAME, id), {
+      tags: fields.tags ?? deleteField(),
+      account: fields.account ?? deleteField(),
+      kind: fields.kind ?? deleteField(),
+      folder: fields.folder ?? deleteField(),
+      updatedAt: now
+    });
+    return now.toMillis();
+  } catch (error: any) {
+    console.error("Error updating document organization:", error);
+    throw storageFailure("Filing the document", error);
+  }
+};
+
+/** Throws DocumentStorageError when the library can't be read, so callers can fall back to the local copy. */
 export const fetchDocumentsFromFirebase = async (): Promise<StoredDocument[]> => {
   if (!db || !auth || !auth.currentUser) return [];
 
   try {
-    // Filter by userId and sort results client-side to avoid composite index requirements.
+    // Filter by owner and sort results client-side to avoid composite index requirements.
     const q = query(
       collection(db, COLLECTION_NAME), 
-      where("userId", "==", auth.currentUser.uid)
+      ownerFilter(auth.currentUser.uid)
     );
     const querySnapshot = await getDocs(q);
     internalPermissionError = false;
     
     const docs = querySnapshot.docs.map(doc => {
       const data = doc.data();
+      const updatedAt = data.updatedAt?.toMillis() || data.timestamp?.toMillis() || Date.now();
+      const cached = contentCache.get(doc.id);
       return {
         id: doc.id,
         name: data.name,
-        content: data.content,
+        // Inline text is from documents saved before chunking
+        content: data.content ?? (cached?.updatedAt === updatedAt ? cached.content : ''),
+        contentChunks: data.content === undefined ? data.contentChunks : undefined,
+        contentLength: data.contentLength ?? data.content?.length,
+        preview: data.preview,
         type: data.type,
+        metadata: data.metadata,
+        contentHash: data.contentHash,
+        contentSignature: Array.isArray(data.contentSignature) ? data.contentSignature : undefined,
+        tags: Array.isArray(data.tags) ? data.tags : undefined,
+        account: data.account,
+        kind: data.kind,
+        folder: data.folder,
+        revision: data.revision || 0,
         timestamp: data.timestamp?.toMillis() || Date.now(),
-        updatedAt: data.updatedAt?.toMillis() || data.timestamp?.toMillis() || Date.now()
+        updatedAt
       };
     });
 
@@ -151,21 +456,296 @@ export const fetchDocumentsFromFirebase = async (): Promise<StoredDocument[]> =>
       internalPermissionError = true;
     }
     console.error("Fetch documents failed:", error);
-    return [];
+    throw storageFailure("Loading the library", error);
   }
 };
 
+/** Reassembles a document's text from its chunks. Throws DocumentStorageError if any are missing. */
+export const loadDocumentContent = async (stored: StoredDocument): Promise<StoredDocument> => {
+  if (isContentLoaded(stored)) return stored;
+  if (!db || !auth || !auth.currentUser) throw new DocumentStorageError(`"${stored.name}" can't be loaded while signed out.`);
+
+  try {
+    const { text: content, found } = await readContentChunks(doc(db, COLLECTION_NAME, stored.id), auth.currentUser.uid, stored.contentChunks!);
+    if (content === null) {
+      throw new DocumentStorageError(`"${stored.name}" is incomplete in the cloud library (${found} of ${stored.contentChunks} parts found).`);
+    }
+    contentCache.set(stored.id, { updatedAt: stored.updatedAt || stored.timestamp, content });
+    return { ...stored, content };
+  } catch (error: any) {
+    if (error instanceof DocumentStorageError) throw error;
+    throw storageFailure(`Loading "${stored.name}"`, error);
+  }
+};
+
+// Documents whose text failed to load are left out rather than failing the whole set
+export const loadDocumentContents = async (docs: StoredDocument[]): Promise<{ loaded: StoredDocument[]; failed: { doc: StoredDocument; error: string }[] }> => {
+  const results = await Promise.allSettled(docs.map(loadDocumentContent));
+  const loaded: StoredDocument[] = [];
+  const failed: { doc: StoredDocument; error: string }[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') loaded.push(result.value);
+    else failed.push({ doc: docs[i], error: result.reason?.message || 'Unknown error' });
+  });
+  return { loaded, failed };
+};
+
+/** False when signed out; throws DocumentStorageError when the delete fails. */
 export const deleteDocumentFromFirebase = async (id: string): Promise<boolean> => {
   if (!db || !auth || !auth.currentUser) return false;
   try {
-    await deleteDoc(doc(db, COLLECTION_NAME, id));
+    const docRef = doc(db, COLLECTION_NAME, id);
+    const owner = ownerFields(auth.currentUser.uid);
+    const stored = await getDoc(docRef);
+    // Subcollections outlive their parent in Firestore, so chunks and revisions are removed explicitly
+    const revisions = await getDocs(query(collection(docRef, REVISIONS_SUBCOLLECTION), ownerFilter(auth.currentUser.uid)));
+    for (const revision of revisions.docs) await deleteRevision(revision.ref, owner, revision.data().diffChunks || 0);
+    const chunkCount = stored.data()?.contentChunks || 0;
+    if (chunkCount > 0) await writeContentChunks(docRef, owner, '', chunkCount);
+    await deleteDoc(docRef);
+    contentCache.delete(id);
     internalPermissionError = false;
     return true;
+  } catch (error: any) {
+    console.error("Error deleting document:", error);
+    throw storageFailure("Deleting the document", error);
+  }
+};
+
+/**
+ * Deterministic thread id, so re-running an analysis for the same client and
+ * document set appends a version instead of starting a new history. `scope` is the
+ * workspace id, or the user's uid for the personal library.
+ */
+export const analysisThreadId = (scope: string, clientCompany: string, sourceDocuments: string[]): string => {
+  const docSet = [...sourceDocuments].sort().join('\n');
+  return `${scope}_${hashString(clientCompany.trim().toLowerCase())}_${hashString(docSet)}`;
+};
+
+// Resolves to null only when signed out; a rejected write throws DocumentStorageError
+export const saveAnalysisVersion = async (
+  result: AnalysisResult,
+  context: MeetingContext,
+  sourceDocuments: string[],
+  sourceDocumentIds: string[],
+  sourceRevisions: SourceRevision[] = []
+): Promise<{ threadId: string; versionId: string } | null> => {
+  if (!db || !auth || !auth.currentUser) return null;
+
+  try {
+    const owner = ownerFields(auth.currentUser.uid);
+    const threadId = analysisThreadId(activeWorkspace?.id || auth.currentUser.uid, context.clientCompany, sourceDocuments);
+    const threadRef = doc(db, ANALYSES_COLLECTION, threadId);
+    const versionRef = doc(collection(threadRef, VERSIONS_SUBCOLLECTION));
+    const now = Timestamp.now();
+
+    // Thread and version are written together so a thread never exists without its first version.
+    // Owner fields go on the thread only when it's created, so createdBy keeps its original author.
+    await runTransaction(db, async transaction => {
+      const existing = await transaction.get(threadRef);
+      transaction.set(threadRef, {
+        ...(existing.exists() ? {} : owner),
+        clientCompany: context.clientCompany,
+        sourceDocuments: [...sourceDocuments].sort(),
+        sourceDocumentIds,
+        versionCount: increment(1),
+        updatedAt: now
+      }, { merge: true });
+      // Stored as JSON so older results can be migrated by the validator on load.
+      transaction.set(versionRef, {
+        ...owner,
+        resultJson: JSON.stringify(result),
+        contextJson: JSON.stringify(context),
+        sourceRevisions,
+        createdAt: now
+      });
+    });
+
+    internalPermissionError = false;
+    return { threadId, versionId: versionRef.id };
+  } catch (error: any) {
+    console.error("Save analysis failed:", error);
+    throw storageFailure("Saving the brief", error);
+  }
+};
+
+export const fetchAnalysisThreads = async (): Promise<AnalysisThread[]> => {
+  if (!db || !auth || !auth.currentUser) return [];
+
+  try {
+    const q = query(
+      collection(db, ANALYSES_COLLECTION),
+      ownerFilter(auth.currentUser.uid)
+    );
+    const querySnapshot = await getDocs(q);
+    internalPermissionError = false;
+
+    const threads = querySnapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        clientCompany: data.clientCompany || '',
+        sourceDocuments: data.sourceDocuments || [],
+        sourceDocumentIds: data.sourceDocumentIds || [],
+        versionCount: data.versionCount || 0,
+        updatedAt: data.updatedAt?.toMillis() || Date.now()
+      };
+    });
+
+    return threads.sort((a, b) => b.updatedAt - a.updatedAt);
   } catch (error: any) {
     if (error.code === 'permission-denied') {
       internalPermissionError = true;
     }
-    return false;
+    console.error("Fetch analyses failed:", error);
+    return [];
+  }
+};
+
+/**
+ * Restores an exported thread under the current user. Versions keep their original
+ * dates; importing into an existing thread appends them.
+ */
+export const importAnalysisThread = async (
+  thread: Pick<AnalysisThread, 'clientCompany' | 'sourceDocuments' | 'sourceDocumentIds'>,
+  versions: Pick<AnalysisVersion, 'result' | 'context' | 'createdAt'>[]
+): Promise<string | null> => {
+  if (!db || !auth || !auth.currentUser || versions.length === 0) return null;
+
+  try {
+    const owner = ownerFields(auth.currentUser.uid);
+    const threadId = analysisThreadId(activeWorkspace?.id || auth.currentUser.uid, thread.clientCompany, thread.sourceDocuments);
+    const threadRef = doc(db, ANALYSES_COLLECTION, threadId);
+    const latest = Math.max(...versions.map(v => v.createdAt));
+
+    const batch = writeBatch(db);
+    batch.set(threadRef, {
+      ...owner,
+      clientCompany: thread.clientCompany,
+      sourceDocuments: [...thread.sourceDocuments].sort(),
+      sourceDocumentIds: thread.sourceDocumentIds,
+      versionCount: increment(versions.length),
+      updatedAt: Timestamp.fromMillis(latest)
+    }, { merge: true });
+    versions.forEach(version => {
+      batch.set(doc(collection(threadRef, VERSIONS_SUBCOLLECTION)), {
+        ...owner,
+        resultJson: JSON.stringify(version.result),
+        contextJson: JSON.stringify(version.context),
+        createdAt: Timestamp.fromMillis(version.createdAt)
+      });
+    });
+    await batch.commit();
+
+    internalPermissionError = false;
+    return threadId;
+  } catch (error: any) {
+    if (error.code === 'permission-denied') {
+      internalPermissionError = true;
+    }
+    console.error("Import analysis failed:", error);
+    return null;
+  }
+};
+
+export const saveAssessmentSession = async (session: Omit<AssessmentSession, 'id'>): Promise<string | null> => {
+  if (!db || !auth || !auth.currentUser) return null;
+
+  try {
+    const sessionRef = doc(collection(db, ASSESSMENTS_COLLECTION));
+    await setDoc(sessionRef, {
+      ...ownerFields(auth.currentUser.uid),
+      sourceDocuments: session.sourceDocuments,
+      sourceDocumentIds: session.sourceDocumentIds,
+      // Stored as JSON, like analysis versions, so question shapes can evolve
+      questionsJson: JSON.stringify(session.questions),
+      resultsJson: JSON.stringify(session.results),
+      createdAt: Timestamp.fromMillis(session.createdAt)
+    });
+    internalPermissionError = false;
+    return sessionRef.id;
+  } catch (error: any) {
+    if (error.code === 'permission-denied') {
+      internalPermissionError = true;
+    }
+    console.error("Save assessment failed:", error);
+    return null;
+  }
+};
+
+export const fetchAssessmentSessions = async (): Promise<AssessmentSession[]> => {
+  if (!db || !auth || !auth.currentUser) return [];
+
+  try {
+    const q = query(
+      collection(db, ASSESSMENTS_COLLECTION),
+      ownerFilter(auth.currentUser.uid)
+    );
+    const querySnapshot = await getDocs(q);
+    internalPermissionError = false;
+
+    const sessions = querySnapshot.docs.flatMap(doc => {
+      const data = doc.data();
+      try {
+        return [{
+          id: doc.id,
+          sourceDocuments: data.sourceDocuments || [],
+          sourceDocumentIds: data.sourceDocumentIds || [],
+          questions: JSON.parse(data.questionsJson),
+          results: JSON.parse(data.resultsJson),
+          createdAt: data.createdAt?.toMillis() || Date.now()
+        }];
+      } catch (e) {
+        console.warn(`Skipping unreadable assessment ${doc.id}`, e);
+        return [];
+      }
+    });
+
+    return sessions.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error: any) {
+    if (error.code === 'permission-denied') {
+      internalPermissionError = true;
+    }
+    console.error("Fetch assessments failed:", error);
+    return [];
+  }
+};
+
+export const fetchAnalysisVersions = async (threadId: string): Promise<AnalysisVersion[]> => {
+  if (!db || !auth || !auth.currentUser) return [];
+
+  try {
+    const q = query(
+      collection(db, ANALYSES_COLLECTION, threadId, VERSIONS_SUBCOLLECTION),
+      ownerFilter(auth.currentUser.uid)
+    );
+    const querySnapshot = await getDocs(q);
+    internalPermissionError = false;
+
+    const versions = querySnapshot.docs.flatMap(doc => {
+      const data = doc.data();
+      try {
+        return [{
+          id: doc.id,
+          threadId,
+          result: validate(analysisResultValidator, JSON.parse(data.resultJson)).value,
+          context: JSON.parse(data.contextJson) as MeetingContext,
+          createdAt: data.createdAt?.toMillis() || Date.now(),
+          sourceRevisions: Array.isArray(data.sourceRevisions) ? data.sourceRevisions : undefined
+        }];
+      } catch (e) {
+        console.warn(`Skipping unreadable analysis version ${doc.id}`, e);
+        return [];
+      }
+    });
+
+    return versions.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error: any) {
+    if (error.code === 'permission-denied') {
+      internalPermissionError = true;
+    }
+    console.error("Fetch analysis versions failed:", error);
+    return [];
   }
 };
 
@@ -1,8 +1,18 @@
 
-import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
-import { AnalysisResult, MeetingContext, ThinkingLevel, GPTMessage, AssessmentQuestion, AssessmentResult, QuestionType } from "../types";
-
-// Upgraded thinking budget map for gemini-3-pro-preview capabilities
+import { Type } from "@google/genai";
+import { AnalysisResult, MeetingContext, ThinkingLevel, GPTMessage, AssessmentQuestion, AssessmentResult, CognitiveSearchResult, Validated, RetrievedPassage } from "../types";
+import { ChatTurn, StructuredRequest } from "./llmProvider";
+import { getProvider } from "./providers";
+import { CallOptions, ModelCallError, callModel } from "./modelCall";
+import { formatPassages } from "./retrievalIndex";
+import { Validator, validate } from "../utils/validation";
+import { outlineTables } from "../utils/tableText";
+import {
+  createAnalysisResultValidator, assessmentQuestionsValidator, assessmentEvaluationsValidator,
+  cognitiveSearchValidator, suggestionsValidator
+} from "../utils/responseValidators";
+
+// Thinking budget map for the reasoning tier (ignored by providers without a thinking budget)
 const THINKING_LEVEL_MAP: Record<ThinkingLevel, number> = {
   'Minimal': 0,
   'Low': 8000,
@@ -67,14 +77,99 @@ function safeJsonParse(str: string) {
   throw new Error("Failed to parse cognitive intelligence response as valid JSON.");
 }
 
+/**
+ * Parses a model response and checks it against the expected shape, returning the
+ * repaired value together with every problem that had to be fixed along the way.
+ */
+export function parseValidated<T>(text: string, validator: Validator<T>): Validated<T> {
+  return validate(validator, safeJsonParse(text));
+}
+
+/**
+ * Structured call with retries and validation. When the reply cannot be parsed at all,
+ * the model is asked once to repair its own output before the step is reported as failed.
+ */
+export async function generateValidatedJson<T>(
+  step: string,
+  req: StructuredRequest,
+  validator: Validator<T>,
+  options: CallOptions = {}
+): Promise<Validated<T>> {
+  const provider = getProvider();
+  const empty = req.schema?.type === Type.ARRAY ? "[]" : "{}";
+  const text = await callModel(step, signal => provider.generateJson({ ...req, signal }), options);
+  try {
+    return parseValidated(text || empty, validator);
+  } catch (parseError) {
+    console.warn(`${step} returned unparseable JSON, requesting a repair.`, parseError);
+  }
+
+  const repaired = await callModel(`${step} (JSON repair)`, signal => provider.generateJson({
+    tier: 'fast',
+    task: `${req.task || 'untagged'}.repair`,
+    prompt: `The text below was meant to be valid JSON but could not be parsed. Return ONLY the corrected JSON, keeping every field and value that is present.
+
+    ${text}`,
+    schema: req.schema,
+    thinkingBudget: 0,
+    signal
+  }), options);
+  try {
+    return parseValidated(repaired || empty, validator);
+  } catch (repairError) {
+    throw new ModelCallError('malformed-json', step, undefined, 2, repairError);
+  }
+}
+
+const citationSchema = {
+  type: Type.OBJECT,
+  properties: { snippet: { type: Type.STRING }, sourceFile: { type: Type.STRING } },
+  required: ["snippet", "sourceFile"],
+};
+
+const assessmentQuestionSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      type: { type: Type.STRING, enum: ["mcq", "short", "long", "mic"] },
+      text: { type: Type.STRING },
+      options: { type: Type.ARRAY, items: { type: Type.STRING } },
+      correctAnswer: { type: Type.STRING },
+      explanation: { type: Type.STRING },
+      citation: citationSchema
+    },
+    required: ["id", "type", "text", "correctAnswer", "explanation"]
+  }
+};
+
+const assessmentEvaluationSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      questionId: { type: Type.STRING },
+      evaluation: {
+        type: Type.OBJECT,
+        properties: {
+          score: { type: Type.NUMBER },
+          feedback: { type: Type.STRING },
+          isCorrect: { type: Type.BOOLEAN }
+        },
+        required: ["score", "feedback", "isCorrect"]
+      }
+    },
+    required: ["questionId", "evaluation"]
+  }
+};
+
 // Generate Assessment Questions
 export async function generateAssessmentQuestions(
   docContent: string, 
-  config: { mcq: number; short: number; long: number; mic: number }
-): Promise<AssessmentQuestion[]> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const modelName = 'gemini-3-pro-preview';
-  
+  config: { mcq: number; short: number; long: number; mic: number },
+  options: CallOptions = {}
+): Promise<Validated<AssessmentQuestion[]>> {
   const prompt = `Act as an Elite Sales Readiness Coach. 
   Based on the grounded document content below, generate a set of challenging questions to test a salesperson's mastery of the client's needs and organization.
   
@@ -103,32 +198,21 @@ export async function generateAssessmentQuestions(
   CONTENT SOURCE:
   ${docContent}`;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        thinkingConfig: { thinkingBudget: 16000 }
-      }
-    });
-    return safeJsonParse(response.text || "[]");
-  } catch (error) {
-    console.error("Failed to generate questions:", error);
-    return [];
-  }
+  return generateValidatedJson("Question generation", {
+    tier: 'reasoning',
+    task: 'assessment.questions',
+    prompt,
+    schema: assessmentQuestionSchema,
+    thinkingBudget: 16000
+  }, assessmentQuestionsValidator, options);
 }
 
 // Evaluate Assessment Answers
 export async function evaluateAssessment(
   questions: AssessmentQuestion[], 
-  answers: Record<string, string>
-): Promise<AssessmentResult[]> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const modelName = 'gemini-3-flash-preview';
-
-  const results: AssessmentResult[] = [];
-
+  answers: Record<string, string>,
+  options: CallOptions = {}
+): Promise<Validated<AssessmentResult[]>> {
   // Group text-based evaluations to save tokens/latency
   const textPayload = questions.map(q => ({
     id: q.id,
@@ -155,83 +239,60 @@ export async function evaluateAssessment(
   SETS:
   ${JSON.stringify(textPayload)}`;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-      config: { responseMimeType: "application/json" }
-    });
-    const evals = safeJsonParse(response.text || "[]");
-    
-    return questions.map(q => {
-      const evaluation = evals.find((e: any) => e.questionId === q.id)?.evaluation || {
-        score: 0,
-        feedback: "Evaluation module error.",
-        isCorrect: false
-      };
-      // FIX: Added 'timeSpent' property to satisfy AssessmentResult interface requirements.
-      // Although 'timeSpent' is later updated in the component, it must be present to match the interface.
-      return {
-        questionId: q.id,
-        userAnswer: answers[q.id] || "",
-        evaluation,
-        timeSpent: 0
-      };
-    });
-  } catch (error) {
-    console.error("Evaluation failed:", error);
-    return [];
-  }
+  const { value: evals, issues } = await generateValidatedJson("Answer grading", {
+    tier: 'fast',
+    task: 'assessment.evaluate',
+    prompt,
+    schema: assessmentEvaluationSchema
+  }, assessmentEvaluationsValidator, options);
+
+  const results = questions.map(q => {
+    let evaluation = evals.find(e => e.questionId === q.id)?.evaluation;
+    if (!evaluation) {
+      issues.push({ path: `evaluations.${q.id}`, problem: "no grade returned for this question", severity: 'defaulted' });
+      evaluation = { score: 0, feedback: "Evaluation module error.", isCorrect: false };
+    }
+    // FIX: Added 'timeSpent' property to satisfy AssessmentResult interface requirements.
+    // Although 'timeSpent' is later updated in the component, it must be present to match the interface.
+    return {
+      questionId: q.id,
+      userAnswer: answers[q.id] || "",
+      evaluation,
+      timeSpent: 0
+    };
+  });
+  return { value: results, issues };
 }
 
-// Vision OCR using gemini-3-flash-preview
-export async function performVisionOcr(base64Data: string, mimeType: string): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const modelName = 'gemini-3-flash-preview'; 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: {
-        parts: [
-          { inlineData: { data: base64Data, mimeType: mimeType } },
-          { 
-            text: `Act as a high-precision Cognitive OCR engine. 
-            TRANSCRIPTION TASK: Extract ALL text from this image exactly as written. Maintain layout. Output ONLY text.` 
-          },
-        ],
-      },
-    });
-    return response.text || "";
-  } catch (error) {
-    console.error("Vision OCR failed:", error);
-    return "";
-  }
+// Vision OCR using the provider's vision tier
+export async function performVisionOcr(base64Data: string, mimeType: string, step = "Vision OCR", options: CallOptions = {}): Promise<string> {
+  return callModel(step, signal => getProvider().generateText({
+    tier: 'vision',
+    task: 'ocr',
+    media: [{ data: base64Data, mimeType }],
+    prompt: `Act as a high-precision Cognitive OCR engine. 
+          TRANSCRIPTION TASK: Extract ALL text from this image exactly as written. Maintain layout. Output ONLY text.`,
+    signal
+  }), options);
 }
 
-function formatHistory(history: GPTMessage[]) {
+function formatHistory(history: GPTMessage[]): ChatTurn[] {
   return history.map(msg => ({
     role: msg.role === 'user' ? 'user' : 'model',
-    parts: [{ text: msg.content }]
+    text: msg.content
   }));
 }
 
 // Sales GPT: Balanced grounded and general intelligence
-export async function* streamSalesGPT(prompt: string, history: GPTMessage[], context?: string): AsyncGenerator<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const modelName = 'gemini-3-flash-preview';
-  
-  const contents = [
-    ...formatHistory(history),
-    { role: 'user', parts: [{ text: prompt }] }
-  ];
-
+export async function* streamSalesGPT(prompt: string, history: GPTMessage[], passages: RetrievedPassage[], meetingBrief?: string): AsyncGenerator<string> {
+  const context = [meetingBrief, formatPassages(passages)].filter(Boolean).join('\n');
   const systemInstruction = `You are Sales GPT, an elite sales intelligence agent. 
   
   CORE MISSION: Provide high-impact sales intelligence.
   
   GROUNDING RULES:
   1. If GROUNDING DATA is provided below, prioritize it. 
-  2. If the user's question relates to specific data in the documents, use that data and cite the source.
+  2. If the user's question relates to specific data in the documents, use that data and cite the source by its [chunk id].
   3. If the question is general or the data isn't in the docs, do NOT refuse to answer. Instead, use your world-class general knowledge to provide a strategic, authoritative response.
   
   STYLE: Direct, authoritative, and strategic. No fluff.
@@ -241,66 +302,37 @@ export async function* streamSalesGPT(prompt: string, history: GPTMessage[], con
   -----------------------` : ""}`;
 
   try {
-    const result = await ai.models.generateContentStream({
-      model: modelName,
-      contents: contents,
-      config: {
-        systemInstruction: systemInstruction,
-        thinkingConfig: { thinkingBudget: 0 }
-      }
+    yield* getProvider().streamText({
+      tier: 'fast',
+      task: 'chat',
+      prompt,
+      history: formatHistory(history),
+      systemInstruction,
+      thinkingBudget: 0
     });
-
-    for await (const chunk of result) {
-      yield chunk.text || "";
-    }
   } catch (error) {
     console.error("GPT stream failed:", error);
     yield "Error: Failed to connect to Sales GPT core.";
   }
 }
 
-// Pineapple: Image Generation using nano banana model
+// Pineapple: Image Generation using the provider's image tier
 export async function generatePineappleImage(prompt: string): Promise<string | null> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const modelName = 'gemini-2.5-flash-image';
   try {
     const strategicPrompt = `Create a high-fidelity, enterprise-grade strategic visual asset for: "${prompt}". 
     The style should be a modern 3D render, minimalist, with soft cinematic lighting and a professional color palette. 
     Avoid cluttered details. Ensure it looks like a slide from a top-tier executive presentation.`;
 
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: {
-        parts: [{ text: strategicPrompt }],
-      },
-      config: {
-        imageConfig: { aspectRatio: "16:9" }
-      }
-    });
-
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    return null;
+    return await getProvider().generateImage({ prompt: strategicPrompt, aspectRatio: "16:9" });
   } catch (error) {
     console.error("Image generation failed:", error);
     return null;
   }
 }
 
-// Deep Study: Advanced Reasoning Core upgraded to Pro model
-export async function* streamDeepStudy(prompt: string, history: GPTMessage[], context?: string): AsyncGenerator<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  // Using gemini-3-pro-preview for complex reasoning tasks
-  const modelName = 'gemini-3-pro-preview';
-  
-  const contents = [
-    ...formatHistory(history),
-    { role: 'user', parts: [{ text: prompt }] }
-  ];
-
+// Deep Study: Advanced Reasoning Core on the reasoning tier
+export async function* streamDeepStudy(prompt: string, history: GPTMessage[], passages: RetrievedPassage[], meetingBrief?: string): AsyncGenerator<string> {
+  const context = [meetingBrief, formatPassages(passages)].filter(Boolean).join('\n');
   const systemInstruction = `You are a world-class Strategic Research Lead performing a "Deep Study".
   
   MISSION: Conduct an exhaustive, multi-layered analysis that goes far beyond obvious observations.
@@ -320,51 +352,27 @@ export async function* streamDeepStudy(prompt: string, history: GPTMessage[], co
   Use the maximum thinking budget to find hidden connections.`;
 
   try {
-    const result = await ai.models.generateContentStream({
-      model: modelName,
-      contents: contents,
-      config: {
-        systemInstruction: systemInstruction,
-        thinkingConfig: { thinkingBudget: 32768 }
-      }
+    // Reasoning tier for complex multi-layer analysis
+    yield* getProvider().streamText({
+      tier: 'reasoning',
+      task: 'deep-study',
+      prompt,
+      history: formatHistory(history),
+      systemInstruction,
+      thinkingBudget: 32768
     });
-
-    for await (const chunk of result) {
-      yield chunk.text || "";
-    }
   } catch (error) {
     console.error("Deep Study failed:", error);
     yield "Error: Deep Study reasoning module is unresponsive.";
   }
 }
 
-export interface CognitiveSearchResult {
-  answer: string;
-  cognitiveShot: string; // High-impact concise summary
-  briefExplanation: string;
-  articularSoundbite: string; 
-  psychologicalProjection: {
-    buyerFear: string;
-    buyerIncentive: string;
-    strategicLever: string;
-  };
-  citations: { snippet: string; source: string }[];
-  reasoningChain: {
-    painPoint: string;
-    capability: string;
-    strategicValue: string;
-  };
-}
-
-// Cognitive Search upgraded to Pro model for deep grounded reasoning
+// Cognitive Search on the reasoning tier for deep grounded reasoning
 export async function* performCognitiveSearchStream(
   question: string, 
-  filesContent: string, 
+  passages: RetrievedPassage[], 
   context: MeetingContext
 ): AsyncGenerator<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  // Using gemini-3-pro-preview for advanced reasoning and complex query synthesis
-  const modelName = 'gemini-3-pro-preview';
   const styleDirectives = context.answerStyles.map(style => `- Create a section exactly titled "### ${style}" and provide EXHAUSTIVE detail.`).join('\n');
 
   const responseSchema = {
@@ -411,24 +419,21 @@ export async function* performCognitiveSearchStream(
   REQUIRED STRUCTURE:
   ${styleDirectives}
 
-  SOURCE DOCUMENTS:
-  ${filesContent}`;
+  Cite each citation's "source" as the FILE name of the passage it comes from.
+
+  SOURCE PASSAGES (most relevant excerpts, each tagged with its chunk id):
+  ${formatPassages(passages)}`;
 
   try {
-    const result = await ai.models.generateContentStream({
-      model: modelName,
-      contents: prompt,
-      config: {
-        systemInstruction: `You are a Senior Cognitive Sales Strategist. Provide technical rigor and grounded depth in JSON.`,
-        responseMimeType: "application/json",
-        responseSchema,
-        thinkingConfig: { thinkingBudget: 32768 }
-      }
+    // Reasoning tier for advanced reasoning and complex query synthesis
+    yield* getProvider().streamJson({
+      tier: 'reasoning',
+      task: 'search',
+      prompt,
+      systemInstruction: `You are a Senior Cognitive Sales Strategist. Provide technical rigor and grounded depth in JSON.`,
+      schema: responseSchema,
+      thinkingBudget: 32768
     });
-
-    for await (const chunk of result) {
-      yield chunk.text || "";
-    }
   } catch (error) {
     console.error("Streaming search failed:", error);
     throw new Error("Cognitive Engine failed to synthesize deep reasoning.");
@@ -437,34 +442,30 @@ export async function* performCognitiveSearchStream(
 
 export async function performCognitiveSearch(
   question: string, 
-  filesContent: string, 
+  passages: RetrievedPassage[], 
   context: MeetingContext
-): Promise<CognitiveSearchResult> {
-  const stream = performCognitiveSearchStream(question, filesContent, context);
+): Promise<Validated<CognitiveSearchResult>> {
+  const stream = performCognitiveSearchStream(question, passages, context);
   let fullText = "";
   for await (const chunk of stream) {
     fullText += chunk;
   }
-  return safeJsonParse(fullText || "{}");
+  return parseValidated(fullText || "{}", cognitiveSearchValidator);
 }
 
 export async function generateDynamicSuggestions(filesContent: string, context: MeetingContext): Promise<string[]> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const modelName = 'gemini-3-flash-preview';
   const prompt = `Suggest 3 highly strategic sales questions for ${context.clientCompany || 'the prospect'}. Return as a JSON array of strings.`;
-  const response = await ai.models.generateContent({ 
-    model: modelName, 
-    contents: prompt, 
-    config: { 
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      },
-      thinkingConfig: { thinkingBudget: 0 }
-    } 
-  });
-  return safeJsonParse(response.text || "[]");
+  const { value } = await generateValidatedJson("Suggestions", {
+    tier: 'fast',
+    task: 'suggestions',
+    prompt,
+    schema: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    },
+    thinkingBudget: 0
+  }, suggestionsValidator, { retries: 1 });
+  return value;
 }
 
 export function decode(base64: string) {
@@ -486,45 +487,27 @@ export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampl
 }
 
 export async function generateExplanation(question: string, context: AnalysisResult): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Explain the deep sales strategy behind: "${question}" based on the buyer snapshot: ${JSON.stringify(context.snapshot)}.`,
-    config: { thinkingConfig: { thinkingBudget: 0 } }
+  return getProvider().generateText({
+    tier: 'fast',
+    task: 'explanation',
+    prompt: `Explain the deep sales strategy behind: "${question}" based on the buyer snapshot: ${JSON.stringify(context.snapshot)}.`,
+    thinkingBudget: 0
   });
-  return response.text || "";
 }
 
-// Text to speech generation using specialized TTS model
+// Text to speech generation using the provider's TTS tier
 export async function generatePitchAudio(text: string, voiceName: string = 'Kore'): Promise<Uint8Array | null> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } } },
-    },
-  });
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  const base64Audio = await getProvider().generateSpeech({ text, voiceName });
   return base64Audio ? decode(base64Audio) : null;
 }
 
-// Full Context Analysis upgraded to Pro model for comprehensive reasoning
-export async function analyzeSalesContext(filesContent: string, context: MeetingContext): Promise<AnalysisResult> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  // Using gemini-3-pro-preview for exhaustive material synthesis and competitive intelligence
-  const modelName = 'gemini-3-pro-preview';
-  const citationSchema = {
-    type: Type.OBJECT,
-    properties: { snippet: { type: Type.STRING }, sourceFile: { type: Type.STRING } },
-    required: ["snippet", "sourceFile"],
-  };
-
+// Full Context Analysis on the reasoning tier for comprehensive reasoning
+export async function analyzeSalesContext(filesContent: string, context: MeetingContext, options: CallOptions = {}): Promise<Validated<AnalysisResult>> {
   const competitorSchema = {
     type: Type.OBJECT,
     properties: {
       name: { type: Type.STRING },
+      source: { type: Type.STRING, enum: ['roster', 'discovered'] },
       overview: { type: Type.STRING },
       threatProfile: { type: Type.STRING },
       strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
@@ -534,7 +517,7 @@ export async function analyzeSalesContext(filesContent: string, context: Meeting
       ourWedge: { type: Type.STRING },
       citation: citationSchema
     },
-    required: ["name", "overview", "threatProfile", "strengths", "weaknesses", "opportunities", "threats", "ourWedge", "citation"]
+    required: ["name", "source", "overview", "threatProfile", "strengths", "weaknesses", "opportunities", "threats", "ourWedge", "citation"]
   };
 
   const responseSchema = {
@@ -545,8 +528,8 @@ export async function analyzeSalesContext(filesContent: string, context: Meeting
         properties: {
           role: { type: Type.STRING },
           roleCitation: citationSchema,
-          priorities: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, citation: citationSchema }, required: ["text", "citation"] } },
-          likelyObjections: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, citation: citationSchema }, required: ["text", "citation"] } },
+          priorities: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, speaker: { type: Type.STRING }, timestamp: { type: Type.STRING }, citation: citationSchema }, required: ["text", "citation"] } },
+          likelyObjections: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, speaker: { type: Type.STRING }, timestamp: { type: Type.STRING }, citation: citationSchema }, required: ["text", "citation"] } },
           decisionStyle: { type: Type.STRING },
           decisionStyleCitation: citationSchema,
           riskTolerance: { type: Type.STRING },
@@ -591,15 +574,7 @@ export async function analyzeSalesContext(filesContent: string, context: Meeting
           required: ["category", "observation", "significance", "evidence"]
         }
       },
-      competitiveHub: {
-        type: Type.OBJECT,
-        properties: {
-          cognigy: competitorSchema,
-          amelia: competitorSchema,
-          others: { type: Type.ARRAY, items: competitorSchema }
-        },
-        required: ["cognigy", "amelia", "others"]
-      },
+      competitiveHub: { type: Type.ARRAY, items: competitorSchema },
       openingLines: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, label: { type: Type.STRING }, citation: citationSchema }, required: ["text", "label", "citation"] } },
       predictedQuestions: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { customerAsks: { type: Type.STRING }, salespersonShouldRespond: { type: Type.STRING }, reasoning: { type: Type.STRING }, category: { type: Type.STRING }, citation: citationSchema }, required: ["customerAsks", "salespersonShouldRespond", "reasoning", "category", "citation"] } },
       strategicQuestionsToAsk: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { question: { type: Type.STRING }, whyItMatters: { type: Type.STRING }, citation: citationSchema }, required: ["question", "whyItMatters", "citation"] } },
@@ -634,22 +609,47 @@ export async function analyzeSalesContext(filesContent: string, context: Meeting
     required: ["snapshot", "documentInsights", "groundMatrix", "competitiveHub", "openingLines", "predictedQuestions", "strategicQuestionsToAsk", "objectionHandling", "toneGuidance", "finalCoaching", "reportSections"]
   };
 
+  const rosterProfiles = context.competitors.filter(c => c.name.trim());
+  const roster = rosterProfiles.length > 0
+    ? rosterProfiles.map(c => `- ${c.name}${c.positioning ? `: ${c.positioning}` : ''}${c.battlecardNotes ? `\n    Our battlecard notes: ${c.battlecardNotes}` : ''}`).join('\n')
+    : "- (none configured)";
+
+  // Spreadsheet tables carry explicit markers, so the structure summary describes real tables
+  const tables = outlineTables(filesContent);
+  const tableList = tables.length > 0
+    ? tables.map(t => `- ${t.document ? `${t.document} › ` : ''}${t.name}: ${t.rowCount} rows; columns ${t.headers.join(', ')}`).join('\n')
+    : "- (none)";
+
   const prompt = `Synthesize high-fidelity cognitive sales intelligence based on the following documents:
+
+  COMPETITOR ROSTER:
+  ${roster}
+
+  For competitiveHub, return one entry per roster competitor, in roster order, using the exact roster name and source "roster". Use the positioning and battlecard notes as background, but ground strengths, weaknesses and citations in the documents. Then add any other competitors the documents mention with source "discovered".
+
+  EXTRACTED TABLES:
+  ${tableList}
+
+  Page and slide boundaries are marked "--- PAGE n ---" and "--- SLIDE n ---"; quote the text after a marker, never the marker itself.
+
+  Email threads appear as "--- MESSAGE n ---" blocks with FROM, TO, CC, DATE and SUBJECT lines, oldest first, with quoted replies removed. Record the people on those lines as Person entities and the message dates as Date entities, and attribute statements to the sender of the message they appear in.
+
+  Call transcripts appear as "--- TURN n · HH:MM:SS · Speaker ---" blocks, one per speaker turn. When a priority or likely objection comes from a transcript, set its speaker to the name in that turn's marker and its timestamp to the marker's HH:MM:SS, and quote the turn's words as the citation.
+
+  Tables appear in the source as "--- SHEET name ---" blocks with a header row. For documentInsights.structure.detectedTablesSummary, describe each listed table: what it tracks, its key columns and the figures that matter for this deal. Read values by column header and cite rows verbatim. If no tables are listed, say so rather than inferring tables from prose.
+
   --- SOURCE --- 
   ${filesContent}`;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-      config: {
-        systemInstruction: `You are a Cognitive Sales Strategist. Provide grounded intelligence in JSON.`,
-        responseMimeType: "application/json",
-        responseSchema,
-        temperature: context.temperature,
-        thinkingConfig: { thinkingBudget: THINKING_LEVEL_MAP[context.thinkingLevel] }
-      },
-    });
-    return safeJsonParse(response.text || "{}") as AnalysisResult;
-  } catch (error: any) { throw new Error(`Analysis Failed: ${error.message}`); }
+  // Reasoning tier for exhaustive material synthesis and competitive intelligence.
+  // High thinking budgets can run for minutes, so the per-attempt timeout is generous.
+  return generateValidatedJson("Strategy synthesis", {
+    tier: 'reasoning',
+    task: 'analysis',
+    prompt,
+    systemInstruction: `You are a Cognitive Sales Strategist. Provide grounded intelligence in JSON.`,
+    schema: responseSchema,
+    temperature: context.temperature,
+    thinkingBudget: THINKING_LEVEL_MAP[context.thinkingLevel]
+  }, createAnalysisResultValidator(rosterProfiles), { timeoutMs: 300000, ...options });
 }
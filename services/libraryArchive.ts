@@ -0,0 +1,275 @@
+import { AssessmentQuestion, AssessmentResult, DocumentKind, DocumentMetadata, StoredDocument } from "../types";
+import { DOCUMENT_KINDS } from "../constants";
+import { Validator, arr, num, obj, optional, str, validate } from "../utils/validation";
+import { analysisResultValidator } from "../utils/responseValidators";
+import {
+  fetchAnalysisThreads,
+  fetchAnalysisVersions,
+  fetchAssessmentSessions,
+  importAnalysisThread,
+  saveAssessmentSession,
+  saveDocumentToFirebase
+} from "./firebaseService";
+import { contentFingerprint } from "../utils/duplicates";
+import { loadLibraryContents } from "./librarySync";
+
+/**
+ * Portable library archive: a zip holding manifest.json plus one file per document,
+ * analysis thread and assessment. Exports carry the selected documents and every saved
+ * analysis or assessment that used them; imports restore them under the current user,
+ * keeping original dates and renaming documents whose names are already taken.
+ */
+
+export const ARCHIVE_FORMAT = "cognitive-library-archive";
+const ARCHIVE_VERSION = 1;
+const MANIFEST_FILE = "manifest.json";
+
+interface ArchivedDocument {
+  file: string;
+  id: string;
+  name: string;
+  type: string;
+  timestamp: number;
+  updatedAt: number;
+  metadata?: DocumentMetadata;
+  tags?: string[];
+  account?: string;
+  kind?: DocumentKind;
+  folder?: string;
+}
+
+interface ArchivedThread {
+  file: string;
+  clientCompany: string;
+  sourceDocuments: string[];
+  sourceDocumentIds: string[];
+}
+
+interface ArchivedAssessment {
+  file: string;
+  sourceDocuments: string[];
+  sourceDocumentIds: string[];
+  createdAt: number;
+}
+
+interface ArchiveManifest {
+  format: string;
+  version: number;
+  exportedAt: number;
+  documents: ArchivedDocument[];
+  analyses: ArchivedThread[];
+  assessments: ArchivedAssessment[];
+}
+
+export interface ArchiveSummary {
+  documents: number;
+  analyses: number;
+  assessments: number;
+  renamed: { from: string; to: string }[];
+  skipped: string[]; // already in the library with identical text
+  failed: string[];
+}
+
+const getJSZip = () => {
+  const JSZip = (window as any).JSZip;
+  if (!JSZip) throw new Error("Archive support (JSZip) failed to load.");
+  return JSZip;
+};
+
+// File names inside the zip are for people browsing it; the manifest is what import reads
+const entryName = (folder: string, index: number, label: string, extension: string) =>
+  `${folder}/${String(index + 1).padStart(4, '0')}-${label.replace(/[^\w.-]+/g, '_').substring(0, 60)}.${extension}`;
+
+const touches = (ids: string[], names: string[], docIds: Set<string>, docNames: Set<string>) =>
+  ids.some(id => docIds.has(id)) || names.some(name => docNames.has(name));
+
+/** Builds the archive for the given documents. Throws if any document's text can't be loaded. */
+export const exportLibraryArchive = async (docs: StoredDocument[]): Promise<{ blob: Blob; summary: ArchiveSummary }> => {
+  const JSZip = getJSZip();
+  const { loaded, failed } = await loadLibraryContents(docs);
+  if (failed.length > 0) throw new Error(`Export stopped: ${failed.map(f => f.error).join(' ')}`);
+
+  const docIds = new Set(loaded.map(d => d.id));
+  const docNames = new Set(loaded.map(d => d.name));
+  const threads = (await fetchAnalysisThreads()).filter(t => touches(t.sourceDocumentIds, t.sourceDocuments, docIds, docNames));
+  const assessments = (await fetchAssessmentSessions()).filter(a => touches(a.sourceDocumentIds, a.sourceDocuments, docIds, docNames));
+
+  const zip = new JSZip();
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    documents: loaded.map((doc, i) => {
+      const file = entryName('documents', i, doc.name, 'txt');
+      zip.file(file, doc.content);
+      return {
+        file, id: doc.id, name: doc.name, type: doc.type,
+        timestamp: doc.timestamp, updatedAt: doc.updatedAt || doc.timestamp,
+        metadata: doc.metadata, tags: doc.tags, account: doc.account, kind: doc.kind, folder: doc.folder
+      };
+    }),
+    analyses: [],
+    assessments: assessments.map((session, i) => {
+      const file = entryName('assessments', i, new Date(session.createdAt).toISOString().substring(0, 10), 'json');
+      zip.file(file, JSON.stringify({ questions: session.questions, results: session.results }, null, 2));
+      return { file, sourceDocuments: session.sourceDocuments, sourceDocumentIds: session.sourceDocumentIds, createdAt: session.createdAt };
+    })
+  };
+  for (const [i, thread] of threads.entries()) {
+    const versions = await fetchAnalysisVersions(thread.id);
+    const file = entryName('analyses', i, thread.clientCompany || 'analysis', 'json');
+    zip.file(file, JSON.stringify(versions.map(v => ({ createdAt: v.createdAt, context: v.context, result: v.result })), null, 2));
+    manifest.analyses.push({ file, clientCompany: thread.clientCompany, sourceDocuments: thread.sourceDocuments, sourceDocumentIds: thread.sourceDocumentIds });
+  }
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  const blob: Blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  return {
+    blob,
+    summary: { documents: loaded.length, analyses: threads.length, assessments: assessments.length, renamed: [], skipped: [], failed: [] }
+  };
+};
+
+const anyObject = <T>(): Validator<T | undefined> => (input) =>
+  typeof input === 'object' && input !== null && !Array.isArray(input) ? input as T : undefined;
+
+const kindValidator: Validator<DocumentKind | undefined> = (input) =>
+  DOCUMENT_KINDS.includes(input as DocumentKind) ? input as DocumentKind : undefined;
+
+const manifestValidator = obj<ArchiveManifest>({
+  format: str(),
+  version: num(),
+  exportedAt: num(),
+  documents: arr(obj<ArchivedDocument>({
+    file: str(),
+    id: str(),
+    name: str(),
+    type: str('text/plain'),
+    timestamp: num({ fallback: Date.now() }),
+    updatedAt: num({ fallback: Date.now() }),
+    metadata: anyObject<DocumentMetadata>(),
+    tags: optional(arr(str())),
+    account: optional(str()),
+    kind: kindValidator,
+    folder: optional(str())
+  }), d => !!d.file && !!d.name),
+  analyses: arr(obj<ArchivedThread>({
+    file: str(),
+    clientCompany: str(),
+    sourceDocuments: arr(str()),
+    sourceDocumentIds: arr(str())
+  }), t => !!t.file),
+  assessments: arr(obj<ArchivedAssessment>({
+    file: str(),
+    sourceDocuments: arr(str()),
+    sourceDocumentIds: arr(str()),
+    createdAt: num({ fallback: Date.now() })
+  }), a => !!a.file)
+});
+
+// "RFP.pdf" becomes "RFP (imported).pdf", then "RFP (imported 2).pdf", and so on
+export const uniqueName = (name: string, taken: Set<string>): string => {
+  if (!taken.has(name)) return name;
+  const dot = name.lastIndexOf('.');
+  const [base, ext] = dot > 0 ? [name.substring(0, dot), name.substring(dot)] : [name, ''];
+  for (let n = 1; ; n++) {
+    const candidate = `${base} (imported${n > 1 ? ` ${n}` : ''})${ext}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+};
+
+/** Restores an archive into the current user's library, analyses and assessments. */
+export const importLibraryArchive = async (file: File, library: StoredDocument[]): Promise<ArchiveSummary> => {
+  const JSZip = getJSZip();
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const manifestEntry = zip.file(MANIFEST_FILE);
+  if (!manifestEntry) throw new Error(`"${file.name}" is not a library archive: it has no ${MANIFEST_FILE}.`);
+
+  const raw = JSON.parse(await manifestEntry.async('string'));
+  if (raw?.format !== ARCHIVE_FORMAT) throw new Error(`"${file.name}" is not a library archive.`);
+  if (raw.version > ARCHIVE_VERSION) throw new Error(`"${file.name}" was made by a newer version of the app (archive v${raw.version}).`);
+  const { value: manifest } = validate(manifestValidator, raw);
+
+  const readEntry = async (path: string): Promise<string | null> => (await zip.file(path)?.async('string')) ?? null;
+  const summary: ArchiveSummary = { documents: 0, analyses: 0, assessments: 0, renamed: [], skipped: [], failed: [] };
+
+  // Archived ids and names are mapped to what they became here, for analyses and assessments
+  const idMap = new Map<string, string>();
+  const nameMap = new Map<string, string>();
+  const taken = new Set(library.map(d => d.name));
+
+  for (const entry of manifest.documents) {
+    const content = await readEntry(entry.file);
+    if (content === null) {
+      summary.failed.push(`${entry.name}: missing from the archive`);
+      continue;
+    }
+    const existing = library.find(d => d.name === entry.name && (d.contentHash || contentFingerprint(d.content)) === contentFingerprint(content));
+    if (existing) {
+      idMap.set(entry.id, existing.id);
+      nameMap.set(entry.name, existing.name);
+      summary.skipped.push(entry.name);
+      continue;
+    }
+
+    const name = uniqueName(entry.name, taken);
+    try {
+      const id = await saveDocumentToFirebase(
+        name, content, entry.type, entry.metadata,
+        { tags: entry.tags, account: entry.account, kind: entry.kind, folder: entry.folder },
+        { timestamp: entry.timestamp, updatedAt: entry.updatedAt }
+      );
+      if (!id) throw new Error("sign in to import");
+      taken.add(name);
+      idMap.set(entry.id, id);
+      nameMap.set(entry.name, name);
+      if (name !== entry.name) summary.renamed.push({ from: entry.name, to: name });
+      summary.documents++;
+    } catch (error: any) {
+      summary.failed.push(`${entry.name}: ${error?.message || 'could not be saved'}`);
+    }
+  }
+
+  const remapIds = (ids: string[]) => ids.flatMap(id => idMap.has(id) ? [idMap.get(id)!] : []);
+  const remapNames = (names: string[]) => names.map(name => nameMap.get(name) || name);
+
+  for (const thread of manifest.analyses) {
+    try {
+      const versions = JSON.parse((await readEntry(thread.file)) || '[]') as any[];
+      const restored = versions.map(v => ({
+        createdAt: typeof v.createdAt === 'number' ? v.createdAt : Date.now(),
+        context: v.context,
+        // Older exports are migrated the same way stored versions are on load
+        result: validate(analysisResultValidator, v.result).value
+      }));
+      const threadId = await importAnalysisThread({
+        clientCompany: thread.clientCompany,
+        sourceDocuments: remapNames(thread.sourceDocuments),
+        sourceDocumentIds: remapIds(thread.sourceDocumentIds)
+      }, restored);
+      if (threadId) summary.analyses++;
+      else summary.failed.push(`Analysis for ${thread.clientCompany || 'unnamed client'}: could not be saved`);
+    } catch (error) {
+      summary.failed.push(`Analysis for ${thread.clientCompany || 'unnamed client'}: unreadable`);
+    }
+  }
+
+  for (const assessment of manifest.assessments) {
+    try {
+      const body = JSON.parse((await readEntry(assessment.file)) || '{}') as { questions?: AssessmentQuestion[]; results?: AssessmentResult[] };
+      const id = await saveAssessmentSession({
+        sourceDocuments: remapNames(assessment.sourceDocuments),
+        sourceDocumentIds: remapIds(assessment.sourceDocumentIds),
+        questions: body.questions || [],
+        results: body.results || [],
+        createdAt: assessment.createdAt
+      });
+      if (id) summary.assessments++;
+      else summary.failed.push(`Assessment from ${new Date(assessment.createdAt).toLocaleDateString()}: could not be saved`);
+    } catch (error) {
+      summary.failed.push(`Assessment from ${new Date(assessment.createdAt).toLocaleDateString()}: unreadable`);
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,111 @@
+import { StoredDocument } from "../types";
+import { hashString } from "../utils/hash";
+import { createRetrievalIndex, tokenize } from "./retrievalIndex";
+
+/**
+ * Ranked full-text search over the stored library. Runs entirely in the browser against
+ * the documents already loaded, so it keeps working when Firestore is unreachable.
+ * Documents are ranked by their best BM25 passage, with a boost for name matches.
+ */
+
+const SNIPPET_RADIUS = 110;
+const MAX_SNIPPETS = 2;
+// A query term in the file name counts as much as a strong passage match
+const NAME_BOOST = 2;
+
+export interface SearchSnippet {
+  text: string;
+  start: number; // offset of the snippet within the document content
+  highlights: [number, number][]; // match ranges relative to the snippet text
+}
+
+export interface LibrarySearchHit {
+  doc: StoredDocument;
+  score: number;
+  nameMatch: boolean;
+  snippets: SearchSnippet[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Tokens are plural-folded, so each term matches any word it starts
+export const termPattern = (query: string): RegExp | null => {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+};
+
+export const findMatches = (text: string, pattern: RegExp): [number, number][] =>
+  Array.from(text.matchAll(pattern)).map(m => [m.index!, m.index! + m[0].length]);
+
+// Windows around the densest clusters of matches, never overlapping each other.
+const snippetsFor = (content: string, pattern: RegExp): SearchSnippet[] => {
+  const matches = findMatches(content, pattern);
+  const windows = matches
+    .map(([start]) => {
+      const from = Math.max(0, start - SNIPPET_RADIUS);
+      const to = Math.min(content.length, start + SNIPPET_RADIUS);
+      const inside = matches.filter(([s, e]) => s >= from && e <= to);
+      const distinct = new Set(inside.map(([s, e]) => content.substring(s, e).toLowerCase())).size;
+      return { from, to, weight: distinct * 10 + inside.length };
+    })
+    .sort((a, b) => b.weight - a.weight);
+
+  const picked: { from: number; to: number }[] = [];
+  for (const w of windows) {
+    if (picked.length >= MAX_SNIPPETS) break;
+    if (picked.some(p => w.from < p.to && w.to > p.from)) continue;
+    picked.push(w);
+  }
+
+  return picked
+    .sort((a, b) => a.from - b.from)
+    .map(({ from, to }) => {
+      // Widen to word boundaries so snippets don't start mid-word
+      const start = from === 0 ? 0 : content.indexOf(' ', from) + 1 || from;
+      const endSpace = content.lastIndexOf(' ', to);
+      const end = to === content.length || endSpace <= start ? to : endSpace;
+      const text = content.substring(start, end);
+      return {
+        text,
+        start,
+        highlights: matches.filter(([s, e]) => s >= start && e <= end).map(([s, e]) => [s - start, e - start] as [number, number])
+      };
+    });
+};
+
+export interface LibrarySearchIndex {
+  search: (query: string, limit?: number) => LibrarySearchHit[];
+}
+
+export const createLibrarySearchIndex = (documents: StoredDocument[]): LibrarySearchIndex => {
+  const index = createRetrievalIndex(documents.map(d => ({ id: d.id, name: d.name, content: d.content })));
+  // Chunk ids are prefixed with the same key, which maps passages back to their document
+  const byKey = new Map(documents.map(d => [hashString(d.id || d.name).substring(0, 8), d]));
+
+  const search = (query: string, limit = 50): LibrarySearchHit[] => {
+    const pattern = termPattern(query);
+    if (!pattern) return [];
+
+    const scores = new Map<StoredDocument, number>();
+    index.search(query, index.chunks.length).forEach(({ chunk, score }) => {
+      const doc = byKey.get(chunk.id.split('#')[0]);
+      if (doc) scores.set(doc, Math.max(scores.get(doc) || 0, score));
+    });
+    documents.forEach(doc => {
+      if (findMatches(doc.name, pattern).length > 0) scores.set(doc, (scores.get(doc) || 0) + NAME_BOOST);
+    });
+
+    return [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([doc, score]) => ({
+        doc,
+        score,
+        nameMatch: findMatches(doc.name, pattern).length > 0,
+        snippets: snippetsFor(doc.content, pattern)
+      }));
+  };
+
+  return { search };
+};
@@ -0,0 +1,417 @@
+import { DocumentMetadata, DocumentOrganization, StoredDocument } from "../types";
+import { contentFingerprint, storedSignature } from "../utils/duplicates";
+import { hashString } from "../utils/hash";
+import {
+  canWriteActiveWorkspace,
+  deleteDocumentFromFirebase,
+  fetchDocumentsFromFirebase,
+  getActiveWorkspace,
+  getAuthInstance,
+  isContentLoaded,
+  isFirebaseActive,
+  loadDocumentContent,
+  saveDocumentToFirebase,
+  updateDocumentInFirebase,
+  updateDocumentOrganization
+} from "./firebaseService";
+import {
+  PendingWrite,
+  deleteLocalDocuments,
+  deletePendingWrite,
+  getLocalDocument,
+  getLocalDocuments,
+  getPendingWrites,
+  putLocalDocuments,
+  putPendingWrite
+} from "./localLibrary";
+
+/**
+ * Offline-first access to the document library. Every read and write goes through the
+ * local IndexedDB mirror; writes that can't reach Firestore are queued and replayed by
+ * syncLibrary() when it comes back. A queued change whose cloud copy was modified or
+ * deleted in the meantime (judged by updatedAt) is held as a conflict for the user.
+ * Writes the cloud refuses outright (rules, size) are never queued: replaying them would
+ * fail the same way and hold up everything behind them.
+ */
+
+// Firestore holds writes open while offline instead of failing, so calls are cut off
+const NETWORK_TIMEOUT_MS = 20_000;
+// Documents created offline keep this id prefix until their first sync
+const LOCAL_ID_PREFIX = "local_";
+const OFFLINE_CODES = new Set(['unavailable', 'deadline-exceeded', 'unauthenticated']);
+
+export interface SyncStatus {
+  offline: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: number;
+}
+
+let status: SyncStatus = { offline: false, syncing: false, pending: 0, conflicts: 0 };
+const listeners = new Set<(status: SyncStatus) => void>();
+
+const setStatus = (patch: Partial<SyncStatus>) => {
+  status = { ...status, ...patch };
+  listeners.forEach(listener => listener(status));
+};
+
+export const subscribeToSync = (listener: (status: SyncStatus) => void) => {
+  listeners.add(listener);
+  listener(status);
+  return () => { listeners.delete(listener); };
+};
+
+class OfflineError extends Error {
+  constructor() {
+    super("The cloud library did not respond.");
+    this.name = 'OfflineError';
+  }
+}
+
+const withTimeout = <T>(promise: Promise<T>): Promise<T> =>
+  Promise.race([promise, new Promise<never>((_, reject) => setTimeout(() => reject(new OfflineError()), NETWORK_TIMEOUT_MS))]);
+
+const isOfflineFailure = (error: any) =>
+  !navigator.onLine || error instanceof OfflineError || OFFLINE_CODES.has(error?.code) || OFFLINE_CODES.has(error?.cause?.code);
+
+const refused = (error: unknown) => {
+  console.error("The cloud library refused the write:", error);
+  return false;
+};
+
+const cloudAvailable = () => isFirebaseActive() && navigator.onLine;
+
+// Each user's personal library and each workspace they open get their own local mirror
+const libraryKey = () => {
+  const uid = getAuthInstance()?.currentUser?.uid;
+  const workspace = getActiveWorkspace();
+  return uid && workspace ? `${uid}_${workspace.id}` : uid;
+};
+
+export const isLocalOnly = (doc: StoredDocument) => doc.id.startsWith(LOCAL_ID_PREFIX);
+
+const organizationOf = (doc: StoredDocument): DocumentOrganization =>
+  ({ tags: doc.tags, account: doc.account, kind: doc.kind, folder: doc.folder });
+
+// Sync annotations are derived from the pending store, never saved on the record
+const stripSyncFields = ({ syncState, conflictReason, ...doc }: StoredDocument): StoredDocument => doc;
+
+const refreshCounts = async (uid: string) => {
+  const pending = await getPendingWrites(uid);
+  setStatus({ pending: pending.filter(p => !p.conflict).length, conflicts: pending.filter(p => p.conflict).length });
+  return pending;
+};
+
+/**
+ * Folds a change into the document's pending write. The first queued change records
+ * the cloud updatedAt it started from; later ones keep it.
+ */
+const queueChange = async (uid: string, before: StoredDocument, after: StoredDocument | null, contentChanged: boolean) => {
+  const existing = (await getPendingWrites(uid)).find(p => p.docId === before.id);
+
+  if (!after && existing?.kind === 'create') {
+    // Created and deleted offline: the cloud never needs to hear about it
+    await deletePendingWrite(uid, before.id);
+    await deleteLocalDocuments(uid, [before.id]);
+  } else {
+    const write: PendingWrite = existing
+      ? { ...existing, kind: existing.kind === 'create' ? 'create' : after ? 'update' : 'delete', contentChanged: existing.contentChanged || contentChanged }
+      : { docId: before.id, kind: after ? 'update' : 'delete', baseUpdatedAt: before.updatedAt, contentChanged, queuedAt: Date.now() };
+    await putPendingWrite(uid, write);
+    // Deleted records stay until the delete syncs, in case it turns into a conflict
+    if (after) await putLocalDocuments(uid, [stripSyncFields(after)]);
+  }
+  await refreshCounts(uid);
+};
+
+const present = (docs: StoredDocument[], pending: PendingWrite[]): StoredDocument[] => {
+  const byId = new Map(pending.map(p => [p.docId, p]));
+  return docs
+    .filter(doc => byId.get(doc.id)?.kind !== 'delete' || byId.get(doc.id)?.conflict)
+    .map(doc => {
+      const write = byId.get(doc.id);
+      if (!write) return doc;
+      return write.conflict ? { ...doc, syncState: 'conflict' as const, conflictReason: write.conflict } : { ...doc, syncState: 'pending' as const };
+    })
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * The library as the user should see it: the cloud copy when reachable (mirrored into
+ * IndexedDB), otherwise the local mirror, with queued changes applied either way.
+ */
+export const fetchLibrary = async (): Promise<StoredDocument[]> => {
+  const uid = libraryKey();
+  if (!uid) return [];
+
+  let cloud: StoredDocument[] | null = null;
+  if (cloudAvailable()) {
+    try {
+      cloud = await withTimeout(fetchDocumentsFromFirebase());
+      setStatus({ offline: false });
+    } catch (error) {
+      setStatus({ offline: true });
+    }
+  } else {
+    setStatus({ offline: true });
+  }
+
+  try {
+    const pending = await refreshCounts(uid);
+    if (cloud) {
+      const pendingIds = new Set(pending.map(p => p.docId));
+      const local = new Map((await getLocalDocuments(uid)).map(d => [d.id, d]));
+      // Cloud copies replace the mirror except where a local change is waiting; text
+      // cached locally is kept while the cloud copy is unchanged
+      const mirrored = cloud
+        .filter(d => !pendingIds.has(d.id))
+        .map(d => {
+          const cached = local.get(d.id);
+          return !isContentLoaded(d) && cached?.content && cached.updatedAt === d.updatedAt ? { ...d, content: cached.content } : d;
+        });
+      const cloudIds = new Set(cloud.map(d => d.id));
+      await putLocalDocuments(uid, mirrored);
+      await deleteLocalDocuments(uid, [...local.keys()].filter(id => !cloudIds.has(id) && !pendingIds.has(id)));
+    }
+    return present(await getLocalDocuments(uid), pending);
+  } catch (error) {
+    // IndexedDB can be unavailable (private browsing); the cloud copy still works
+    console.warn("Local library unavailable:", error);
+    return cloud || [];
+  }
+};
+
+/** Saves to the cloud when possible, otherwise keeps the document locally until it syncs. */
+export const saveLibraryDocument = async (
+  name: string,
+  content: string,
+  type: string,
+  metadata?: DocumentMetadata,
+  organization: DocumentOrganization = {}
+): Promise<string | null> => {
+  const uid = libraryKey();
+  // Viewers' writes would be refused by the rules, so they are never queued either
+  if (!uid || !canWriteActiveWorkspace()) return null;
+
+  if (cloudAvailable()) {
+    try {
+      const id = await withTimeout(saveDocumentToFirebase(name, content, type, metadata, organization));
+      setStatus({ offline: false });
+      return id;
+    } catch (error) {
+      if (!isOfflineFailure(error)) throw error;
+    }
+  }
+
+  const now = Date.now();
+  const id = `${LOCAL_ID_PREFIX}${hashString(`${name}:${now}`)}`;
+  await putLocalDocuments(uid, [{
+    id, name, content, type, timestamp: now, updatedAt: now,
+    contentHash: contentFingerprint(content),
+    contentSignature: storedSignature(content),
+    contentLength: content.length,
+    ...(metadata ? { metadata } : {}),
+    ...organization
+  }]);
+  await putPendingWrite(uid, { docId: id, kind: 'create', contentChanged: true, queuedAt: now });
+  setStatus({ offline: true });
+  await refreshCounts(uid);
+  return id;
+};
+
+// Writes go straight to the cloud only when nothing is queued ahead of them for the same document
+const canWriteThrough = async (uid: string, doc: StoredDocument) =>
+  cloudAvailable() && !isLocalOnly(doc) && !(await getPendingWrites(uid)).some(p => p.docId === doc.id);
+
+// Edits saved offline become a revision when they sync; a queued revert is recorded as a plain edit
+export const updateLibraryDocument = async (doc: StoredDocument, content: string, metadata?: DocumentMetadata, revertedFrom?: number): Promise<boolean> => {
+  const uid = libraryKey();
+  if (!uid || !canWriteActiveWorkspace()) return false;
+  const updated: StoredDocument = { ...doc, content, metadata: metadata || doc.metadata, contentHash: contentFingerprint(content), contentSignature: storedSignature(content), contentLength: content.length };
+
+  if (await canWriteThrough(uid, doc)) {
+    try {
+      const updatedAt = await withTimeout(updateDocumentInFirebase(doc.id, content, metadata, revertedFrom));
+      if (updatedAt) {
+        const revision = (doc.revision || 0) + (content === doc.content ? 0 : 1);
+        await putLocalDocuments(uid, [stripSyncFields({ ...updated, revision, updatedAt })]).catch(() => {});
+        return true;
+      }
+    } catch (error) {
+      if (!isOfflineFailure(error)) return refused(error);
+    }
+  }
+  await queueChange(uid, doc, { ...updated, updatedAt: Date.now() }, true);
+  return true;
+};
+
+export const updateLibraryOrganization = async (doc: StoredDocument, organization: DocumentOrganization): Promise<boolean> => {
+  const uid = libraryKey();
+  if (!uid || !canWriteActiveWorkspace()) return false;
+  const updated: StoredDocument = { ...doc, tags: organization.tags, account: organization.account, kind: organization.kind, folder: organization.folder };
+
+  if (await canWriteThrough(uid, doc)) {
+    try {
+      const updatedAt = await withTimeout(updateDocumentOrganization(doc.id, organization));
+      if (updatedAt) {
+        await putLocalDocuments(uid, [stripSyncFields({ ...updated, updatedAt })]).catch(() => {});
+        return true;
+      }
+    } catch (error) {
+      if (!isOfflineFailure(error)) return refused(error);
+    }
+  }
+  await queueChange(uid, doc, { ...updated, updatedAt: Date.now() }, false);
+  return true;
+};
+
+export const deleteLibraryDocument = async (doc: StoredDocument): Promise<boolean> => {
+  const uid = libraryKey();
+  if (!uid || !canWriteActiveWorkspace()) return false;
+
+  if (await canWriteThrough(uid, doc)) {
+    try {
+      if (await withTimeout(deleteDocumentFromFirebase(doc.id))) {
+        await deleteLocalDocuments(uid, [doc.id]).catch(() => {});
+        return true;
+      }
+    } catch (error) {
+      if (!isOfflineFailure(error)) return refused(error);
+    }
+  }
+  await queueChange(uid, doc, null, false);
+  return true;
+};
+
+/** Full text from the local mirror when it is current, otherwise from the cloud (and cached). */
+export const loadLibraryContent = async (doc: StoredDocument): Promise<StoredDocument> => {
+  if (isContentLoaded(doc)) return doc;
+  const uid = libraryKey();
+  const cached = uid ? await getLocalDocument(uid, doc.id).catch(() => undefined) : undefined;
+  if (cached?.content && cached.updatedAt === doc.updatedAt) return { ...doc, content: cached.content };
+  const loaded = await loadDocumentContent(doc);
+  if (uid) putLocalDocuments(uid, [stripSyncFields(loaded)]).catch(() => {});
+  return loaded;
+};
+
+// Documents whose text failed to load are left out rather than failing the whole set
+export const loadLibraryContents = async (docs: StoredDocument[]): Promise<{ loaded: StoredDocument[]; failed: { doc: StoredDocument; error: string }[] }> => {
+  const results = await Promise.allSettled(docs.map(loadLibraryContent));
+  const loaded: StoredDocument[] = [];
+  const failed: { doc: StoredDocument; error: string }[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') loaded.push(result.value);
+    else failed.push({ doc: docs[i], error: result.reason?.message || 'Unknown error' });
+  });
+  return { loaded, failed };
+};
+
+// Replays one queued write; false means the user was signed out. Throws when the cloud fails it.
+const pushWrite = async (uid: string, write: PendingWrite, cloudById: Map<string, StoredDocument>, cloud: StoredDocument[]): Promise<boolean> => {
+  const local = await getLocalDocument(uid, write.docId);
+
+  if (write.kind === 'create') {
+    if (local) {
+      // A save that timed out may still have landed; don't upload it twice
+      const landed = cloud.some(d => d.name === local.name && d.contentHash === local.contentHash);
+      if (!landed && !await withTimeout(saveDocumentToFirebase(local.name, local.content, local.type, local.metadata, organizationOf(local)))) return false;
+      await deleteLocalDocuments(uid, [write.docId]);
+    }
+    await deletePendingWrite(uid, write.docId);
+    return true;
+  }
+
+  const remote = cloudById.get(write.docId);
+  if (write.kind === 'delete' && !remote) {
+    await deleteLocalDocuments(uid, [write.docId]);
+    await deletePendingWrite(uid, write.docId);
+    return true;
+  }
+  if (!remote || (write.baseUpdatedAt !== undefined && (remote.updatedAt || 0) > write.baseUpdatedAt)) {
+    await putPendingWrite(uid, { ...write, conflict: remote ? 'modified' : 'deleted' });
+    return true;
+  }
+
+  if (write.kind === 'delete') {
+    if (!await withTimeout(deleteDocumentFromFirebase(write.docId))) return false;
+    await deleteLocalDocuments(uid, [write.docId]);
+  } else if (local) {
+    if (write.contentChanged && !await withTimeout(updateDocumentInFirebase(write.docId, local.content, local.metadata))) return false;
+    const updatedAt = await withTimeout(updateDocumentOrganization(write.docId, organizationOf(local)));
+    if (!updatedAt) return false;
+    await putLocalDocuments(uid, [{ ...local, updatedAt }]);
+  }
+  await deletePendingWrite(uid, write.docId);
+  return true;
+};
+
+let inFlight: Promise<boolean> | null = null;
+
+/** Pushes queued writes in the order they were made. Resolves true when anything reached the cloud. */
+export const syncLibrary = (): Promise<boolean> => {
+  if (!inFlight) inFlight = pushPending().finally(() => { inFlight = null; });
+  return inFlight;
+};
+
+const pushPending = async (): Promise<boolean> => {
+  const uid = libraryKey();
+  if (!uid || !cloudAvailable()) return false;
+  const queued = (await getPendingWrites(uid).catch(() => [] as PendingWrite[])).filter(p => !p.conflict);
+  if (queued.length === 0) return false;
+
+  setStatus({ syncing: true });
+  let changed = false;
+  try {
+    const cloud = await withTimeout(fetchDocumentsFromFirebase());
+    const cloudById = new Map(cloud.map(d => [d.id, d]));
+    for (const write of queued) {
+      try {
+        if (!await pushWrite(uid, write, cloudById, cloud)) break;
+      } catch (error) {
+        if (isOfflineFailure(error)) throw error;
+        // A refused write is held for the user instead of blocking everything queued behind it
+        console.error("Library sync refused a write:", error);
+        await putPendingWrite(uid, { ...write, conflict: 'rejected' });
+      }
+      changed = true;
+    }
+    setStatus({ offline: false });
+  } catch (error) {
+    // The rest stays queued for the next attempt
+    if (isOfflineFailure(error)) setStatus({ offline: true });
+    else console.error("Library sync failed:", error);
+  }
+  await refreshCounts(uid).catch(() => {});
+  setStatus({ syncing: false });
+  return changed;
+};
+
+/**
+ * Settles a conflict. Keeping the local copy overwrites the cloud (or re-creates it if it
+ * was deleted there); keeping the cloud copy discards the local change.
+ */
+export const resolveConflict = async (doc: StoredDocument, keep: 'local' | 'cloud') => {
+  const uid = libraryKey();
+  if (!uid) return;
+  const write = (await getPendingWrites(uid)).find(p => p.docId === doc.id);
+  if (!write) return;
+
+  if (keep === 'cloud') {
+    await deletePendingWrite(uid, doc.id);
+    await deleteLocalDocuments(uid, [doc.id]);
+  } else if (write.conflict === 'rejected') {
+    // Retried as it was, so a cloud change made meanwhile is still caught
+    await putPendingWrite(uid, { ...write, conflict: undefined });
+  } else if (write.conflict === 'deleted') {
+    if (write.kind === 'delete') {
+      await deletePendingWrite(uid, doc.id);
+      await deleteLocalDocuments(uid, [doc.id]);
+    } else {
+      await putPendingWrite(uid, { ...write, kind: 'create', conflict: undefined, baseUpdatedAt: undefined });
+    }
+  } else {
+    await putPendingWrite(uid, { ...write, conflict: undefined, baseUpdatedAt: undefined });
+  }
+  await refreshCounts(uid);
+  await syncLibrary();
+};
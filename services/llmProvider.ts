@@ -0,0 +1,158 @@
+import type { Schema } from "@google/genai";
+
+/**
+ * Provider-neutral LLM layer.
+ * Every model call in the app goes through the active LLMProvider so the backend
+ * (Gemini cloud, an OpenAI-compatible gateway or a local server) can be swapped
+ * without touching feature code.
+ */
+
+// Capability tiers map to concrete model names inside each provider.
+export type ModelTier = 'reasoning' | 'fast' | 'vision' | 'image' | 'tts' | 'live' | 'video' | 'embedding';
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Schemas are authored with the Gemini `Type` enum; other providers translate them.
+export type ResponseSchema = Schema;
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface InlineMedia {
+  data: string; // base64 without data URL prefix
+  mimeType: string;
+}
+
+export interface GenerateRequest {
+  tier: ModelTier;
+  // Stable label for the calling feature, used for fixture lookup and logging
+  task?: string;
+  prompt: string;
+  history?: ChatTurn[];
+  media?: InlineMedia[];
+  systemInstruction?: string;
+  temperature?: number;
+  thinkingBudget?: number;
+  // Cancels the underlying HTTP request where the backend supports it
+  signal?: AbortSignal;
+}
+
+export interface StructuredRequest extends GenerateRequest {
+  schema?: ResponseSchema;
+}
+
+export interface EmbedRequest {
+  texts: string[];
+  // Backends that distinguish indexed passages from search queries use this hint
+  purpose: 'document' | 'query';
+  signal?: AbortSignal;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voiceName: string;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio: '1:1' | '16:9' | '9:16';
+}
+
+export interface VideoRequest {
+  prompt: string;
+  resolution: '720p' | '1080p';
+  aspectRatio: '16:9' | '9:16';
+  extendFrom?: VideoJob;
+}
+
+export interface VideoJob {
+  done: boolean;
+  videoUri?: string;
+  // Suggested wait before the next poll; providers without a hint get the caller's default
+  pollAfterMs?: number;
+  // Provider-specific operation handle, kept opaque to callers
+  handle: unknown;
+}
+
+export interface LiveCallbacks {
+  onOpen: () => void;
+  onAudio: (base64Pcm: string) => void;
+  onInputTranscript: (text: string) => void;
+  onOutputTranscript: (text: string) => void;
+  onTurnComplete: () => void;
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+export interface LiveRequest {
+  systemInstruction: string;
+  voiceName: string;
+  callbacks: LiveCallbacks;
+}
+
+export interface LiveSession {
+  sendAudio: (chunk: InlineMedia) => void;
+  close: () => void;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  generateText(req: GenerateRequest): Promise<string>;
+  streamText(req: GenerateRequest): AsyncGenerator<string>;
+  // Returns the raw JSON text; callers parse it so repair logic stays in one place.
+  generateJson(req: StructuredRequest): Promise<string>;
+  streamJson(req: StructuredRequest): AsyncGenerator<string>;
+  embed(req: EmbedRequest): Promise<number[][]>; // one vector per input text
+  generateSpeech(req: SpeechRequest): Promise<string | null>; // base64 PCM, 24kHz mono
+  generateImage(req: ImageRequest): Promise<string | null>; // data URL
+  startVideo(req: VideoRequest): Promise<VideoJob>;
+  pollVideo(job: VideoJob): Promise<VideoJob>;
+  fetchVideo(job: VideoJob): Promise<Blob>;
+  connectLive(req: LiveRequest): Promise<LiveSession>;
+}
+
+export class UnsupportedCapabilityError extends Error {
+  constructor(providerLabel: string, capability: string) {
+    super(`${providerLabel} does not support ${capability}.`);
+    this.name = 'UnsupportedCapabilityError';
+  }
+}
+
+export interface ProviderSettings {
+  id: ProviderId;
+  baseUrl?: string;
+  apiKey?: string;
+  models?: Partial<Record<ModelTier, string>>;
+  // Wraps the provider so every response is saved as a replayable fixture
+  recordFixtures?: boolean;
+}
+
+/**
+ * Reads the provider selection injected by Vite. Unset values fall back to Gemini
+ * with the AI Studio key, which is the historical behaviour of the app. The AI Studio
+ * key is never offered to other providers: an OpenAI-compatible endpoint only gets
+ * LLM_API_KEY, so the Gemini key can't leak to a third-party or local server.
+ */
+export const getDefaultProviderSettings = (): ProviderSettings => {
+  const id = (process.env.LLM_PROVIDER as ProviderId) || 'gemini';
+  const models: Partial<Record<ModelTier, string>> = {};
+  if (process.env.LLM_MODEL_REASONING) models.reasoning = process.env.LLM_MODEL_REASONING;
+  if (process.env.LLM_MODEL_FAST) models.fast = process.env.LLM_MODEL_FAST;
+  if (process.env.LLM_MODEL_EMBEDDING) models.embedding = process.env.LLM_MODEL_EMBEDDING;
+  return {
+    id,
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+    apiKey: process.env.LLM_API_KEY || undefined,
+    models,
+    recordFixtures: process.env.LLM_RECORD_FIXTURES === 'true'
+  };
+};
+
+export const resolveModel = (
+  defaults: Record<ModelTier, string>,
+  settings: ProviderSettings,
+  tier: ModelTier
+): string => settings.models?.[tier] || defaults[tier];
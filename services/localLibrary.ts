@@ -0,0 +1,78 @@
+import { StoredDocument } from "../types";
+
+/**
+ * IndexedDB mirror of the user's `cognitive_documents`, plus the writes made while the
+ * cloud library was unreachable. One database per user and workspace, so a shared browser
+ * never mixes libraries. Records hold full text once it has been loaded or written locally.
+ */
+
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = "documents";
+const PENDING_STORE = "pending";
+
+// At most one pending write per document: later edits fold into it, so sync replays
+// the document's final state once instead of every intermediate edit.
+export interface PendingWrite {
+  docId: string;
+  kind: 'create' | 'update' | 'delete';
+  // Cloud updatedAt the local change was based on; a newer cloud value means a conflict
+  baseUpdatedAt?: number;
+  contentChanged: boolean;
+  queuedAt: number;
+  // Set when the cloud copy changed meanwhile, or when the cloud refused the write outright
+  conflict?: 'modified' | 'deleted' | 'rejected';
+}
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+const openLibraryDb = (uid: string): Promise<IDBDatabase> => {
+  if (!connections.has(uid)) {
+    connections.set(uid, new Promise((resolve, reject) => {
+      const request = indexedDB.open(`cognitive_library_${uid}`, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DOCUMENTS_STORE, { keyPath: "id" });
+        request.result.createObjectStore(PENDING_STORE, { keyPath: "docId" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        connections.delete(uid);
+        reject(request.error);
+      };
+    }));
+  }
+  return connections.get(uid)!;
+};
+
+const run = async <T>(uid: string, storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+  const db = await openLibraryDb(uid);
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getLocalDocuments = async (uid: string): Promise<StoredDocument[]> =>
+  (await run<StoredDocument[]>(uid, DOCUMENTS_STORE, "readonly", store => store.getAll())) || [];
+
+export const getLocalDocument = (uid: string, id: string): Promise<StoredDocument | undefined> =>
+  run<StoredDocument>(uid, DOCUMENTS_STORE, "readonly", store => store.get(id));
+
+export const putLocalDocuments = (uid: string, docs: StoredDocument[]) =>
+  run(uid, DOCUMENTS_STORE, "readwrite", store => { docs.forEach(d => store.put(d)); });
+
+export const deleteLocalDocuments = (uid: string, ids: string[]) =>
+  run(uid, DOCUMENTS_STORE, "readwrite", store => { ids.forEach(id => store.delete(id)); });
+
+export const getPendingWrites = async (uid: string): Promise<PendingWrite[]> => {
+  const writes = (await run<PendingWrite[]>(uid, PENDING_STORE, "readonly", store => store.getAll())) || [];
+  return writes.sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const putPendingWrite = (uid: string, write: PendingWrite) =>
+  run(uid, PENDING_STORE, "readwrite", store => { store.put(write); });
+
+export const deletePendingWrite = (uid: string, docId: string) =>
+  run(uid, PENDING_STORE, "readwrite", store => { store.delete(docId); });
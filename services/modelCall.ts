@@ -0,0 +1,155 @@
+/**
+ * Shared policy for model calls: classifies failures, retries the transient ones
+ * with jittered exponential backoff, enforces a per-attempt timeout and honours
+ * an external abort signal.
+ */
+
+export type ModelErrorKind =
+  | 'rate-limit'
+  | 'safety'
+  | 'timeout'
+  | 'malformed-json'
+  | 'network'
+  | 'server'
+  | 'aborted'
+  | 'unknown';
+
+const RETRYABLE: ModelErrorKind[] = ['rate-limit', 'timeout', 'network', 'server'];
+
+const KIND_MESSAGES: Record<ModelErrorKind, string> = {
+  'rate-limit': "The model is rate limited or out of quota.",
+  'safety': "The response was blocked by the model's safety filters.",
+  'timeout': "The model took too long to respond.",
+  'malformed-json': "The model returned data that could not be read, even after a repair attempt.",
+  'network': "The model service could not be reached.",
+  'server': "The model service returned a server error.",
+  'aborted': "The request was cancelled.",
+  'unknown': "The model call failed."
+};
+
+export class ModelCallError extends Error {
+  kind: ModelErrorKind;
+  step: string;
+  attempts: number;
+  cause?: unknown;
+
+  constructor(kind: ModelErrorKind, step: string, detail?: string, attempts = 1, cause?: unknown) {
+    super(detail ? `${step}: ${KIND_MESSAGES[kind]} ${detail}` : `${step}: ${KIND_MESSAGES[kind]}`);
+    this.name = 'ModelCallError';
+    this.kind = kind;
+    this.step = step;
+    this.attempts = attempts;
+    this.cause = cause;
+  }
+
+  get retryable() {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+export interface CallOptions {
+  signal?: AbortSignal;
+  retries?: number; // additional attempts after the first
+  timeoutMs?: number; // per attempt
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (attempt: number, error: ModelCallError, delayMs: number) => void;
+}
+
+export const classifyError = (error: unknown): ModelErrorKind => {
+  if (error instanceof ModelCallError) return error.kind;
+  const e = error as any;
+  if (e?.name === 'AbortError') return 'aborted';
+  if (e?.name === 'TimeoutError') return 'timeout';
+
+  const status = Number(e?.status ?? e?.code ?? e?.error?.code);
+  const message = String(e?.message || e || '').toLowerCase();
+
+  if (status === 429 || /resource_exhausted|rate limit|quota|too many requests/.test(message)) return 'rate-limit';
+  if (/safety|blocked|content_filter|prohibited_content/.test(message)) return 'safety';
+  if (status === 408 || status === 504 || /deadline|timed out|timeout/.test(message)) return 'timeout';
+  if (status >= 500 && status < 600) return 'server';
+  if (/unavailable|internal error|overloaded/.test(message)) return 'server';
+  if (e instanceof SyntaxError) return 'malformed-json';
+  if (e instanceof TypeError && /fetch|network|load failed/.test(message)) return 'network';
+  return 'unknown';
+};
+
+// Errors raised inside providers are re-labelled with the caller's step name.
+export const toModelCallError = (error: unknown, step: string, attempts = 1): ModelCallError => {
+  const cause = error instanceof ModelCallError ? error.cause ?? error : error;
+  const detail = (cause as any)?.message ? String((cause as any).message).substring(0, 200) : undefined;
+  return new ModelCallError(classifyError(error), step, detail, attempts, cause);
+};
+
+// Gemini quota errors carry a server hint such as "Please retry in 23.4s".
+const retryHintMs = (error: ModelCallError): number | null => {
+  const match = String((error.cause as any)?.message || '').match(/retry in ([\d.]+)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new ModelCallError('aborted', 'Backoff'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new ModelCallError('aborted', 'Backoff'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs one attempt with its own controller so a timeout cancels only that attempt.
+ * Providers that ignore the signal are still cut off by racing the abort.
+ */
+const attempt = <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  outer?.addEventListener('abort', forwardAbort, { once: true });
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => {
+      reject(timedOut ? Object.assign(new Error(`Timed out after ${timeoutMs}ms`), { name: 'TimeoutError' }) : Object.assign(new Error('Aborted'), { name: 'AbortError' }));
+    }, { once: true });
+  });
+
+  return Promise.race([run(controller.signal), aborted]).finally(() => {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', forwardAbort);
+  });
+};
+
+export async function callModel<T>(step: string, run: (signal: AbortSignal) => Promise<T>, options: CallOptions = {}): Promise<T> {
+  const { signal, retries = 3, timeoutMs = 120000, baseDelayMs = 1000, maxDelayMs = 20000, onRetry } = options;
+
+  for (let i = 0; ; i++) {
+    if (signal?.aborted) throw new ModelCallError('aborted', step, undefined, i);
+    try {
+      return await attempt(run, timeoutMs, signal);
+    } catch (raw) {
+      const error = toModelCallError(raw, step, i + 1);
+      if (signal?.aborted) throw new ModelCallError('aborted', step, undefined, i + 1);
+      if (!error.retryable || i >= retries) throw error;
+
+      // Full jitter keeps parallel callers from retrying in lockstep.
+      const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** i);
+      const delay = Math.max(Math.round(Math.random() * ceiling), retryHintMs(error) ?? 0);
+      console.warn(`${step} failed (${error.kind}), retry ${i + 1}/${retries} in ${delay}ms`);
+      onRetry?.(i + 1, error, delay);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+export const describeModelError = (error: unknown): string => {
+  if (error instanceof ModelCallError) {
+    const tries = error.attempts > 1 ? ` (after ${error.attempts} attempts)` : '';
+    return `${error.step} failed${tries}. ${KIND_MESSAGES[error.kind]}`;
+  }
+  return (error as any)?.message || "An unexpected error occurred.";
+};
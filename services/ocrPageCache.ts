@@ -0,0 +1,56 @@
+import { hashString } from "../utils/hash";
+
+/**
+ * OCR results per PDF page, kept in localStorage until the file parses completely.
+ * A failed or interrupted upload of the same file resumes from the pages already read.
+ */
+
+const STORAGE_KEY = "cognitive_ocr_pages";
+// Abandoned uploads are pruned after a week
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CachedFile {
+  updatedAt: number;
+  pages: Record<number, string>;
+}
+
+let cache: Record<string, CachedFile> | null = null;
+
+const load = (): Record<string, CachedFile> => {
+  if (cache) return cache;
+  try {
+    cache = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    cache = {};
+  }
+  const cutoff = Date.now() - MAX_AGE_MS;
+  Object.entries(cache!).forEach(([key, entry]) => { if (entry.updatedAt < cutoff) delete cache![key]; });
+  return cache!;
+};
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(load()));
+  } catch (e) {
+    console.warn("OCR page cache is full; progress is kept for this session only.", e);
+  }
+};
+
+// Same name, size and modification time is treated as the same file.
+export const ocrFileKey = (file: File) => hashString(`${file.name}:${file.size}:${file.lastModified}`);
+
+export const getCachedPage = (fileKey: string, page: number): string | undefined => load()[fileKey]?.pages[page];
+
+export const cachePage = (fileKey: string, page: number, text: string) => {
+  const entry = load()[fileKey] || { updatedAt: 0, pages: {} };
+  entry.pages[page] = text;
+  entry.updatedAt = Date.now();
+  load()[fileKey] = entry;
+  persist();
+};
+
+export const clearCachedFile = (fileKey: string) => {
+  if (!load()[fileKey]) return;
+  delete load()[fileKey];
+  persist();
+};
@@ -0,0 +1,84 @@
+import { GenerateRequest, StructuredRequest } from "../llmProvider";
+import { hashString } from "../../utils/hash";
+
+/**
+ * Local store of recorded model responses, keyed by a hash of the request.
+ * Fixtures are recorded by the recording provider and replayed by the mock provider.
+ */
+
+export type FixtureKind = 'text' | 'json' | 'speech' | 'image';
+
+export interface LLMFixture {
+  key: string;
+  kind: FixtureKind;
+  task?: string;
+  response: string;
+  recordedAt: number;
+}
+
+const STORAGE_KEY = 'cognitive_llm_fixtures_v1';
+
+let cache: Record<string, LLMFixture> | null = null;
+
+/**
+ * Builds the replay key. Only fields that shape the answer are included; sampling
+ * settings such as temperature are left out so a fixture survives config tweaks.
+ */
+export const fixtureKey = (kind: FixtureKind, req: Partial<StructuredRequest> & { text?: string; voiceName?: string }): string => {
+  const material = JSON.stringify({
+    kind,
+    tier: req.tier,
+    task: req.task,
+    prompt: req.prompt ?? req.text,
+    voice: req.voiceName,
+    system: req.systemInstruction,
+    history: req.history,
+    media: req.media?.map(m => hashString(m.data)),
+    schema: req.schema
+  });
+  return `${kind}:${req.task || 'untagged'}:${hashString(material)}`;
+};
+
+const load = (): Record<string, LLMFixture> => {
+  if (cache) return cache;
+  try {
+    cache = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    cache = {};
+  }
+  return cache!;
+};
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(load()));
+  } catch (e) {
+    console.warn("Fixture store is full; keeping new fixtures in memory only.", e);
+  }
+};
+
+export const getFixture = (key: string): LLMFixture | undefined => load()[key];
+
+export const saveFixture = (fixture: LLMFixture) => {
+  load()[fixture.key] = fixture;
+  persist();
+};
+
+export const listFixtures = (): LLMFixture[] => Object.values(load());
+
+export const clearFixtures = () => {
+  cache = {};
+  persist();
+};
+
+export const exportFixtures = (): string => JSON.stringify({ version: 1, fixtures: listFixtures() }, null, 2);
+
+export const importFixtures = (json: string): number => {
+  const parsed = JSON.parse(json);
+  const fixtures: LLMFixture[] = Array.isArray(parsed) ? parsed : parsed.fixtures || [];
+  fixtures.forEach(f => { if (f.key && f.kind) load()[f.key] = f; });
+  persist();
+  return fixtures.length;
+};
+
+export const describeRequest = (req: GenerateRequest) => `${req.task || req.tier} (${req.prompt.length} chars)`;
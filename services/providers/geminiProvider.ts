@@ -0,0 +1,200 @@
+import { GoogleGenAI, Modality, LiveServerMessage } from "@google/genai";
+import {
+  LLMProvider,
+  ModelTier,
+  ProviderSettings,
+  GenerateRequest,
+  StructuredRequest,
+  VideoJob,
+  resolveModel
+} from "../llmProvider";
+import { ModelCallError } from "../modelCall";
+
+const GEMINI_MODELS: Record<ModelTier, string> = {
+  reasoning: 'gemini-3-pro-preview',
+  fast: 'gemini-3-flash-preview',
+  vision: 'gemini-3-flash-preview',
+  image: 'gemini-2.5-flash-image',
+  tts: 'gemini-2.5-flash-preview-tts',
+  live: 'gemini-2.5-flash-native-audio-preview-12-2025',
+  video: 'veo-3.1-fast-generate-preview',
+  embedding: 'gemini-embedding-001'
+};
+
+export const createGeminiProvider = (settings: ProviderSettings): LLMProvider => {
+  // The AI Studio key is read on every call, so one re-selected through its dialog is
+  // picked up; LLM_API_KEY, when set, takes precedence.
+  const apiKey = () => settings.apiKey || process.env.API_KEY;
+  const client = () => new GoogleGenAI({ apiKey: apiKey() });
+  const model = (tier: ModelTier) => resolveModel(GEMINI_MODELS, settings, tier);
+
+  const buildContents = (req: GenerateRequest) => {
+    const parts: any[] = (req.media || []).map(m => ({ inlineData: { data: m.data, mimeType: m.mimeType } }));
+    parts.push({ text: req.prompt });
+    if (!req.history?.length) return req.media?.length ? { parts } : req.prompt;
+    return [
+      ...req.history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+      { role: 'user', parts }
+    ];
+  };
+
+  const buildConfig = (req: StructuredRequest, json: boolean) => {
+    const config: any = {};
+    if (req.systemInstruction) config.systemInstruction = req.systemInstruction;
+    if (req.temperature !== undefined) config.temperature = req.temperature;
+    if (req.thinkingBudget !== undefined) config.thinkingConfig = { thinkingBudget: req.thinkingBudget };
+    if (req.signal) config.abortSignal = req.signal;
+    if (json) {
+      config.responseMimeType = "application/json";
+      if (req.schema) config.responseSchema = req.schema;
+    }
+    return config;
+  };
+
+  // An empty reply caused by a block is surfaced as an error rather than as blank text.
+  const readText = (response: any, req: GenerateRequest): string => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+      throw new ModelCallError('safety', req.task || req.tier, String(blockReason || finishReason));
+    }
+    return response.text || "";
+  };
+
+  async function* stream(req: StructuredRequest, json: boolean): AsyncGenerator<string> {
+    const result = await client().models.generateContentStream({
+      model: model(req.tier),
+      contents: buildContents(req),
+      config: buildConfig(req, json)
+    });
+    for await (const chunk of result) {
+      yield chunk.text || "";
+    }
+  }
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+
+    async generateText(req) {
+      const response = await client().models.generateContent({
+        model: model(req.tier),
+        contents: buildContents(req),
+        config: buildConfig(req, false)
+      });
+      return readText(response, req);
+    },
+
+    streamText: (req) => stream(req, false),
+
+    async generateJson(req) {
+      const response = await client().models.generateContent({
+        model: model(req.tier),
+        contents: buildContents(req),
+        config: buildConfig(req, true)
+      });
+      return readText(response, req);
+    },
+
+    streamJson: (req) => stream(req, true),
+
+    async embed({ texts, purpose, signal }) {
+      const response = await client().models.embedContent({
+        model: model('embedding'),
+        contents: texts,
+        config: { taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT', abortSignal: signal }
+      });
+      return (response.embeddings || []).map(e => e.values || []);
+    },
+
+    async generateSpeech({ text, voiceName }) {
+      const response = await client().models.generateContent({
+        model: model('tts'),
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+        },
+      });
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+    },
+
+    async generateImage({ prompt, aspectRatio }) {
+      const response = await client().models.generateContent({
+        model: model('image'),
+        contents: { parts: [{ text: prompt }] },
+        config: { imageConfig: { aspectRatio } }
+      });
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          return `data:image/png;base64,${part.inlineData.data}`;
+        }
+      }
+      return null;
+    },
+
+    async startVideo({ prompt, resolution, aspectRatio, extendFrom }) {
+      const params: any = {
+        model: model('video'),
+        prompt,
+        config: { numberOfVideos: 1, resolution, aspectRatio }
+      };
+      const previous = (extendFrom?.handle as any)?.response?.generatedVideos?.[0]?.video;
+      if (previous) {
+        params.video = previous;
+        params.config.resolution = '720p';
+      }
+      return toVideoJob(await client().models.generateVideos(params));
+    },
+
+    async pollVideo(job) {
+      return toVideoJob(await client().operations.getVideosOperation({ operation: job.handle as any }));
+    },
+
+    async fetchVideo(job) {
+      if (!job.videoUri) throw new Error("Synthesis completed but no video data was found.");
+      const response = await fetch(`${job.videoUri}&key=${apiKey()}`);
+      if (!response.ok) throw new Error("Video asset fetch failed.");
+      return response.blob();
+    },
+
+    async connectLive({ systemInstruction, voiceName, callbacks }) {
+      const session = await client().live.connect({
+        model: model('live'),
+        callbacks: {
+          onopen: callbacks.onOpen,
+          onmessage: (message: LiveServerMessage) => {
+            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (base64Audio) callbacks.onAudio(base64Audio);
+            if (message.serverContent?.inputTranscription?.text) {
+              callbacks.onInputTranscript(message.serverContent.inputTranscription.text);
+            }
+            if (message.serverContent?.outputTranscription?.text) {
+              callbacks.onOutputTranscript(message.serverContent.outputTranscription.text);
+            }
+            if (message.serverContent?.turnComplete) callbacks.onTurnComplete();
+          },
+          onerror: callbacks.onError,
+          onclose: callbacks.onClose,
+        },
+        config: {
+          responseModalities: [Modality.AUDIO],
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+          systemInstruction
+        },
+      });
+      return {
+        sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+        close: () => session.close()
+      };
+    }
+  };
+};
+
+const toVideoJob = (operation: any): VideoJob => ({
+  done: !!operation.done,
+  videoUri: operation.response?.generatedVideos?.[0]?.video?.uri,
+  handle: operation
+});
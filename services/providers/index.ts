@@ -0,0 +1,28 @@
+import { LLMProvider, ProviderId, ProviderSettings, getDefaultProviderSettings } from "../llmProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+import { withFixtureRecording } from "./recordingProvider";
+
+const PROVIDER_FACTORIES: Record<ProviderId, (settings: ProviderSettings) => LLMProvider> = {
+  'gemini': createGeminiProvider,
+  'openai-compatible': createOpenAiCompatibleProvider,
+  'mock': createMockProvider
+};
+
+let activeProvider: LLMProvider | null = null;
+let activeSettings: ProviderSettings | null = null;
+
+export const configureProvider = (settings: ProviderSettings): LLMProvider => {
+  const factory = PROVIDER_FACTORIES[settings.id];
+  if (!factory) throw new Error(`Unknown LLM provider "${settings.id}".`);
+  const provider = factory(settings);
+  activeSettings = settings;
+  // Recording a mock would only capture synthesized output, so it is skipped.
+  activeProvider = settings.recordFixtures && settings.id !== 'mock' ? withFixtureRecording(provider) : provider;
+  return activeProvider;
+};
+
+export const getProvider = (): LLMProvider => activeProvider || configureProvider(getDefaultProviderSettings());
+
+export const getProviderSettings = (): ProviderSettings => activeSettings || getDefaultProviderSettings();
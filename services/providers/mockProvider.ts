@@ -0,0 +1,314 @@
+import {
+  LLMProvider,
+  GenerateRequest,
+  StructuredRequest,
+  ResponseSchema,
+  VideoJob
+} from "../llmProvider";
+import { fixtureKey, getFixture, describeRequest } from "./fixtureStore";
+import { hashString } from "../../utils/hash";
+
+/**
+ * Deterministic offline stand-in for every model capability.
+ * Recorded fixtures are replayed by request hash; anything without a fixture is
+ * synthesized from the response schema with a PRNG seeded by that same hash, so
+ * the same input always produces the same schema-valid output.
+ */
+
+const SAMPLE_PHRASES = [
+  "Consolidate fragmented customer service tooling before the next budget cycle",
+  "Reduce average handling time without adding headcount",
+  "Prove measurable ROI within two quarters of rollout",
+  "Keep regulated customer data inside the existing security perimeter",
+  "Integrate with the current CRM and ticketing stack without re-platforming",
+  "Executive sponsor is under pressure to show automation wins this fiscal year",
+  "Procurement will compare total cost of ownership over three years",
+  "Previous vendor rollout stalled on change management, not technology",
+  "Operations team wants self-service analytics rather than vendor reports",
+  "Security review is the longest pole in the decision timeline",
+  "Board-level mandate to modernise the digital customer journey",
+  "Pilot success criteria must be agreed before the commercial discussion"
+];
+
+const SAMPLE_SOURCE = 'Mock Discovery Notes.pdf';
+
+// Field names whose free-text values have a known closed vocabulary in types.ts.
+const FIELD_VOCABULARY: Record<string, string[]> = {
+  threatProfile: ['Direct', 'Indirect', 'Niche'],
+  type: ['Person', 'Company', 'Metric', 'Date'],
+  category: ['Business Value', 'Technical', 'Risk', 'ROI', 'Integration']
+};
+
+const mulberry32 = (seed: number) => () => {
+  seed |= 0; seed = seed + 0x6D2B79F5 | 0;
+  let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+  t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+  return ((t ^ t >>> 14) >>> 0) / 4294967296;
+};
+
+const seededRandom = (key: string) => mulberry32(parseInt(hashString(key).substring(0, 8), 16));
+
+const humanize = (field: string) => field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase()).trim();
+
+/**
+ * Produces a value that satisfies the given schema. Numeric fields land in 35-95 so
+ * that 0-100 gauges (buyer metrics, scores) render meaningfully.
+ */
+export const synthesizeFromSchema = (schema: ResponseSchema | undefined, random: () => number, field = 'value'): any => {
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  switch (String(schema?.type || 'STRING').toUpperCase()) {
+    case 'OBJECT': {
+      const out: Record<string, unknown> = {};
+      Object.entries(schema?.properties || {}).forEach(([key, child]) => {
+        out[key] = synthesizeFromSchema(child, random, key);
+      });
+      return out;
+    }
+    case 'ARRAY':
+      return Array.from({ length: 3 }, () => synthesizeFromSchema(schema?.items, random, field));
+    case 'NUMBER':
+    case 'INTEGER':
+      return 35 + Math.floor(random() * 61);
+    case 'BOOLEAN':
+      return random() > 0.4;
+    default:
+      if (schema?.enum?.length) return pick(schema.enum);
+      if (FIELD_VOCABULARY[field]) return pick(FIELD_VOCABULARY[field]);
+      if (/source(File)?$/.test(field)) return SAMPLE_SOURCE;
+      if (field === 'name') return pick(['Northwind Automation', 'Contoso Virtual Agent', 'Fabrikam CX Cloud']);
+      return `${humanize(field)}: ${pick(SAMPLE_PHRASES)}.`;
+  }
+};
+
+// Tasks whose output depends on the prompt (ids, counts) rather than on the schema alone.
+const TASK_RESPONDERS: Record<string, (req: StructuredRequest, random: () => number) => unknown> = {
+  'assessment.questions': (req, random) => {
+    const count = (label: string) => parseInt(req.prompt.match(new RegExp(`${label}: (\\d+)`))?.[1] || '0', 10);
+    const plan: [string, number][] = [['mcq', count('MCQ')], ['short', count('Short Answer')], ['long', count('Long Answer')], ['mic', count('Voice/Mic Answer')]];
+    return plan.flatMap(([type, n]) => Array.from({ length: n }, (_, i) => {
+      const fact = SAMPLE_PHRASES[Math.floor(random() * SAMPLE_PHRASES.length)];
+      const options = [fact, ...SAMPLE_PHRASES.filter(p => p !== fact).slice(0, 3)];
+      return {
+        id: `mock-${type}-${i + 1}`,
+        type,
+        text: `Which priority did the prospect emphasise most strongly (${type.toUpperCase()} ${i + 1})?`,
+        ...(type === 'mcq' ? { options } : {}),
+        correctAnswer: fact,
+        explanation: "The discovery notes repeat this point across several stakeholders.",
+        citation: { snippet: fact, sourceFile: SAMPLE_SOURCE }
+      };
+    }));
+  },
+  'assessment.evaluate': (req, random) => {
+    const ids = Array.from(req.prompt.matchAll(/"id":"([^"]+)"/g)).map(m => m[1]);
+    return ids.map(questionId => {
+      const score = 40 + Math.floor(random() * 61);
+      return {
+        questionId,
+        evaluation: { score, isCorrect: score >= 70, feedback: score >= 70 ? "Grounded and specific." : "Anchor the answer in the prospect's stated priority." }
+      };
+    });
+  },
+  'analysis': (req, random) => {
+    const result = synthesizeFromSchema(req.schema, random) as Record<string, any>;
+    const section = req.prompt.split('COMPETITOR ROSTER:')[1]?.split('\n\n')[0] || '';
+    const roster = Array.from(section.matchAll(/^\s*- ([^:\n(]+)/gm)).map(m => m[1].trim());
+    const discovered = (result.competitiveHub || []).slice(0, 1).map((c: any) => ({ ...c, source: 'discovered' }));
+    result.competitiveHub = [
+      ...roster.map(name => ({ ...synthesizeFromSchema(req.schema?.properties?.competitiveHub?.items, random) as object, name, source: 'roster' })),
+      ...discovered
+    ];
+    return result;
+  },
+  'suggestions': () => [
+    "What would a successful pilot need to prove to the executive sponsor?",
+    "Which integration would block a rollout if it slipped?",
+    "How will procurement compare us with the incumbent on three-year cost?"
+  ]
+};
+
+const MOCK_TEXT: Record<string, string> = {
+  'ocr': "--- MOCK OCR ---\nDiscovery call notes\nPriority: reduce handling time by 20%\nConstraint: data must stay in-region",
+  'chat': "### Mock Response\n- **Offline mode:** this answer comes from the deterministic mock provider.\n- Record fixtures against a live provider to replay real answers here.",
+  'deep-study': "### Deep Study (Mock)\n1. **Document synthesis:** the buyer is optimising for measurable automation wins.\n2. **Customer psychology:** the sponsor fears another stalled rollout.\n3. **Roadmap:** agree pilot success criteria before discussing price.",
+  'explanation': "The buyer is risk-aware and data-driven, so lead with a quantified outcome and a low-risk pilot path."
+};
+
+const chunkText = (text: string, size = 64): string[] => {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) chunks.push(text.substring(i, i + size));
+  return chunks.length ? chunks : [""];
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A short, soft two-tone chime as 24kHz 16-bit mono PCM, the format every TTS caller expects.
+const synthesizeTone = (seedText: string): string => {
+  const sampleRate = 24000;
+  const duration = Math.min(2.5, 0.6 + seedText.length / 400);
+  const samples = Math.floor(sampleRate * duration);
+  const pcm = new Int16Array(samples);
+  const base = 330 + (parseInt(hashString(seedText).substring(0, 4), 16) % 220);
+  for (let i = 0; i < samples; i++) {
+    const t = i / sampleRate;
+    const freq = t < duration / 2 ? base : base * 1.25;
+    const envelope = Math.min(1, t * 20) * Math.min(1, (duration - t) * 8);
+    pcm[i] = Math.sin(2 * Math.PI * freq * t) * 6000 * envelope;
+  }
+  const bytes = new Uint8Array(pcm.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const synthesizeImage = (prompt: string, aspectRatio: string): string => {
+  const [w, h] = aspectRatio === '9:16' ? [540, 960] : aspectRatio === '1:1' ? [800, 800] : [960, 540];
+  const hue = parseInt(hashString(prompt).substring(0, 4), 16) % 360;
+  const label = prompt.replace(/[<>&"]/g, '').substring(0, 80);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}">
+    <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},70%,25%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,45%)"/></linearGradient></defs>
+    <rect width="100%" height="100%" fill="url(#g)"/>
+    <text x="50%" y="45%" fill="white" font-family="Inter, sans-serif" font-size="28" font-weight="800" text-anchor="middle">MOCK VISUAL ASSET</text>
+    <text x="50%" y="55%" fill="rgba(255,255,255,0.75)" font-family="Inter, sans-serif" font-size="16" text-anchor="middle">${label}</text>
+  </svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+// Safari records MP4 only; anything else leaves the choice to the browser
+const RECORDING_TYPES = ['video/webm', 'video/mp4'];
+
+// Records a few seconds of an animated canvas so the video player has a real clip to show.
+const synthesizeVideo = async (prompt: string): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 640; canvas.height = 360;
+  const ctx = canvas.getContext('2d')!;
+  const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(canvas.captureStream(24), mimeType ? { mimeType } : undefined);
+  const parts: Blob[] = [];
+  recorder.ondataavailable = (e) => parts.push(e.data);
+  const finished = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  recorder.start();
+  const frames = 72;
+  for (let frame = 0; frame < frames; frame++) {
+    ctx.fillStyle = '#1e1b4b';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#6366f1';
+    ctx.beginPath();
+    ctx.arc(320 + Math.sin(frame / 8) * 120, 160, 40, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = 'white';
+    ctx.font = 'bold 20px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('MOCK PERFORMANCE CLIP', 320, 270);
+    ctx.font = '12px Inter, sans-serif';
+    ctx.fillText(prompt.substring(0, 70), 320, 300);
+    await delay(1000 / 24);
+  }
+  recorder.stop();
+  await finished;
+  return new Blob(parts, { type: recorder.mimeType || mimeType });
+};
+
+// Hashed bag of words: texts sharing vocabulary land close together, which is enough to exercise retrieval.
+const MOCK_EMBEDDING_DIMS = 256;
+const synthesizeEmbedding = (text: string): number[] => {
+  const vector = new Array(MOCK_EMBEDDING_DIMS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []) {
+    vector[parseInt(hashString(word).substring(0, 6), 16) % MOCK_EMBEDDING_DIMS] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+};
+
+const LIVE_BUYER_LINES = [
+  "Thanks for making the time. Before we go further, how is this different from what we tried last year?",
+  "That sounds reasonable, but our security team will want to see where the data lives.",
+  "If we ran a pilot, what would you need from my team in the first month?",
+  "Understood. Send me the success criteria and I'll take it to the steering group."
+];
+
+export const createMockProvider = (): LLMProvider => {
+  const replayOrSynthesize = (kind: 'text' | 'json', req: StructuredRequest): string => {
+    const key = fixtureKey(kind, req);
+    const fixture = getFixture(key);
+    if (fixture) return fixture.response;
+    console.info(`[mock] No fixture for ${describeRequest(req)}; synthesizing.`);
+    const random = seededRandom(key);
+    if (kind === 'text') return MOCK_TEXT[req.task || ''] || MOCK_TEXT['chat'];
+    const responder = req.task ? TASK_RESPONDERS[req.task] : undefined;
+    return JSON.stringify(responder ? responder(req, random) : synthesizeFromSchema(req.schema, random));
+  };
+
+  async function* stream(kind: 'text' | 'json', req: GenerateRequest): AsyncGenerator<string> {
+    for (const chunk of chunkText(replayOrSynthesize(kind, req))) {
+      await delay(15);
+      yield chunk;
+    }
+  }
+
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+
+    generateText: async (req) => replayOrSynthesize('text', req),
+    streamText: (req) => stream('text', req),
+    generateJson: async (req) => replayOrSynthesize('json', req),
+    streamJson: (req) => stream('json', req),
+    embed: async ({ texts }) => texts.map(synthesizeEmbedding),
+
+    async generateSpeech(req) {
+      const fixture = getFixture(fixtureKey('speech', { task: 'speech', ...req }));
+      return fixture ? fixture.response : synthesizeTone(req.text);
+    },
+
+    async generateImage(req) {
+      const fixture = getFixture(fixtureKey('image', { task: 'image', prompt: req.prompt }));
+      return fixture ? fixture.response : synthesizeImage(req.prompt, req.aspectRatio);
+    },
+
+    // Two quick polls mimic the long-running operation flow without the 10s waits.
+    async startVideo(req) {
+      return { done: false, pollAfterMs: 800, handle: { prompt: req.prompt, polls: 0 } };
+    },
+
+    async pollVideo(job) {
+      const handle = job.handle as { prompt: string; polls: number };
+      const polls = handle.polls + 1;
+      const done = polls >= 2;
+      return { done, pollAfterMs: 800, videoUri: done ? `mock://video/${hashString(handle.prompt)}` : undefined, handle: { ...handle, polls } } as VideoJob;
+    },
+
+    fetchVideo: (job) => synthesizeVideo((job.handle as { prompt: string }).prompt),
+
+    async connectLive({ callbacks }) {
+      let chunksReceived = 0;
+      let lineIdx = 0;
+      let closed = false;
+      const speak = (text: string) => {
+        if (closed) return;
+        callbacks.onOutputTranscript(text);
+        callbacks.onAudio(synthesizeTone(text));
+        callbacks.onTurnComplete();
+      };
+      setTimeout(() => {
+        callbacks.onOpen();
+        speak(LIVE_BUYER_LINES[lineIdx++]);
+      }, 300);
+      return {
+        // Roughly every 10 seconds of microphone audio the mock buyer replies.
+        sendAudio: () => {
+          chunksReceived++;
+          if (chunksReceived % 40 === 0) {
+            callbacks.onInputTranscript("(mock transcript of your answer) ");
+            speak(LIVE_BUYER_LINES[lineIdx++ % LIVE_BUYER_LINES.length]);
+          }
+        },
+        close: () => {
+          if (closed) return;
+          closed = true;
+          callbacks.onClose();
+        }
+      };
+    }
+  };
+};
@@ -0,0 +1,197 @@
+import {
+  LLMProvider,
+  ModelTier,
+  ProviderSettings,
+  GenerateRequest,
+  StructuredRequest,
+  ResponseSchema,
+  UnsupportedCapabilityError,
+  resolveModel
+} from "../llmProvider";
+import { ModelCallError } from "../modelCall";
+
+// Sensible defaults for api.openai.com; local servers override them through LLM_MODEL_* settings.
+const OPENAI_MODELS: Record<ModelTier, string> = {
+  reasoning: 'gpt-4.1',
+  fast: 'gpt-4.1-mini',
+  vision: 'gpt-4.1-mini',
+  image: 'gpt-image-1',
+  tts: 'gpt-4o-mini-tts',
+  live: '',
+  video: '',
+  embedding: 'text-embedding-3-small'
+};
+
+// The UI exposes Gemini prebuilt voices; map them to the closest OpenAI voice.
+const VOICE_MAP: Record<string, string> = {
+  Kore: 'onyx',
+  Puck: 'nova',
+  Charon: 'echo',
+  Zephyr: 'shimmer'
+};
+
+const IMAGE_SIZES: Record<string, string> = {
+  '1:1': '1024x1024',
+  '16:9': '1536x1024',
+  '9:16': '1024x1536'
+};
+
+/**
+ * Converts a Gemini-style schema (upper-case `Type` values) into standard JSON Schema.
+ */
+export const toJsonSchema = (schema: ResponseSchema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = String(schema.type).toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) out.required = schema.required;
+  return out;
+};
+
+const bytesToBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+export const createOpenAiCompatibleProvider = (settings: ProviderSettings): LLMProvider => {
+  const label = 'OpenAI-compatible';
+  const baseUrl = (settings.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const model = (tier: ModelTier) => resolveModel(OPENAI_MODELS, settings, tier);
+
+  const headers = () => {
+    const h: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) h.Authorization = `Bearer ${settings.apiKey}`;
+    return h;
+  };
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers: headers(), body: JSON.stringify(body), signal });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const error: any = new Error(`${label} request failed (${response.status}): ${detail.substring(0, 300)}`);
+      error.status = response.status;
+      throw error;
+    }
+    return response;
+  };
+
+  const buildMessages = (req: GenerateRequest) => {
+    const messages: any[] = [];
+    if (req.systemInstruction) messages.push({ role: 'system', content: req.systemInstruction });
+    (req.history || []).forEach(turn => messages.push({
+      role: turn.role === 'model' ? 'assistant' : 'user',
+      content: turn.text
+    }));
+    if (req.media?.length) {
+      messages.push({
+        role: 'user',
+        content: [
+          ...req.media.map(m => ({ type: 'image_url', image_url: { url: `data:${m.mimeType};base64,${m.data}` } })),
+          { type: 'text', text: req.prompt }
+        ]
+      });
+    } else {
+      messages.push({ role: 'user', content: req.prompt });
+    }
+    return messages;
+  };
+
+  const buildBody = (req: StructuredRequest, json: boolean, streamed: boolean) => {
+    const body: any = { model: model(req.tier), messages: buildMessages(req), stream: streamed };
+    if (req.temperature !== undefined) body.temperature = req.temperature;
+    if (json) {
+      body.response_format = req.schema
+        ? { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(req.schema) } }
+        : { type: 'json_object' };
+    }
+    return body;
+  };
+
+  const complete = async (req: StructuredRequest, json: boolean) => {
+    const response = await post('/chat/completions', buildBody(req, json, false), req.signal);
+    const data = await response.json();
+    if (data.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new ModelCallError('safety', req.task || req.tier, 'content_filter');
+    }
+    return data.choices?.[0]?.message?.content || "";
+  };
+
+  async function* stream(req: StructuredRequest, json: boolean): AsyncGenerator<string> {
+    const response = await post('/chat/completions', buildBody(req, json, true), req.signal);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+        try {
+          yield JSON.parse(payload).choices?.[0]?.delta?.content || "";
+        } catch (e) {
+          // Keep-alive comments and partial frames are skipped
+        }
+      }
+    }
+  }
+
+  return {
+    id: 'openai-compatible',
+    label,
+
+    generateText: (req) => complete(req, false),
+    streamText: (req) => stream(req, false),
+    generateJson: (req) => complete(req, true),
+    streamJson: (req) => stream(req, true),
+
+    async generateSpeech({ text, voiceName }) {
+      const response = await post('/audio/speech', {
+        model: model('tts'),
+        input: text,
+        voice: VOICE_MAP[voiceName] || 'alloy',
+        response_format: 'pcm' // 24kHz 16-bit mono, same as Gemini TTS
+      });
+      return bytesToBase64(await response.arrayBuffer());
+    },
+
+    async embed({ texts, signal }) {
+      const response = await post('/embeddings', { model: model('embedding'), input: texts }, signal);
+      const data = await response.json();
+      return (data.data || [])
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding as number[]);
+    },
+
+    async generateImage({ prompt, aspectRatio }) {
+      const response = await post('/images/generations', {
+        model: model('image'),
+        prompt,
+        n: 1,
+        size: IMAGE_SIZES[aspectRatio]
+      });
+      const data = await response.json();
+      const image = data.data?.[0];
+      if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+      return image?.url || null;
+    },
+
+    async startVideo() { throw new UnsupportedCapabilityError(label, 'video synthesis'); },
+    async pollVideo() { throw new UnsupportedCapabilityError(label, 'video synthesis'); },
+    async fetchVideo() { throw new UnsupportedCapabilityError(label, 'video synthesis'); },
+    async connectLive() { throw new UnsupportedCapabilityError(label, 'live audio sessions'); }
+  };
+};
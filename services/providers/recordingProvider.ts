@@ -0,0 +1,56 @@
+import { LLMProvider } from "../llmProvider";
+import { fixtureKey, saveFixture, FixtureKind } from "./fixtureStore";
+
+/**
+ * Wraps a live provider and stores every response as a fixture so the same session
+ * can later be replayed offline through the mock provider. Video and live audio
+ * pass straight through; they are simulated rather than replayed.
+ */
+export const withFixtureRecording = (inner: LLMProvider): LLMProvider => {
+  const record = (kind: FixtureKind, req: Parameters<typeof fixtureKey>[1], response: string | null) => {
+    if (response === null) return;
+    saveFixture({ key: fixtureKey(kind, req), kind, task: req.task, response, recordedAt: Date.now() });
+  };
+
+  async function* recordStream(kind: FixtureKind, req: Parameters<typeof fixtureKey>[1], source: AsyncGenerator<string>): AsyncGenerator<string> {
+    let full = "";
+    for await (const chunk of source) {
+      full += chunk;
+      yield chunk;
+    }
+    record(kind, req, full);
+  }
+
+  return {
+    ...inner,
+    label: `${inner.label} (recording)`,
+
+    async generateText(req) {
+      const text = await inner.generateText(req);
+      record('text', req, text);
+      return text;
+    },
+
+    streamText: (req) => recordStream('text', req, inner.streamText(req)),
+
+    async generateJson(req) {
+      const text = await inner.generateJson(req);
+      record('json', req, text);
+      return text;
+    },
+
+    streamJson: (req) => recordStream('json', req, inner.streamJson(req)),
+
+    async generateSpeech(req) {
+      const audio = await inner.generateSpeech(req);
+      record('speech', { task: 'speech', ...req }, audio);
+      return audio;
+    },
+
+    async generateImage(req) {
+      const image = await inner.generateImage(req);
+      record('image', { task: 'image', prompt: req.prompt }, image);
+      return image;
+    }
+  };
+};
@@ -0,0 +1,194 @@
+import { DocumentChunk, RetrievedPassage, SourceDocument } from "../types";
+import { getProvider } from "./providers";
+import { hashString } from "../utils/hash";
+
+/**
+ * In-browser retrieval over the active documents. Documents are split into overlapping
+ * chunks and ranked with BM25; when RETRIEVAL_EMBEDDINGS is enabled, provider embeddings
+ * are fused in with reciprocal rank fusion. Prompts receive only the top passages.
+ */
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 150;
+const BM25_K1 = 1.5;
+const BM25_B = 0.75;
+const RRF_K = 60;
+const EMBED_BATCH = 64;
+
+const EMBEDDINGS_ENABLED = process.env.RETRIEVAL_EMBEDDINGS === 'true';
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'are', 'was', 'were', 'our', 'your', 'their', 'from', 'into',
+  'about', 'will', 'would', 'could', 'should', 'have', 'has', 'had', 'not', 'but', 'can', 'its', 'how', 'what',
+  'why', 'who', 'which', 'when', 'where', 'there', 'been', 'being', 'also', 'than', 'then', 'them', 'they', 'you'
+]);
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(t => t.length > 1 && !STOP_WORDS.has(t))
+    // Light plural folding so "integrations" matches "integration"
+    .map(t => t.length > 3 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t);
+
+// Breaks oversized paragraphs at sentence ends, falling back to hard slices.
+// Pieces leave room for the overlap carried into the next chunk.
+const PIECE_SIZE = CHUNK_SIZE - CHUNK_OVERLAP;
+const splitLong = (paragraph: string): string[] => {
+  if (paragraph.length <= PIECE_SIZE) return [paragraph];
+  const sentences = paragraph.match(/[^.!?\n]+[.!?]*\s*/g) || [paragraph];
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > PIECE_SIZE) {
+      pieces.push(current);
+      current = "";
+    }
+    current += sentence;
+    while (current.length > PIECE_SIZE) {
+      pieces.push(current.slice(0, PIECE_SIZE));
+      current = current.slice(PIECE_SIZE);
+    }
+  }
+  if (current.trim()) pieces.push(current);
+  return pieces;
+};
+
+// Tail of the previous chunk, cut at a word boundary, so passages keep their lead-in.
+const overlapTail = (text: string) => {
+  const tail = text.slice(-CHUNK_OVERLAP);
+  const space = tail.indexOf(' ');
+  return space > 0 ? tail.slice(space + 1) : tail;
+};
+
+export const chunkDocument = (doc: SourceDocument): DocumentChunk[] => {
+  const docKey = hashString(doc.id || doc.name).substring(0, 8);
+  const paragraphs = doc.content.split(/\n\s*\n/).flatMap(p => splitLong(p.trim())).filter(Boolean);
+
+  const texts: string[] = [];
+  let current = "";
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > CHUNK_SIZE) {
+      texts.push(current);
+      current = overlapTail(current);
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current.trim()) texts.push(current);
+
+  return texts.map((text, ordinal) => ({ id: `${docKey}#${ordinal}`, source: doc.name, ordinal, text }));
+};
+
+export interface RetrievalIndex {
+  chunks: DocumentChunk[];
+  search: (query: string, k: number) => RetrievedPassage[];
+}
+
+export const createRetrievalIndex = (docs: SourceDocument[]): RetrievalIndex => {
+  const chunks = docs.flatMap(chunkDocument);
+  const termFreqs = chunks.map(chunk => {
+    const tf = new Map<string, number>();
+    tokenize(`${chunk.source} ${chunk.text}`).forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+    return tf;
+  });
+  const lengths = termFreqs.map(tf => [...tf.values()].reduce((a, b) => a + b, 0));
+  const avgLength = lengths.reduce((a, b) => a + b, 0) / (lengths.length || 1);
+
+  const docFreq = new Map<string, number>();
+  termFreqs.forEach(tf => tf.forEach((_, term) => docFreq.set(term, (docFreq.get(term) || 0) + 1)));
+
+  const idf = (term: string) => {
+    const n = docFreq.get(term) || 0;
+    return Math.log(1 + (chunks.length - n + 0.5) / (n + 0.5));
+  };
+
+  const search = (query: string, k: number): RetrievedPassage[] => {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+    return chunks
+      .map((chunk, i) => {
+        const tf = termFreqs[i];
+        const score = terms.reduce((sum, term) => {
+          const f = tf.get(term) || 0;
+          if (!f) return sum;
+          return sum + idf(term) * (f * (BM25_K1 + 1)) / (f + BM25_K1 * (1 - BM25_B + BM25_B * lengths[i] / avgLength));
+        }, 0);
+        return { chunk, score };
+      })
+      .filter(p => p.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  };
+
+  return { chunks, search };
+};
+
+// Chunk vectors keyed by id and content hash, so edited documents are re-embedded.
+const embeddingCache = new Map<string, number[]>();
+const embeddingKey = (chunk: DocumentChunk) => `${chunk.id}:${hashString(chunk.text)}`;
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+};
+
+const embedChunks = async (chunks: DocumentChunk[], signal?: AbortSignal) => {
+  const missing = chunks.filter(c => !embeddingCache.has(embeddingKey(c)));
+  for (let i = 0; i < missing.length; i += EMBED_BATCH) {
+    const batch = missing.slice(i, i + EMBED_BATCH);
+    const vectors = await getProvider().embed({ texts: batch.map(c => c.text), purpose: 'document', signal });
+    batch.forEach((c, j) => { if (vectors[j]) embeddingCache.set(embeddingKey(c), vectors[j]); });
+  }
+};
+
+const semanticSearch = async (index: RetrievalIndex, query: string, k: number, signal?: AbortSignal): Promise<RetrievedPassage[]> => {
+  await embedChunks(index.chunks, signal);
+  const [queryVector] = await getProvider().embed({ texts: [query], purpose: 'query', signal });
+  if (!queryVector) return [];
+  return index.chunks
+    .map(chunk => ({ chunk, score: cosine(queryVector, embeddingCache.get(embeddingKey(chunk)) || []) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+};
+
+// Reciprocal rank fusion: scores are rank-based, so BM25 and cosine scales never need reconciling.
+const fuse = (lists: RetrievedPassage[][], k: number): RetrievedPassage[] => {
+  const fused = new Map<string, RetrievedPassage>();
+  lists.forEach(list => list.forEach((p, rank) => {
+    const existing = fused.get(p.chunk.id);
+    fused.set(p.chunk.id, { chunk: p.chunk, score: (existing?.score || 0) + 1 / (RRF_K + rank + 1) });
+  }));
+  return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, k);
+};
+
+export interface RetrieveOptions {
+  k?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Top-k passages for a query. Embedding failures fall back to BM25 alone rather
+ * than failing the caller's step.
+ */
+export async function retrievePassages(index: RetrievalIndex, query: string, options: RetrieveOptions = {}): Promise<RetrievedPassage[]> {
+  const { k = 8, signal } = options;
+  let lexical = index.search(query, EMBEDDINGS_ENABLED ? k * 2 : k);
+  // Queries with no matching terms ("summarize this") still get the opening passages.
+  if (lexical.length === 0) lexical = index.chunks.slice(0, k).map(chunk => ({ chunk, score: 0 }));
+  if (!EMBEDDINGS_ENABLED || index.chunks.length === 0) return lexical;
+
+  try {
+    const semantic = await semanticSearch(index, query, k * 2, signal);
+    return fuse([lexical, semantic], k);
+  } catch (error) {
+    console.warn("Embedding retrieval unavailable, using BM25 only:", error);
+    return lexical.slice(0, k);
+  }
+}
+
+// Passages as they appear in prompts; the bracketed chunk id is stable and citable.
+export const formatPassages = (passages: RetrievedPassage[]): string =>
+  passages.map(({ chunk }) => `[${chunk.id}] FILE: ${chunk.source}\n${chunk.text}`).join('\n\n');
@@ -0,0 +1,156 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  Timestamp
+} from "firebase/firestore";
+import { Workspace, WorkspaceRole } from "../types";
+import { getAuthInstance, getDbInstance } from "./firebaseService";
+
+/**
+ * Team workspaces. Each workspace document keeps its members and pending invites as maps
+ * plus matching id/email arrays, which the list queries and firestore.rules rely on.
+ * Owners manage membership; invited users join by accepting, and members may leave.
+ */
+
+const WORKSPACES_COLLECTION = "cognitive_workspaces";
+// Remembered per user, so each person on a shared browser returns to their own workspace
+const ACTIVE_WORKSPACE_KEY = "cognitive_active_workspace";
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const toWorkspace = (id: string, data: any): Workspace => ({
+  id,
+  name: data.name || 'Untitled Workspace',
+  ownerId: data.ownerId,
+  members: data.members || {},
+  memberEmails: data.memberEmails || {},
+  invites: data.invites || {},
+  createdAt: data.createdAt?.toMillis() || Date.now()
+});
+
+// The arrays are derived on every write so they can never drift from the maps
+const membershipFields = (members: Record<string, WorkspaceRole>, memberEmails: Record<string, string>, invites: Record<string, WorkspaceRole>) => ({
+  members,
+  memberIds: Object.keys(members),
+  memberEmails,
+  invites,
+  inviteEmails: Object.keys(invites)
+});
+
+const currentUser = () => getAuthInstance()?.currentUser || null;
+
+export const roleIn = (workspace: Workspace, uid?: string): WorkspaceRole | null =>
+  (uid && workspace.members[uid]) || null;
+
+export const fetchWorkspaces = async (): Promise<Workspace[]> => {
+  const db = getDbInstance();
+  const user = currentUser();
+  if (!db || !user) return [];
+  try {
+    const snapshot = await getDocs(query(collection(db, WORKSPACES_COLLECTION), where("memberIds", "array-contains", user.uid)));
+    return snapshot.docs.map(d => toWorkspace(d.id, d.data())).sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Fetch workspaces failed:", error);
+    return [];
+  }
+};
+
+/** Workspaces the signed-in user has been invited to but not yet joined. */
+export const fetchWorkspaceInvites = async (): Promise<Workspace[]> => {
+  const db = getDbInstance();
+  const user = currentUser();
+  if (!db || !user?.email || !user.emailVerified) return [];
+  try {
+    const snapshot = await getDocs(query(collection(db, WORKSPACES_COLLECTION), where("inviteEmails", "array-contains", normalizeEmail(user.email))));
+    return snapshot.docs.map(d => toWorkspace(d.id, d.data()));
+  } catch (error) {
+    console.error("Fetch workspace invites failed:", error);
+    return [];
+  }
+};
+
+export const createWorkspace = async (name: string): Promise<Workspace | null> => {
+  const db = getDbInstance();
+  const user = currentUser();
+  if (!db || !user || !name.trim()) return null;
+  try {
+    const ref = doc(collection(db, WORKSPACES_COLLECTION));
+    const now = Timestamp.now();
+    const data = {
+      name: name.trim(),
+      ownerId: user.uid,
+      ...membershipFields({ [user.uid]: 'owner' }, { [user.uid]: user.email || '' }, {}),
+      createdAt: now
+    };
+    await setDoc(ref, data);
+    return toWorkspace(ref.id, data);
+  } catch (error) {
+    console.error("Create workspace failed:", error);
+    return null;
+  }
+};
+
+const writeMembership = async (workspace: Workspace, members: Record<string, WorkspaceRole>, memberEmails: Record<string, string>, invites: Record<string, WorkspaceRole>): Promise<boolean> => {
+  const db = getDbInstance();
+  if (!db || !currentUser()) return false;
+  try {
+    await updateDoc(doc(db, WORKSPACES_COLLECTION, workspace.id), membershipFields(members, memberEmails, invites));
+    return true;
+  } catch (error) {
+    console.error("Update workspace membership failed:", error);
+    return false;
+  }
+};
+
+const without = <T>(map: Record<string, T>, key: string): Record<string, T> => {
+  const { [key]: _, ...rest } = map;
+  return rest;
+};
+
+// Owner only; the invitee joins when they accept
+export const inviteToWorkspace = (workspace: Workspace, email: string, role: WorkspaceRole) => {
+  const address = normalizeEmail(email);
+  if (!address.includes('@')) return Promise.resolve(false);
+  return writeMembership(workspace, workspace.members, workspace.memberEmails, { ...workspace.invites, [address]: role });
+};
+
+export const revokeWorkspaceInvite = (workspace: Workspace, email: string) =>
+  writeMembership(workspace, workspace.members, workspace.memberEmails, without(workspace.invites, email));
+
+export const setWorkspaceRole = (workspace: Workspace, uid: string, role: WorkspaceRole) =>
+  uid === workspace.ownerId ? Promise.resolve(false) : writeMembership(workspace, { ...workspace.members, [uid]: role }, workspace.memberEmails, workspace.invites);
+
+export const removeWorkspaceMember = (workspace: Workspace, uid: string) =>
+  uid === workspace.ownerId
+    ? Promise.resolve(false)
+    : writeMembership(workspace, without(workspace.members, uid), without(workspace.memberEmails, uid), workspace.invites);
+
+export const acceptWorkspaceInvite = (workspace: Workspace) => {
+  const user = currentUser();
+  const email = user?.email ? normalizeEmail(user.email) : '';
+  const role = workspace.invites[email];
+  // Anyone can register an unused address, so only a verified one may claim its invite
+  if (!user || !user.emailVerified || !role) return Promise.resolve(false);
+  return writeMembership(workspace, { ...workspace.members, [user.uid]: role }, { ...workspace.memberEmails, [user.uid]: email }, without(workspace.invites, email));
+};
+
+export const leaveWorkspace = (workspace: Workspace) => {
+  const user = currentUser();
+  if (!user || user.uid === workspace.ownerId) return Promise.resolve(false);
+  return writeMembership(workspace, without(workspace.members, user.uid), without(workspace.memberEmails, user.uid), workspace.invites);
+};
+
+export const rememberActiveWorkspace = (uid: string, workspaceId: string | null) => {
+  if (workspaceId) localStorage.setItem(`${ACTIVE_WORKSPACE_KEY}_${uid}`, workspaceId);
+  else localStorage.removeItem(`${ACTIVE_WORKSPACE_KEY}_${uid}`);
+};
+
+export const rememberedActiveWorkspace = (uid: string): string | null =>
+  localStorage.getItem(`${ACTIVE_WORKSPACE_KEY}_${uid}`);
@@ -0,0 +1,146 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+
+/**
+ * firestore.rules against the Firestore emulator. Run with `npm run test:rules`, which
+ * starts the emulator, runs these tests and shuts it down again.
+ */
+
+const WORKSPACE = 'cognitive_workspaces/team';
+const INVITED_EMAIL = 'new@example.com';
+
+type Role = 'owner' | 'editor' | 'viewer';
+
+// Mirrors membershipFields in services/workspaceService.ts
+const membership = (members: Record<string, Role>, invites: Record<string, Role>) => ({
+  members,
+  memberIds: Object.keys(members),
+  memberEmails: Object.fromEntries(Object.keys(members).map(uid => [uid, `${uid}@example.com`])),
+  invites,
+  inviteEmails: Object.keys(invites)
+});
+
+const workspace = (members: Record<string, Role>, invites: Record<string, Role>) => ({
+  name: 'Team',
+  ownerId: 'owner',
+  createdAt: 1,
+  ...membership(members, invites)
+});
+
+const TEAM_MEMBERS: Record<string, Role> = { owner: 'owner', editor: 'editor', viewer: 'viewer' };
+const TEAM = workspace(TEAM_MEMBERS, { [INVITED_EMAIL]: 'viewer' });
+
+let env: RulesTestEnvironment;
+
+const as = (uid: string, email = `${uid}@example.com`, verified = true) =>
+  env.authenticatedContext(uid, { email, email_verified: verified }).firestore();
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-cognitive-sales',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+  });
+});
+
+afterAll(() => env?.cleanup());
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async context => {
+    const db = context.firestore();
+    await db.doc(WORKSPACE).set(TEAM);
+    await db.doc('cognitive_documents/teamDoc').set({ workspaceId: 'team', createdBy: 'editor', name: 'RFP.pdf', content: 'x' });
+    await db.doc('cognitive_documents/aliceDoc').set({ userId: 'alice', name: 'Notes.txt', content: 'x' });
+    await db.doc('cognitive_documents/aliceDoc/revisions/000001').set({ userId: 'alice', revision: 1, diffChunks: 1 });
+    await db.doc('cognitive_analyses/teamThread').set({ workspaceId: 'team', createdBy: 'editor', clientCompany: 'Acme', versionCount: 1 });
+  });
+});
+
+describe('workspace roles', () => {
+  it('lets editors write and denies viewers', async () => {
+    await assertSucceeds(as('editor').doc('cognitive_documents/new').set({ workspaceId: 'team', createdBy: 'editor', name: 'a', content: 'x' }));
+    await assertFails(as('viewer').doc('cognitive_documents/new').set({ workspaceId: 'team', createdBy: 'viewer', name: 'a', content: 'x' }));
+    await assertFails(as('viewer').doc('cognitive_documents/teamDoc').update({ content: 'changed' }));
+    await assertFails(as('viewer').doc('cognitive_documents/teamDoc').delete());
+  });
+
+  it('denies reads to non-members', async () => {
+    await assertSucceeds(as('viewer').doc('cognitive_documents/teamDoc').get());
+    await assertFails(as('stranger').doc('cognitive_documents/teamDoc').get());
+    await assertFails(as('stranger').doc('cognitive_documents/aliceDoc').get());
+    await assertFails(as('stranger').doc(WORKSPACE).get());
+    await assertFails(env.unauthenticatedContext().firestore().doc('cognitive_documents/teamDoc').get());
+  });
+});
+
+describe('workspace membership', () => {
+  const accepted = (role: Role, email = INVITED_EMAIL) => {
+    const data = workspace({ ...TEAM_MEMBERS, newbie: role }, {});
+    return { ...data, memberEmails: { ...data.memberEmails, newbie: email } };
+  };
+
+  it('lets a verified invitee accept with the invited role', async () => {
+    await assertSucceeds(as('newbie', INVITED_EMAIL).doc(WORKSPACE).set(accepted('viewer')));
+  });
+
+  it('denies accepting from an unverified address', async () => {
+    await assertFails(as('newbie', INVITED_EMAIL, false).doc(WORKSPACE).get());
+    await assertFails(as('newbie', INVITED_EMAIL, false).doc(WORKSPACE).set(accepted('viewer')));
+  });
+
+  it('denies accepting with a higher role or another address', async () => {
+    await assertFails(as('newbie', INVITED_EMAIL).doc(WORKSPACE).set(accepted('owner')));
+    await assertFails(as('newbie', INVITED_EMAIL).doc(WORKSPACE).set(accepted('viewer', 'someone-else@example.com')));
+  });
+
+  it('lets a member leave', async () => {
+    const { viewer, ...rest } = TEAM_MEMBERS;
+    await assertSucceeds(as('viewer').doc(WORKSPACE).set(workspace(rest, TEAM.invites)));
+  });
+
+  it('denies self-promotion', async () => {
+    await assertFails(as('viewer').doc(WORKSPACE).set(workspace({ ...TEAM_MEMBERS, viewer: 'editor' }, TEAM.invites)));
+    await assertFails(as('editor').doc(WORKSPACE).set(workspace({ ...TEAM_MEMBERS, editor: 'owner' }, TEAM.invites)));
+  });
+
+  it('lets the owner change roles', async () => {
+    await assertSucceeds(as('owner').doc(WORKSPACE).set(workspace({ ...TEAM_MEMBERS, viewer: 'editor' }, TEAM.invites)));
+  });
+});
+
+describe('record ownership', () => {
+  it('denies moving a record between workspaces or users', async () => {
+    await assertSucceeds(as('editor').doc('cognitive_documents/teamDoc').update({ content: 'changed' }));
+    await assertFails(as('editor').doc('cognitive_documents/teamDoc').update({ workspaceId: 'other' }));
+    await assertFails(as('alice').doc('cognitive_documents/aliceDoc').update({ userId: 'bob' }));
+    await assertFails(as('alice').doc('cognitive_documents/aliceDoc').set({ workspaceId: 'team', createdBy: 'alice', name: 'Notes.txt', content: 'x' }));
+  });
+
+  it("denies planting chunks or revisions under someone else's document", async () => {
+    const aliceDoc = 'cognitive_documents/aliceDoc';
+    await assertSucceeds(as('alice').doc(`${aliceDoc}/chunks/0`).set({ userId: 'alice', index: 0, text: 'x' }));
+    await assertSucceeds(as('alice').doc(`${aliceDoc}/revisions/000002`).set({ userId: 'alice', revision: 2 }));
+    await assertSucceeds(as('alice').doc(`${aliceDoc}/revisions/000001/chunks/0`).set({ userId: 'alice', index: 0, text: '[]' }));
+    await assertFails(as('stranger').doc(`${aliceDoc}/chunks/0`).set({ userId: 'stranger', index: 0, text: 'x' }));
+    await assertFails(as('stranger').doc(`${aliceDoc}/revisions/000002`).set({ userId: 'stranger', revision: 2 }));
+    await assertFails(as('stranger').doc(`${aliceDoc}/revisions/000001/chunks/0`).set({ userId: 'stranger', index: 0, text: '[]' }));
+    await assertFails(as('editor').doc('cognitive_documents/teamDoc/revisions/000001').set({ userId: 'editor', revision: 1 }));
+    // A new document's chunks go in before its listing entry
+    await assertSucceeds(as('alice').doc('cognitive_documents/notYetSaved/chunks/0').set({ userId: 'alice', index: 0, text: 'x' }));
+  });
+
+  it("keeps a thread's author when another editor appends to it", async () => {
+    await assertSucceeds(as('owner').doc('cognitive_analyses/teamThread').set({ versionCount: 2 }, { merge: true }));
+    await assertFails(as('owner').doc('cognitive_analyses/teamThread').set({ createdBy: 'owner', versionCount: 2 }, { merge: true }));
+    await assertSucceeds(as('owner').doc('cognitive_analyses/newThread').get());
+    await assertFails(as('stranger').doc('cognitive_analyses/teamThread').get());
+  });
+
+  it("requires a version to match its thread's owner", async () => {
+    const versions = 'cognitive_analyses/teamThread/versions';
+    await assertSucceeds(as('editor').doc(`${versions}/v1`).set({ workspaceId: 'team', createdBy: 'editor', resultJson: '{}', contextJson: '{}' }));
+    await assertFails(as('editor').doc(`${versions}/v2`).set({ userId: 'editor', resultJson: '{}', contextJson: '{}' }));
+    await assertFails(as('alice').doc(`${versions}/v3`).set({ userId: 'alice', resultJson: '{}', contextJson: '{}' }));
+  });
+});
@@ -2,14 +2,40 @@
 export interface Citation {
   snippet: string;
   sourceFile: string;
+  check?: CitationCheck; // attached by the citation verifier, never by the model
 }
 
-export interface PriorityItem {
+// Anything a user can click to open its source: analysis citations use sourceFile, search citations use source
+export interface CitationRef {
+  snippet: string;
+  sourceFile?: string;
+  source?: string;
+  check?: CitationCheck;
+}
+
+export type CitationStatus = 'verified' | 'approximate' | 'misattributed' | 'unverified';
+
+export interface CitationCheck {
+  status: CitationStatus;
+  score: number; // share of the snippet's words found in order, 0..1
+  matchedFile?: string; // document the passage was actually found in
+  start?: number; // character offsets into matchedFile's text
+  end?: number;
+  location?: string; // page or slide holding the passage, e.g. "Slide 4"
+}
+
+// Who said it and when, for items grounded in a call transcript
+export interface SpeakerAttribution {
+  speaker?: string;
+  timestamp?: string; // HH:MM:SS from the start of the call
+}
+
+export interface PriorityItem extends SpeakerAttribution {
   text: string;
   citation: Citation;
 }
 
-export interface ObjectionItem {
+export interface ObjectionItem extends SpeakerAttribution {
   text: string;
   citation: Citation;
 }
@@ -34,8 +60,17 @@ export interface DocumentSummary {
   criticalInsights: string[];
 }
 
+// A rival the team sells against, managed in the meeting configuration
+export interface CompetitorProfile {
+  id: string;
+  name: string;
+  positioning: string; // How they present themselves in this market
+  battlecardNotes: string; // Our known counters and talking points
+}
+
 export interface CompetitorInsight {
   name: string;
+  source: 'roster' | 'discovered'; // Configured by the team or found in the documents
   overview: string;
   threatProfile: 'Direct' | 'Indirect' | 'Niche';
   strengths: string[];
@@ -49,7 +84,7 @@ export interface CompetitorInsight {
 export interface BuyerSnapshot {
   role: string;
   roleCitation: Citation;
-  roleConfidence: number;
+  roleConfidence?: number;
   priorities: PriorityItem[];
   likelyObjections: ObjectionItem[];
   decisionStyle: string;
@@ -114,11 +149,7 @@ export interface AnalysisResult {
     materialSynthesis: string;
   };
   groundMatrix: MatrixItem[];
-  competitiveHub: {
-    cognigy: CompetitorInsight;
-    amelia: CompetitorInsight;
-    others: CompetitorInsight[];
-  };
+  competitiveHub: CompetitorInsight[]; // Roster competitors first, in roster order
   openingLines: OpeningLine[];
   predictedQuestions: QuestionPair[];
   strategicQuestionsToAsk: StrategicQuestion[];
@@ -141,20 +172,159 @@ export interface AnalysisResult {
   };
 }
 
+export interface CognitiveSearchResult {
+  answer: string;
+  cognitiveShot: string; // High-impact concise summary
+  briefExplanation: string;
+  articularSoundbite: string; 
+  psychologicalProjection: {
+    buyerFear: string;
+    buyerIncentive: string;
+    strategicLever: string;
+  };
+  citations: { snippet: string; source: string; check?: CitationCheck }[];
+  reasoningChain: {
+    painPoint: string;
+    capability: string;
+    strategicValue: string;
+  };
+}
+
+// Model Output Validation Types
+export type ValidationSeverity = 'repaired' | 'defaulted' | 'dropped';
+
+export interface ValidationIssue {
+  path: string; // e.g. "snapshot.priorities[2].citation.sourceFile"
+  problem: string;
+  severity: ValidationSeverity;
+}
+
+export interface Validated<T> {
+  value: T;
+  issues: ValidationIssue[];
+}
+
 export interface UploadedFile {
   name: string;
   content: string;
   type: string;
-  status: 'processing' | 'ready' | 'error' | 'ocr';
+  status: 'processing' | 'ready' | 'error' | 'ocr' | 'duplicate';
+  error?: string; // Which step failed and why, when status is 'error'
+  metadata?: DocumentMetadata;
+  pages?: PageStatus[]; // PDF progress, one entry per page
+  duplicateOf?: DuplicateMatch; // set with status 'duplicate' until the user picks merge, replace or keep both
+}
+
+export interface DuplicateMatch {
+  id?: string; // library id; absent when the match is another unsaved upload
+  name: string;
+  similarity: number;
+  exact: boolean;
 }
 
-export interface StoredDocument {
+// 'text' pages had a usable text layer; the rest go through OCR
+export type PageStatus = 'text' | 'queued' | 'ocr' | 'cached' | 'done' | 'failed';
+
+// Provenance captured at parse time, e.g. the page a saved HTML file came from
+export interface DocumentMetadata {
+  title?: string;
+  sourceUrl?: string;
+  pageCount?: number;
+  ocrPages?: number[]; // PDF pages whose text came from OCR
+  aliases?: string[]; // other file names merged into or replaced by this document
+}
+
+export type DocumentKind = 'RFP' | 'Transcript' | 'Annual Report' | 'Proposal' | 'Contract' | 'Email Thread' | 'Presentation' | 'Web Page' | 'Spreadsheet' | 'Notes' | 'Other';
+
+// How a library document is filed; every field is user-editable
+export interface DocumentOrganization {
+  tags?: string[];
+  account?: string; // Client or account the document belongs to
+  kind?: DocumentKind;
+  folder?: string;
+}
+
+export interface StoredDocument extends DocumentOrganization {
   id: string;
   name: string;
   content: string;
   timestamp: number;
   updatedAt?: number;
   type: string;
+  metadata?: DocumentMetadata;
+  contentHash?: string; // fingerprint of the normalized text, for duplicate checks
+  contentSignature?: number[]; // MinHash of the text for near-duplicate checks before it loads; empty for short texts
+  // Set when the text is stored in chunks; `content` stays empty until the document is loaded
+  contentChunks?: number;
+  contentLength?: number;
+  preview?: string; // opening characters, available before the text is loaded
+  // Local changes not yet in the cloud library; conflicts wait for the user to pick a side
+  syncState?: 'pending' | 'conflict';
+  conflictReason?: 'modified' | 'deleted' | 'rejected'; // what happened to the cloud copy meanwhile, or that the cloud refused the change
+  revision?: number; // saved edits so far; 0 is the text as first uploaded
+}
+
+// Line-level edit script from one revision's text to the next
+export type LineDiffOp = { keep: number } | { remove: string[] } | { add: string[] };
+
+// One saved edit to a library document's text
+export interface DocumentRevision {
+  id: string;
+  revision: number; // 1 is the first edit after upload
+  author: string; // email of whoever saved it
+  createdAt: number;
+  diff: LineDiffOp[]; // from revision - 1 to this revision
+  added: number; // lines
+  removed: number;
+  textHash: string; // hash of the exact text after this edit, to check reconstruction
+  revertedFrom?: number; // set when the edit restored an earlier revision
+}
+
+// One document an analysis was built from, fingerprinted so a stale brief can be detected
+export interface SourceRevision {
+  id?: string; // library id; session uploads have none
+  name: string;
+  revision: number; // always 0 for session uploads
+  contentHash?: string; // of the exact text analysed; absent on versions saved before it was recorded
+}
+
+// The inputs a brief was generated from
+export interface AnalysisProvenance {
+  sources: SourceRevision[];
+  context: MeetingContext;
+}
+
+// Why a brief no longer matches its inputs
+export interface StaleChange {
+  kind: 'added' | 'removed' | 'edited' | 'context';
+  label: string; // document name or context field
+  detail?: string;
+}
+
+// A sender or recipient found in ingested email
+export interface EmailParticipant {
+  name: string;
+  email: string;
+}
+
+// Retrieval index over the active documents
+export interface SourceDocument {
+  id?: string; // library id; session uploads have none
+  name: string;
+  content: string;
+  revision?: number; // library revision the content was read at
+}
+
+export interface DocumentChunk {
+  id: string; // stable across sessions: hash of the document key plus ordinal
+  source: string;
+  ordinal: number;
+  text: string;
+}
+
+export interface RetrievedPassage {
+  chunk: DocumentChunk;
+  score: number;
 }
 
 export type CustomerPersonaType = 'Balanced' | 'Technical' | 'Financial' | 'Business Executives';
@@ -173,11 +343,79 @@ export interface MeetingContext {
   answerStyles: string[];
   executiveSnapshot: string;
   strategicKeywords: string[];
+  competitors: CompetitorProfile[];
   baseSystemPrompt: string;
   thinkingLevel: ThinkingLevel;
   temperature: number;
 }
 
+// Saved analyses: one thread per user, client company and source-document set
+export interface AnalysisThread {
+  id: string;
+  clientCompany: string;
+  sourceDocuments: string[];
+  sourceDocumentIds: string[];
+  versionCount: number;
+  updatedAt: number;
+}
+
+export interface AnalysisVersion {
+  id: string;
+  threadId: string;
+  result: AnalysisResult;
+  context: MeetingContext;
+  createdAt: number;
+  sourceRevisions?: SourceRevision[]; // absent on versions saved before revisions
+}
+
+// Shared libraries for a team; members are keyed by uid, pending invites by lowercase email
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string; // creator; always an owner and can't be removed
+  members: Record<string, WorkspaceRole>;
+  memberEmails: Record<string, string>; // uid to email, for display
+  invites: Record<string, WorkspaceRole>;
+  createdAt: number;
+}
+
+// Semantic diff between two analyses
+export type DiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface DiffEntry<T> {
+  status: DiffStatus;
+  before?: T;
+  after?: T;
+  similarity: number; // 0..1 between the aligned keys
+  changedFields: string[];
+}
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface MetricDelta {
+  key: keyof BuyerSnapshot['metrics'];
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface AnalysisDiff {
+  snapshotFields: FieldChange[];
+  metrics: MetricDelta[];
+  priorities: DiffEntry<PriorityItem>[];
+  likelyObjections: DiffEntry<ObjectionItem>[];
+  objectionHandling: DiffEntry<ObjectionPair>[];
+  openingLines: DiffEntry<OpeningLine>[];
+}
+
 // Assessment Lab Types
 export type QuestionType = 'mcq' | 'short' | 'long' | 'mic';
 
@@ -204,6 +442,16 @@ export interface AssessmentResult {
   timeSpent: number; // Seconds spent on this specific question
 }
 
+// A graded assessment, kept so it can be reviewed or exported later
+export interface AssessmentSession {
+  id: string;
+  sourceDocuments: string[];
+  sourceDocumentIds: string[];
+  questions: AssessmentQuestion[];
+  results: AssessmentResult[];
+  createdAt: number;
+}
+
 // Sales GPT Types
 export type GPTToolMode = 'standard' | 'pineapple' | 'deep-study' | 'cognitive';
 
@@ -227,3 +475,13 @@ export interface GroomingEvaluation {
   idealWording: string;
   correctionExplanation: string;
 }
+
+export interface CoachingAdvice {
+  voiceTone: string;
+  openingManeuver: string;
+  answerStrategy: string;
+  handMovements: string;
+  bodyLanguage: string;
+  eyeExpression: string;
+  tacticalClosing: string;
+}
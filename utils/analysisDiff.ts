@@ -0,0 +1,124 @@
+import { AnalysisDiff, AnalysisResult, BuyerSnapshot, DiffEntry, FieldChange, MetricDelta } from "../types";
+
+/**
+ * Semantic diff between two analyses. List items are aligned by word overlap rather
+ * than position, so a reworded objection shows up as modified instead of removed + added.
+ */
+
+// Below this overlap two items are treated as unrelated.
+const MATCH_THRESHOLD = 0.4;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'are', 'was', 'our', 'your', 'their', 'they', 'from',
+  'into', 'about', 'will', 'would', 'could', 'should', 'have', 'has', 'not', 'but', 'can', 'its', 'how', 'what', 'why'
+]);
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+const tokens = (value: string) => new Set(normalize(value).split(' ').filter(w => w.length > 2 && !STOP_WORDS.has(w)));
+
+// Dice coefficient over content words; identical normalized text always scores 1.
+export const textSimilarity = (a: string, b: string): number => {
+  if (normalize(a) === normalize(b)) return 1;
+  const ta = tokens(a), tb = tokens(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(t => { if (tb.has(t)) shared++; });
+  return (2 * shared) / (ta.size + tb.size);
+};
+
+/**
+ * Greedily pairs the most similar items first. Output follows the newer list's order,
+ * with removed items placed after the entry that preceded them in the older list.
+ */
+export const alignItems = <T>(before: T[], after: T[], key: (item: T) => string, fields: (keyof T & string)[]): DiffEntry<T>[] => {
+  const pairs: { i: number; j: number; score: number }[] = [];
+  before.forEach((b, i) => after.forEach((a, j) => {
+    const score = textSimilarity(key(b), key(a));
+    if (score >= MATCH_THRESHOLD) pairs.push({ i, j, score });
+  }));
+  pairs.sort((x, y) => y.score - x.score || x.i - y.i);
+
+  const matchOfAfter = new Map<number, { i: number; score: number }>();
+  const matchedBefore = new Set<number>();
+  for (const p of pairs) {
+    if (matchedBefore.has(p.i) || matchOfAfter.has(p.j)) continue;
+    matchedBefore.add(p.i);
+    matchOfAfter.set(p.j, { i: p.i, score: p.score });
+  }
+
+  const removedAfter = new Map<number, number[]>(); // after index (-1 = start) -> removed before indices
+  let anchor = -1;
+  before.forEach((_, i) => {
+    const j = [...matchOfAfter.entries()].find(([, m]) => m.i === i)?.[0];
+    if (j !== undefined) {
+      anchor = j;
+    } else {
+      removedAfter.set(anchor, [...(removedAfter.get(anchor) || []), i]);
+    }
+  });
+
+  const removed = (j: number): DiffEntry<T>[] => (removedAfter.get(j) || [])
+    .map(i => ({ status: 'removed', before: before[i], similarity: 0, changedFields: [] }));
+
+  const entries: DiffEntry<T>[] = removed(-1);
+  after.forEach((item, j) => {
+    const match = matchOfAfter.get(j);
+    if (!match) {
+      entries.push({ status: 'added', after: item, similarity: 0, changedFields: [] });
+    } else {
+      const previous = before[match.i];
+      const changedFields = fields.filter(f => normalize(String(previous[f] ?? '')) !== normalize(String(item[f] ?? '')));
+      entries.push({
+        status: changedFields.length === 0 ? 'unchanged' : 'modified',
+        before: previous,
+        after: item,
+        similarity: match.score,
+        changedFields
+      });
+    }
+    entries.push(...removed(j));
+  });
+  return entries;
+};
+
+const SNAPSHOT_FIELDS: { field: keyof BuyerSnapshot; label: string }[] = [
+  { field: 'role', label: 'Role' },
+  { field: 'personaIdentity', label: 'Persona Identity' },
+  { field: 'decisionStyle', label: 'Decision Style' },
+  { field: 'decisionLogic', label: 'Decision Logic' },
+  { field: 'riskTolerance', label: 'Risk Tolerance' },
+  { field: 'tone', label: 'Tone' }
+];
+
+export const METRIC_LABELS: Record<keyof BuyerSnapshot['metrics'], string> = {
+  riskToleranceValue: "Risk Tolerance",
+  strategicPriorityFocus: "Strategic Focus",
+  analyticalDepth: "Analytical Depth",
+  directness: "Directness",
+  innovationAppetite: "Innovation"
+};
+
+export const diffAnalyses = (before: AnalysisResult, after: AnalysisResult): AnalysisDiff => {
+  const snapshotFields: FieldChange[] = SNAPSHOT_FIELDS
+    .filter(({ field }) => normalize(String(before.snapshot[field])) !== normalize(String(after.snapshot[field])))
+    .map(({ field, label }) => ({ field, label, before: String(before.snapshot[field]), after: String(after.snapshot[field]) }));
+
+  const metrics: MetricDelta[] = (Object.keys(METRIC_LABELS) as (keyof BuyerSnapshot['metrics'])[]).map(key => ({
+    key,
+    label: METRIC_LABELS[key],
+    before: before.snapshot.metrics[key],
+    after: after.snapshot.metrics[key],
+    delta: after.snapshot.metrics[key] - before.snapshot.metrics[key]
+  }));
+
+  return {
+    snapshotFields,
+    metrics,
+    priorities: alignItems(before.snapshot.priorities, after.snapshot.priorities, p => p.text, ['text']),
+    likelyObjections: alignItems(before.snapshot.likelyObjections, after.snapshot.likelyObjections, o => o.text, ['text']),
+    objectionHandling: alignItems(before.objectionHandling, after.objectionHandling, o => o.objection,
+      ['objection', 'realMeaning', 'strategy', 'exactWording', 'empathyTip', 'valueTip']),
+    openingLines: alignItems(before.openingLines, after.openingLines, o => o.text, ['text', 'label'])
+  };
+};
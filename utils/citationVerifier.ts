@@ -0,0 +1,173 @@
+import { CitationCheck, CitationStatus, SourceDocument } from "../types";
+import { formatLocation, locationAt } from "./documentMarkers";
+
+/**
+ * Checks model citations against the real document text. Snippets are matched word
+ * by word, ignoring case, punctuation and whitespace. A near-verbatim quote still
+ * matches, and the character offsets of the passage are recorded.
+ */
+
+// Share of snippet words that must be found, in order, within one window.
+const VERIFIED_SCORE = 0.9;
+const APPROXIMATE_SCORE = 0.6;
+// Extra window length allowed for words the model dropped or inserted.
+const WINDOW_SLACK = 0.25;
+// Fuzzy search anchors on the snippet's rarest words to keep candidate windows few.
+const ANCHOR_WORDS = 4;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface DocIndex {
+  doc: SourceDocument;
+  tokens: Token[];
+  positions: Map<string, number[]>;
+}
+
+interface Match {
+  score: number;
+  start: number;
+  end: number;
+}
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), m => ({ word: m[0].toLowerCase(), start: m.index!, end: m.index! + m[0].length }));
+
+const indexDocument = (doc: SourceDocument): DocIndex => {
+  const tokens = tokenize(doc.content);
+  const positions = new Map<string, number[]>();
+  tokens.forEach((t, i) => {
+    const list = positions.get(t.word);
+    if (list) list.push(i); else positions.set(t.word, [i]);
+  });
+  return { doc, tokens, positions };
+};
+
+// Counts snippet words found in order inside the window and where the first and last landed.
+const scoreWindow = (words: string[], tokens: Token[], from: number, to: number): Match | null => {
+  let cursor = Math.max(0, from);
+  let matched = 0;
+  let first = -1, last = -1;
+  for (const word of words) {
+    for (let i = cursor; i < Math.min(to, tokens.length); i++) {
+      if (tokens[i].word === word) {
+        matched++;
+        if (first < 0) first = i;
+        last = i;
+        cursor = i + 1;
+        break;
+      }
+    }
+  }
+  if (first < 0) return null;
+  return { score: matched / words.length, start: tokens[first].start, end: tokens[last].end };
+};
+
+const locate = (snippet: string, index: DocIndex): Match | null => {
+  const words = tokenize(snippet).map(t => t.word);
+  if (words.length === 0) return null;
+  const span = Math.ceil(words.length * (1 + WINDOW_SLACK));
+
+  const anchors = words
+    .map((word, offset) => ({ offset, hits: index.positions.get(word) || [] }))
+    .filter(a => a.hits.length > 0)
+    .sort((a, b) => a.hits.length - b.hits.length)
+    .slice(0, ANCHOR_WORDS);
+
+  const starts = new Set<number>();
+  anchors.forEach(a => a.hits.forEach(pos => starts.add(Math.max(0, pos - a.offset))));
+
+  let best: Match | null = null;
+  for (const start of starts) {
+    const match = scoreWindow(words, index.tokens, start, start + span);
+    if (match && (!best || match.score > best.score)) best = match;
+    if (best?.score === 1) break;
+  }
+  return best;
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// Models often shorten or decorate file names, so a containment match also counts.
+const findClaimed = (sourceFile: string, indexes: DocIndex[]): DocIndex | undefined => {
+  const claimed = normalizeName(sourceFile);
+  if (!claimed) return undefined;
+  return indexes.find(i => normalizeName(i.doc.name) === claimed)
+    || indexes.find(i => normalizeName(i.doc.name).includes(claimed) || claimed.includes(normalizeName(i.doc.name)));
+};
+
+const statusFor = (score: number): CitationStatus => score >= VERIFIED_SCORE ? 'verified' : 'approximate';
+
+const found = (status: CitationStatus, index: DocIndex, match: Match): CitationCheck => {
+  const location = locationAt(index.doc.content, match.start);
+  return {
+    status,
+    score: match.score,
+    matchedFile: index.doc.name,
+    start: match.start,
+    end: match.end,
+    ...(location ? { location: formatLocation(location) } : {})
+  };
+};
+
+const verifySnippet = (snippet: string, sourceFile: string, indexes: DocIndex[]): CitationCheck => {
+  const claimed = findClaimed(sourceFile, indexes);
+  const inClaimed = claimed ? locate(snippet, claimed) : null;
+  if (claimed && inClaimed && inClaimed.score >= APPROXIMATE_SCORE) {
+    return found(statusFor(inClaimed.score), claimed, inClaimed);
+  }
+
+  let best: { index: DocIndex; match: Match } | null = null;
+  for (const index of indexes) {
+    if (index === claimed) continue;
+    const match = locate(snippet, index);
+    if (match && (!best || match.score > best.match.score)) best = { index, match };
+  }
+  if (best && best.match.score >= APPROXIMATE_SCORE) {
+    return found('misattributed', best.index, best.match);
+  }
+
+  return { status: 'unverified', score: Math.max(inClaimed?.score || 0, best?.match.score || 0) };
+};
+
+/**
+ * Returns a copy of `value` where every citation-shaped object ({ snippet, sourceFile }
+ * or { snippet, source }) carries a check against `docs`. Works on analyses, assessment
+ * questions and search results alike.
+ */
+export const attachCitationChecks = <T>(value: T, docs: SourceDocument[]): T => {
+  const indexes = docs.map(indexDocument);
+
+  const walk = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(walk);
+    if (!node || typeof node !== 'object') return node;
+    const record = node as Record<string, unknown>;
+    const copy: Record<string, unknown> = {};
+    Object.entries(record).forEach(([key, child]) => { copy[key] = key === 'check' ? child : walk(child); });
+
+    const source = typeof record.sourceFile === 'string' ? record.sourceFile : typeof record.source === 'string' ? record.source : null;
+    if (typeof record.snippet === 'string' && record.snippet.trim() && source !== null) {
+      copy.check = verifySnippet(record.snippet, source, indexes);
+    }
+    return copy;
+  };
+
+  return walk(value) as T;
+};
+
+/** Tally of citation checks anywhere inside `value`. */
+export const summarizeCitationChecks = (value: unknown): Record<CitationStatus, number> => {
+  const counts: Record<CitationStatus, number> = { verified: 0, approximate: 0, misattributed: 0, unverified: 0 };
+  const walk = (node: unknown) => {
+    if (Array.isArray(node)) return node.forEach(walk);
+    if (!node || typeof node !== 'object') return;
+    const check = (node as { check?: CitationCheck }).check;
+    if (check?.status) counts[check.status]++;
+    Object.entries(node).forEach(([key, child]) => { if (key !== 'check') walk(child); });
+  };
+  walk(value);
+  return counts;
+};
@@ -0,0 +1,50 @@
+/**
+ * Extractors mark where each page, slide, email or transcript turn begins
+ * ("--- PAGE 3 ---", "--- SLIDE 4 ---", "--- MESSAGE 2 ---",
+ * "--- TURN 7 · 00:12:04 · Dana Lee ---") so a passage can be traced back to its
+ * place in the original file.
+ */
+
+export type SourceLocationKind = 'page' | 'slide' | 'message' | 'turn';
+
+export interface SourceLocation {
+  kind: SourceLocationKind;
+  number: number;
+  speaker?: string; // transcript turns only
+  time?: string; // transcript turns only, HH:MM:SS from the start of the call
+}
+
+const MARKER = /--- (PAGE|SLIDE|MESSAGE|TURN) (\d+)(?: · ([^\n]*?))? ---/g;
+const TIME = /^\d{2}:\d{2}:\d{2}$/;
+
+export const marker = (kind: Exclude<SourceLocationKind, 'turn'>, number: number) => `--- ${kind.toUpperCase()} ${number} ---`;
+
+export const turnMarker = (number: number, speaker: string, time?: string) =>
+  `--- TURN ${number} · ${time ? `${time} · ` : ''}${speaker} ---`;
+
+/** The page, slide, message or turn containing `offset`, from the last marker before it. */
+export const locationAt = (content: string, offset: number): SourceLocation | null => {
+  const found = Array.from(content.substring(0, offset).matchAll(MARKER));
+  if (found.length === 0) return null;
+  const [, kind, number, detail] = found[found.length - 1];
+  const location: SourceLocation = { kind: kind.toLowerCase() as SourceLocationKind, number: parseInt(number, 10) };
+  if (location.kind === 'turn' && detail) {
+    const [first, ...rest] = detail.split(' · ');
+    if (TIME.test(first)) {
+      location.time = first;
+      location.speaker = rest.join(' · ') || undefined;
+    } else {
+      location.speaker = detail;
+    }
+  }
+  return location;
+};
+
+const LOCATION_LABELS: Record<SourceLocationKind, string> = { page: 'Page', slide: 'Slide', message: 'Message', turn: 'Turn' };
+
+export const formatLocation = (location: SourceLocation) => {
+  if (location.kind === 'turn' && location.speaker) {
+    return location.time ? `${location.speaker} · ${location.time}` : `${location.speaker} · Turn ${location.number}`;
+  }
+  return `${LOCATION_LABELS[location.kind]} ${location.number}`;
+};
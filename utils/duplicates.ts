@@ -0,0 +1,145 @@
+import { hashString } from "./hash";
+
+/**
+ * Exact and near-duplicate detection for uploads. Exact copies share a fingerprint of
+ * their normalized text; near duplicates (a renamed RFP with a revised paragraph) are
+ * found by MinHash over five-word shingles, which estimates Jaccard similarity cheaply.
+ */
+
+// Estimated share of shingles two documents must have in common to count as the same document
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+const SHINGLE_WORDS = 5;
+const SIGNATURE_SIZE = 64;
+// Very short texts have too few shingles for a meaningful estimate
+const MIN_WORDS = 40;
+
+const normalize = (text: string) =>
+  text
+    // Extractor markers differ between formats of the same document
+    .replace(/--- [A-Z]+ [^\n]*? ---/g, ' ')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+export const contentFingerprint = (text: string) => hashString(normalize(text));
+
+// 32-bit FNV-1a; signatures need numbers, not hashString's hex
+const fnv1a = (input: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Fixed odd multipliers and offsets stand in for independent hash functions
+const PERMUTATIONS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => ({
+  a: (fnv1a(`a${i}`) | 1) >>> 0,
+  b: fnv1a(`b${i}`)
+}));
+
+export type MinHashSignature = Uint32Array;
+
+export const minHashSignature = (text: string): MinHashSignature | null => {
+  const words = normalize(text).split(' ').filter(Boolean);
+  if (words.length < MIN_WORDS) return null;
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    const shingle = fnv1a(words.slice(i, i + SHINGLE_WORDS).join(' '));
+    for (let j = 0; j < SIGNATURE_SIZE; j++) {
+      const value = (Math.imul(shingle, PERMUTATIONS[j].a) + PERMUTATIONS[j].b) >>> 0;
+      if (value < signature[j]) signature[j] = value;
+    }
+  }
+  return signature;
+};
+
+// Plain numbers for storage, empty when the text is too short to compare; listings
+// carry this because their text isn't loaded yet
+export const storedSignature = (text: string): number[] => {
+  const signature = minHashSignature(text);
+  return signature ? Array.from(signature) : [];
+};
+
+export const estimateSimilarity = (a: MinHashSignature, b: MinHashSignature) => {
+  let equal = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) if (a[i] === b[i]) equal++;
+  return equal / SIGNATURE_SIZE;
+};
+
+// Signatures are cached by content hash, so a library is only shingled once per session
+const signatureCache = new Map<string, MinHashSignature | null>();
+const signatureOf = (text: string, fingerprint: string) => {
+  if (!signatureCache.has(fingerprint)) signatureCache.set(fingerprint, minHashSignature(text));
+  return signatureCache.get(fingerprint)!;
+};
+
+export interface DuplicateCandidate {
+  id?: string;
+  name: string;
+  content: string;
+  contentHash?: string;
+  contentSignature?: number[]; // stored MinHash, for candidates whose text isn't loaded
+}
+
+export interface DuplicateHit<T> {
+  candidate: T;
+  similarity: number; // 1 for exact copies
+  exact: boolean;
+}
+
+/** The closest existing document at or above the threshold, exact copies first. */
+export const findDuplicate = <T extends DuplicateCandidate>(content: string, candidates: T[]): DuplicateHit<T> | null => {
+  const fingerprint = contentFingerprint(content);
+  const fingerprints = candidates.map(c => c.contentHash || contentFingerprint(c.content));
+  const exactIndex = fingerprints.indexOf(fingerprint);
+  if (exactIndex >= 0) return { candidate: candidates[exactIndex], similarity: 1, exact: true };
+
+  const signature = signatureOf(content, fingerprint);
+  if (!signature) return null;
+  let best: DuplicateHit<T> | null = null;
+  candidates.forEach((candidate, i) => {
+    const other = candidate.contentSignature
+      ? (candidate.contentSignature.length > 0 ? Uint32Array.from(candidate.contentSignature) : null)
+      : signatureOf(candidate.content, fingerprints[i]);
+    if (!other) return;
+    const similarity = estimateSimilarity(signature, other);
+    if (similarity >= NEAR_DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { candidate, similarity, exact: false };
+    }
+  });
+  return best;
+};
+
+export interface DedupedSet<T> {
+  kept: T[];
+  dropped: { doc: T; duplicateOf: T; similarity: number }[];
+}
+
+/** Keeps the first of every group of duplicates, in the order given. */
+export const dedupeDocuments = <T extends DuplicateCandidate>(docs: T[]): DedupedSet<T> =>
+  docs.reduce<DedupedSet<T>>((set, doc) => {
+    const hit = findDuplicate(doc.content, set.kept);
+    if (hit) set.dropped.push({ doc, duplicateOf: hit.candidate, similarity: hit.similarity });
+    else set.kept.push(doc);
+    return set;
+  }, { kept: [], dropped: [] });
+
+const paragraphKey = (paragraph: string) => normalize(paragraph);
+
+/**
+ * Folds an incoming revision into an existing document: paragraphs the existing text
+ * lacks are appended in their original order, everything else is kept as is.
+ */
+export const mergeContent = (existing: string, incoming: string): string => {
+  const known = new Set(existing.split(/\n\s*\n/).map(paragraphKey));
+  const additions = incoming.split(/\n\s*\n/).filter(p => {
+    const key = paragraphKey(p);
+    if (!key || known.has(key)) return false;
+    known.add(key);
+    return true;
+  });
+  return additions.length > 0 ? `${existing.trimEnd()}\n\n${additions.join('\n\n')}` : existing;
+};
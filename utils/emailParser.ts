@@ -0,0 +1,282 @@
+import { EmailParticipant, MeetingContext } from "../types";
+import { marker } from "./documentMarkers";
+
+/**
+ * Parses .eml files and mbox exports into individual messages. Raw input is handled as a
+ * binary string (one char per byte) so each MIME part can be decoded with its own charset.
+ */
+
+export interface EmailMessage {
+  messageId?: string;
+  from: EmailParticipant[];
+  to: EmailParticipant[];
+  cc: EmailParticipant[];
+  date: Date | null;
+  rawDate: string;
+  subject: string;
+  body: string;
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+const toBytes = (binary: string) => Uint8Array.from(binary, c => c.charCodeAt(0) & 0xff);
+
+const decodeBytes = (bytes: Uint8Array, charset = 'utf-8') => {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const decodeQuotedPrintable = (text: string, underscoresAreSpaces = false) =>
+  (underscoresAreSpaces ? text.replace(/_/g, ' ') : text)
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+const decodeBase64 = (text: string) => {
+  try {
+    return atob(text.replace(/[^A-Za-z0-9+/=]/g, ''));
+  } catch {
+    return '';
+  }
+};
+
+// RFC 2047 encoded words such as =?UTF-8?B?...?= or =?iso-8859-1?Q?...?=
+const decodeHeader = (value: string) =>
+  decodeBytes(toBytes(value))
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset, encoding, text) => {
+      const binary = encoding.toUpperCase() === 'B' ? decodeBase64(text) : decodeQuotedPrintable(text, true);
+      return decodeBytes(toBytes(binary), charset);
+    });
+
+const parseHeaders = (block: string): Map<string, string> => {
+  const headers = new Map<string, string>();
+  // Folded header lines continue with leading whitespace
+  block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.substring(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.substring(colon + 1).trim());
+  });
+  return headers;
+};
+
+const splitPart = (raw: string): MimePart => {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) return { headers: parseHeaders(raw), body: '' };
+  return { headers: parseHeaders(raw.substring(0, match.index)), body: raw.substring(match.index + match[0].length) };
+};
+
+const headerParam = (value: string, param: string) =>
+  value.match(new RegExp(`${param}\\s*=\\s*"?([^";]+)"?`, 'i'))?.[1];
+
+const decodePartBody = (part: MimePart) => {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase();
+  const binary = encoding === 'base64' ? decodeBase64(part.body)
+    : encoding === 'quoted-printable' ? decodeQuotedPrintable(part.body)
+    : part.body;
+  return decodeBytes(toBytes(binary), headerParam(part.headers.get('content-type') || '', 'charset'));
+};
+
+const stripHtml = (html: string) =>
+  html
+    .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+
+// Prefers text/plain anywhere in the tree, then falls back to stripped text/html.
+const findText = (part: MimePart): { text: string; html: boolean } | null => {
+  const type = (part.headers.get('content-type') || 'text/plain').toLowerCase();
+  const disposition = (part.headers.get('content-disposition') || '').toLowerCase();
+  if (disposition.startsWith('attachment')) return null;
+
+  if (type.startsWith('multipart/')) {
+    const boundary = headerParam(part.headers.get('content-type') || '', 'boundary');
+    if (!boundary) return null;
+    const children = part.body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(chunk => !chunk.startsWith('--'))
+      .map(chunk => splitPart(chunk.replace(/^\r?\n/, '')))
+      .map(findText)
+      .filter((t): t is { text: string; html: boolean } => t !== null);
+    return children.find(c => !c.html) || children[0] || null;
+  }
+  if (type.startsWith('text/plain')) return { text: decodePartBody(part), html: false };
+  if (type.startsWith('text/html')) return { text: stripHtml(decodePartBody(part)), html: true };
+  return null;
+};
+
+// Everything after the first reply header or forwarded-message divider is quoted history.
+const REPLY_CUTS = [
+  /^On [^\n]{0,200}(\n[^\n]{0,200})?wrote:\s*$/m,
+  /^-{2,}\s*(Original|Forwarded) Message\s*-{2,}/im,
+  /^_{10,}\s*\n\s*From:/m,
+  /^From: [^\n]+\n(Sent|Date): /m,
+  /^-- $/m
+];
+
+export const stripQuotedReply = (body: string): string => {
+  let text = body.replace(/\r\n/g, '\n');
+  REPLY_CUTS.forEach(pattern => {
+    const match = text.match(pattern);
+    if (match && match.index !== undefined && match.index > 0) text = text.substring(0, match.index);
+  });
+  return text
+    .split('\n')
+    .filter(line => !line.trimStart().startsWith('>'))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/** Splits an address list, respecting quoted display names that contain commas. */
+export const parseAddressList = (value: string): EmailParticipant[] => {
+  const entries: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angled = false;
+  for (const ch of value) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === '<') angled = true;
+    if (ch === '>') angled = false;
+    if ((ch === ',' || ch === ';') && !quoted && !angled) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  entries.push(current);
+
+  return entries
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const angle = entry.match(/^(.*)<([^>]+)>\s*$/);
+      const email = (angle ? angle[2] : entry).trim().toLowerCase();
+      const name = (angle ? angle[1] : '').trim().replace(/^"|"$/g, '').trim();
+      return { name: name || email.split('@')[0], email };
+    })
+    .filter(p => p.email.includes('@'));
+};
+
+export const parseEml = (raw: string): EmailMessage => {
+  const part = splitPart(raw);
+  const header = (name: string) => decodeHeader(part.headers.get(name) || '');
+  const rawDate = header('date');
+  const parsedDate = rawDate ? new Date(rawDate) : null;
+  const body = findText(part);
+  return {
+    messageId: part.headers.get('message-id') || undefined,
+    from: parseAddressList(header('from')),
+    to: parseAddressList(header('to')),
+    cc: parseAddressList(header('cc')),
+    date: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : null,
+    rawDate,
+    subject: header('subject'),
+    body: body ? stripQuotedReply(body.text) : ''
+  };
+};
+
+/** Messages in an mbox export, split on "From " separator lines. */
+export const splitMbox = (raw: string): string[] =>
+  raw
+    .split(/^From [^\n]*\r?\n/m)
+    .map(chunk => chunk.replace(/^>(>*From )/gm, '$1').trim())
+    .filter(Boolean);
+
+export const isMbox = (raw: string) => raw.startsWith('From ');
+
+/** Messages oldest first, with duplicate Message-IDs dropped. */
+export const parseMailbox = (raw: string): EmailMessage[] => {
+  const seen = new Set<string>();
+  return (isMbox(raw) ? splitMbox(raw) : [raw])
+    .map(parseEml)
+    .filter(m => {
+      if (!m.messageId) return true;
+      if (seen.has(m.messageId)) return false;
+      seen.add(m.messageId);
+      return true;
+    })
+    .sort((a, b) => (a.date?.getTime() || 0) - (b.date?.getTime() || 0));
+};
+
+const formatParticipants = (list: EmailParticipant[]) => list.map(p => `${p.name} <${p.email}>`).join(', ');
+
+const formatDate = (message: EmailMessage) =>
+  message.date ? `${message.date.toISOString().substring(0, 16).replace('T', ' ')} UTC` : message.rawDate;
+
+export const renderEmails = (messages: EmailMessage[]): string =>
+  messages.map((m, i) => [
+    marker('message', i + 1),
+    `FROM: ${formatParticipants(m.from)}`,
+    `TO: ${formatParticipants(m.to)}`,
+    ...(m.cc.length > 0 ? [`CC: ${formatParticipants(m.cc)}`] : []),
+    `DATE: ${formatDate(m)}`,
+    `SUBJECT: ${m.subject}`,
+    '',
+    m.body
+  ].join('\n')).join('\n\n');
+
+/** Everyone on the FROM/TO/CC lines of rendered emails, most active first. */
+export const outlineParticipants = (content: string): EmailParticipant[] => {
+  if (!content.includes(marker('message', 1))) return [];
+  const counts = new Map<string, { participant: EmailParticipant; count: number }>();
+  content.split('\n').forEach(line => {
+    const header = line.match(/^(FROM|TO|CC): (.+)$/);
+    if (!header) return;
+    parseAddressList(header[2]).forEach(p => {
+      const existing = counts.get(p.email);
+      if (existing) existing.count++;
+      else counts.set(p.email, { participant: p, count: 1 });
+    });
+  });
+  return [...counts.values()].sort((a, b) => b.count - a.count).map(c => c.participant);
+};
+
+const domainOf = (email: string) => email.split('@')[1] || '';
+const squash = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Email participants likely to be on the buyer side: people already named in the
+ * context, and anyone sharing a domain with a named seller or the seller company, are
+ * left out. Domains matching the client company rank first.
+ */
+export const suggestClientParticipants = (
+  participants: EmailParticipant[],
+  context: Pick<MeetingContext, 'sellerCompany' | 'sellerNames' | 'clientCompany' | 'clientNames'>,
+  limit = 6
+): EmailParticipant[] => {
+  const named = (list: string) => list.split(/[,;]/).map(n => n.trim().toLowerCase()).filter(Boolean);
+  const sellerNames = named(context.sellerNames);
+  const taken = new Set([...sellerNames, ...named(context.clientNames)]);
+  const seller = squash(context.sellerCompany);
+  const client = squash(context.clientCompany);
+
+  const sellerDomains = new Set(
+    participants
+      .filter(p => sellerNames.includes(p.name.toLowerCase()) || (seller && squash(domainOf(p.email)).includes(seller)))
+      .map(p => domainOf(p.email))
+  );
+  const clientRank = (p: EmailParticipant) => client && squash(domainOf(p.email)).includes(client) ? 0 : 1;
+
+  return participants
+    .filter(p => !sellerDomains.has(domainOf(p.email)))
+    .filter(p => !taken.has(p.name.toLowerCase()) && !taken.has(p.email))
+    .sort((a, b) => clientRank(a) - clientRank(b))
+    .slice(0, limit);
+};
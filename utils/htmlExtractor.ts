@@ -0,0 +1,122 @@
+import { DocumentMetadata } from "../types";
+import { ExtractedTable, renderTable, toTable } from "./tableText";
+
+/**
+ * Readable text from saved web pages. Navigation, scripts, styles and other page chrome
+ * are removed; headings become "#" lines and tables use the same "--- SHEET ---" layout
+ * as spreadsheets so the analysis sees them as tables.
+ */
+
+const DROP_TAGS = 'script, style, noscript, template, svg, canvas, iframe, form, button, nav, aside, dialog';
+// Page-level headers and footers are chrome; inside an article they hold its title and byline
+const PAGE_SECTIONS = 'header, footer';
+const DROP_ROLES = '[role="navigation"], [role="banner"], [role="contentinfo"], [role="search"], [aria-hidden="true"], [hidden]';
+// Class or id fragments that mark chrome on sites without semantic tags
+const CHROME_HINT = /(^|[-_\s])(nav|navbar|menu|breadcrumbs?|footer|sidebar|cookie|consent|subscribe|newsletter|social|skip|modal|popup)([-_\s]|$)/i;
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'BLOCKQUOTE', 'PRE', 'FIGCAPTION', 'DD', 'DT', 'ADDRESS']);
+// A main or article element is used only if it holds a real share of the page's text
+const MAIN_TEXT_SHARE = 0.3;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Chrome's "saved from url" comment is the most reliable record of where a page came from
+const savedFromUrl = (html: string) => html.match(/<!--\s*saved from url=\(\d+\)(\S+?)\s*-->/i)?.[1];
+
+const metadataOf = (doc: Document, html: string): DocumentMetadata => {
+  const meta = (selector: string) => doc.querySelector(selector)?.getAttribute('content')?.trim() || undefined;
+  const title = meta('meta[property="og:title"]') || normalize(doc.title) || undefined;
+  const sourceUrl = savedFromUrl(html)
+    || doc.querySelector('link[rel="canonical"]')?.getAttribute('href')?.trim()
+    || meta('meta[property="og:url"]')
+    || doc.querySelector('base[href]')?.getAttribute('href')?.trim()
+    || undefined;
+  return {
+    ...(title ? { title } : {}),
+    ...(sourceUrl && /^https?:\/\//i.test(sourceUrl) ? { sourceUrl } : {})
+  };
+};
+
+const removeChrome = (root: Element) => {
+  root.querySelectorAll(`${DROP_TAGS}, ${DROP_ROLES}`).forEach(el => el.remove());
+  root.querySelectorAll(PAGE_SECTIONS).forEach(el => { if (!el.closest('main, article')) el.remove(); });
+  root.querySelectorAll('[class], [id]').forEach(el => {
+    // Wrappers around the main content can carry state classes like "nav-open"
+    if (el.matches('main, article, body') || el.querySelector('main, article, h1')) return;
+    if (CHROME_HINT.test(`${el.getAttribute('class') || ''} ${el.id}`)) el.remove();
+  });
+};
+
+const contentRoot = (body: HTMLElement): Element => {
+  const total = normalize(body.textContent || '').length || 1;
+  const candidate = body.querySelector('main, article, [role="main"]');
+  return candidate && normalize(candidate.textContent || '').length / total >= MAIN_TEXT_SHARE ? candidate : body;
+};
+
+const tableOf = (table: HTMLTableElement, ordinal: number): ExtractedTable | null => {
+  const rows = Array.from(table.rows).map(row => Array.from(row.cells).map(cell => normalize(cell.textContent || '')));
+  const caption = normalize(table.caption?.textContent || '');
+  return toTable(caption || `Table ${ordinal}`, rows);
+};
+
+// Walks the tree emitting one block per heading, paragraph, list item or table.
+const collectBlocks = (root: Element): string[] => {
+  const blocks: string[] = [];
+  let inline = '';
+  let tableCount = 0;
+
+  const flush = () => {
+    const text = normalize(inline);
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += node.textContent || '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    const heading = el.tagName.match(/^H([1-6])$/);
+
+    if (heading) {
+      flush();
+      const text = normalize(el.textContent || '');
+      if (text) blocks.push(`${'#'.repeat(parseInt(heading[1], 10))} ${text}`);
+    } else if (el.tagName === 'TABLE') {
+      flush();
+      const table = tableOf(el as HTMLTableElement, ++tableCount);
+      if (table) blocks.push(renderTable(table));
+    } else if (el.tagName === 'LI') {
+      flush();
+      const text = normalize(el.textContent || '');
+      if (text) blocks.push(`- ${text}`);
+    } else if (el.tagName === 'BR') {
+      inline += ' ';
+    } else {
+      const isBlock = BLOCK_TAGS.has(el.tagName);
+      if (isBlock) flush();
+      el.childNodes.forEach(walk);
+      if (isBlock) flush();
+    }
+  };
+
+  walk(root);
+  flush();
+  return blocks;
+};
+
+export interface ExtractedPage {
+  text: string;
+  metadata: DocumentMetadata;
+}
+
+export const extractHtml = (html: string): ExtractedPage => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const metadata = metadataOf(doc, html);
+  removeChrome(doc.body);
+  const blocks = collectBlocks(contentRoot(doc.body));
+  const heading = metadata.title && !blocks.some(b => b.startsWith('# ')) ? [`# ${metadata.title}`] : [];
+  return { text: [...heading, ...blocks].join('\n\n'), metadata };
+};
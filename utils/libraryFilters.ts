@@ -0,0 +1,61 @@
+import { DocumentKind, StoredDocument } from "../types";
+
+/**
+ * Filing helpers for the Cognitive Library: kind inference at upload, tag cleanup,
+ * and the facet filters used to pick documents for an analysis.
+ */
+
+export interface LibraryFilter {
+  folder: string | null; // null shows every folder; '' shows unfiled documents
+  tags: string[]; // a document must carry all of them
+  account: string;
+  kind: DocumentKind | '';
+}
+
+export const EMPTY_FILTER: LibraryFilter = { folder: null, tags: [], account: '', kind: '' };
+
+export const isFilterActive = (filter: LibraryFilter) =>
+  filter.folder !== null || filter.tags.length > 0 || !!filter.account || !!filter.kind;
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-').replace(/^#/, '');
+
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(/[,\n]/).map(normalizeTag).filter(Boolean))];
+
+// Extractor markers and file extensions give a reliable first guess
+export const inferDocumentKind = (name: string, content: string): DocumentKind | undefined => {
+  const lower = name.toLowerCase();
+  if (content.includes('--- TURN 1 ·') || /\.(vtt|srt)$/.test(lower)) return 'Transcript';
+  if (content.includes('--- MESSAGE 1 ---') || /\.(eml|mbox)$/.test(lower)) return 'Email Thread';
+  if (content.includes('--- SLIDE 1 ---') || lower.endsWith('.pptx')) return 'Presentation';
+  if (/\.(xlsx|xlsm|xls|ods|csv|tsv)$/.test(lower)) return 'Spreadsheet';
+  if (/\.(html?|xhtml)$/.test(lower)) return 'Web Page';
+  if (/\brfp\b|request for proposal/i.test(name)) return 'RFP';
+  if (/annual report|10-k\b/i.test(name)) return 'Annual Report';
+  return undefined;
+};
+
+export const filterDocuments = (documents: StoredDocument[], filter: LibraryFilter): StoredDocument[] =>
+  documents.filter(doc =>
+    (filter.folder === null || (doc.folder || '') === filter.folder)
+    && filter.tags.every(tag => doc.tags?.includes(tag))
+    && (!filter.account || doc.account === filter.account)
+    && (!filter.kind || doc.kind === filter.kind)
+  );
+
+const sortedUnique = (values: (string | undefined)[]) =>
+  [...new Set(values.filter((v): v is string => !!v))].sort((a, b) => a.localeCompare(b));
+
+export interface LibraryFacets {
+  folders: string[];
+  tags: string[];
+  accounts: string[];
+  kinds: DocumentKind[];
+}
+
+export const collectFacets = (documents: StoredDocument[]): LibraryFacets => ({
+  folders: sortedUnique(documents.map(d => d.folder)),
+  tags: sortedUnique(documents.flatMap(d => d.tags || [])),
+  accounts: sortedUnique(documents.map(d => d.account)),
+  kinds: sortedUnique(documents.map(d => d.kind)) as DocumentKind[]
+});
@@ -0,0 +1,185 @@
+import { LineDiffOp } from "../types";
+
+/**
+ * Line diffs for document revisions. A diff carries the removed lines as well as the
+ * added ones, so it can be applied backwards: the current text plus every revision's
+ * diff is enough to rebuild any earlier revision.
+ */
+
+// Myers' search is O((N+M)·D); past this many changed lines the middle is replaced wholesale
+const MAX_EDIT_LINES = 1000;
+
+export const splitLines = (text: string) => text.split('\n');
+
+type Edit = { type: 'keep' | 'remove' | 'add'; line: string };
+
+// Shortest edit script (Myers, 1986), walked back from the end through each round's frontier
+const shortestEdit = (a: string[], b: string[]): Edit[] | null => {
+  const n = a.length, m = b.length;
+  const limit = Math.min(n + m, MAX_EDIT_LINES);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace, offset);
+    }
+  }
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[], offset: number): Edit[] => {
+  const edits: Edit[] = [];
+  let x = a.length, y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      edits.push({ type: 'keep', line: a[--x] });
+      y--;
+    }
+    if (d > 0) edits.push(x === prevX ? { type: 'add', line: b[--y] } : { type: 'remove', line: a[--x] });
+  }
+  return edits.reverse();
+};
+
+// Consecutive edits collapse into one op; within a changed run, removals come before additions
+const compact = (edits: Edit[]): LineDiffOp[] => {
+  const ops: LineDiffOp[] = [];
+  let kept = 0, removed: string[] = [], added: string[] = [];
+  const flushChange = () => {
+    if (removed.length > 0) ops.push({ remove: removed });
+    if (added.length > 0) ops.push({ add: added });
+    removed = [];
+    added = [];
+  };
+  for (const edit of edits) {
+    if (edit.type === 'keep') {
+      flushChange();
+      kept++;
+      continue;
+    }
+    if (kept > 0) ops.push({ keep: kept });
+    kept = 0;
+    (edit.type === 'remove' ? removed : added).push(edit.line);
+  }
+  if (kept > 0) ops.push({ keep: kept });
+  flushChange();
+  return ops;
+};
+
+export const diffLines = (before: string, after: string): LineDiffOp[] => {
+  const a = splitLines(before), b = splitLines(after);
+  // Edits are usually local, so the common head and tail are taken off before the search
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const midA = a.slice(head, a.length - tail), midB = b.slice(head, b.length - tail);
+  const middle = shortestEdit(midA, midB)
+    ?? [...midA.map(line => ({ type: 'remove' as const, line })), ...midB.map(line => ({ type: 'add' as const, line }))];
+  return compact([
+    ...a.slice(0, head).map(line => ({ type: 'keep' as const, line })),
+    ...middle,
+    ...a.slice(a.length - tail).map(line => ({ type: 'keep' as const, line }))
+  ]);
+};
+
+export class DiffMismatchError extends Error {
+  constructor() {
+    super("The revision no longer matches the document text.");
+    this.name = 'DiffMismatchError';
+  }
+}
+
+/** Applies a diff to the text it was made from. Throws DiffMismatchError if the text doesn't fit. */
+export const applyDiff = (before: string, ops: LineDiffOp[]): string => {
+  const source = splitLines(before);
+  const out: string[] = [];
+  let i = 0;
+  for (const op of ops) {
+    if ('keep' in op) {
+      if (i + op.keep > source.length) throw new DiffMismatchError();
+      out.push(...source.slice(i, i + op.keep));
+      i += op.keep;
+    } else if ('remove' in op) {
+      if (op.remove.some((line, j) => source[i + j] !== line)) throw new DiffMismatchError();
+      i += op.remove.length;
+    } else {
+      out.push(...op.add);
+    }
+  }
+  if (i !== source.length) throw new DiffMismatchError();
+  return out.join('\n');
+};
+
+export const invertDiff = (ops: LineDiffOp[]): LineDiffOp[] =>
+  ops.map(op => 'remove' in op ? { add: op.remove } : 'add' in op ? { remove: op.add } : op);
+
+// Rebuilds the text a diff was made from, given the text it produced
+export const revertDiff = (after: string, ops: LineDiffOp[]): string => applyDiff(after, invertDiff(ops));
+
+export const diffStats = (ops: LineDiffOp[]) => ({
+  added: ops.reduce((sum, op) => sum + ('add' in op ? op.add.length : 0), 0),
+  removed: ops.reduce((sum, op) => sum + ('remove' in op ? op.remove.length : 0), 0)
+});
+
+export interface SideBySideRow {
+  kind: 'same' | 'changed' | 'removed' | 'added' | 'gap';
+  left?: { number: number; text: string };
+  right?: { number: number; text: string };
+  hidden?: number; // unchanged lines folded into a gap row
+}
+
+/** Rows for a two-column view; unchanged stretches beyond `context` lines of a change are folded. */
+export const sideBySide = (before: string, ops: LineDiffOp[], context = 3): SideBySideRow[] => {
+  const source = splitLines(before);
+  const rows: SideBySideRow[] = [];
+  let i = 0, j = 0;
+  for (let n = 0; n < ops.length; n++) {
+    const op = ops[n];
+    if ('keep' in op) {
+      const lines = source.slice(i, i + op.keep);
+      const lead = n === 0 ? 0 : context;
+      const trail = n === ops.length - 1 ? 0 : context;
+      lines.forEach((text, k) => {
+        if (k < lead || k >= lines.length - trail) {
+          rows.push({ kind: 'same', left: { number: i + k + 1, text }, right: { number: j + k + 1, text } });
+        } else if (k === lead) {
+          rows.push({ kind: 'gap', hidden: lines.length - lead - trail });
+        }
+      });
+      i += op.keep;
+      j += op.keep;
+      continue;
+    }
+    // A removal followed by an addition is one change, shown line against line
+    const removed = 'remove' in op ? op.remove : [];
+    let added = 'add' in op ? op.add : [];
+    const next = ops[n + 1];
+    if ('remove' in op && next && 'add' in next) {
+      added = next.add;
+      n++;
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({
+        kind: k < removed.length && k < added.length ? 'changed' : k < removed.length ? 'removed' : 'added',
+        left: k < removed.length ? { number: i + k + 1, text: removed[k] } : undefined,
+        right: k < added.length ? { number: j + k + 1, text: added[k] } : undefined
+      });
+    }
+    i += removed.length;
+    j += added.length;
+  }
+  return rows;
+};
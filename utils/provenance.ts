@@ -0,0 +1,89 @@
+import { AnalysisProvenance, MeetingContext, SourceDocument, SourceRevision, StaleChange } from "../types";
+import { hashString } from "./hash";
+
+/**
+ * Provenance of a brief: a hash of each source document's exact text plus the meeting
+ * context it was run with. Comparing it with the live inputs says whether the brief is
+ * out of date and what changed.
+ */
+
+const CONTEXT_LABELS: Record<keyof MeetingContext, string> = {
+  sellerCompany: 'Seller company',
+  sellerNames: 'Seller names',
+  clientCompany: 'Client company',
+  clientNames: 'Client names',
+  targetProducts: 'Target products',
+  productDomain: 'Product domain',
+  meetingFocus: 'Meeting focus',
+  persona: 'Buyer persona',
+  answerStyles: 'Answer styles',
+  executiveSnapshot: 'Executive snapshot',
+  strategicKeywords: 'Strategic keywords',
+  competitors: 'Competitor roster',
+  baseSystemPrompt: 'Base system prompt',
+  thinkingLevel: 'Thinking level',
+  temperature: 'Temperature'
+};
+
+// Values this short are shown before and after; anything longer is just "changed"
+const MAX_SHOWN_VALUE = 40;
+
+// Firestore rejects undefined fields, so session uploads simply have no id
+export const fingerprintSource = (doc: SourceDocument): SourceRevision => ({
+  ...(doc.id ? { id: doc.id } : {}),
+  name: doc.name,
+  revision: doc.revision || 0,
+  contentHash: hashString(doc.content)
+});
+
+export const captureProvenance = (docs: SourceDocument[], context: MeetingContext): AnalysisProvenance => ({
+  sources: docs.map(fingerprintSource),
+  context
+});
+
+// Library documents match by id, session uploads by name
+const sameSource = (a: SourceRevision, b: SourceRevision) =>
+  a.id || b.id ? a.id === b.id : a.name === b.name;
+
+// Text is compared by hash when both sides have one; a library document whose text
+// is still loading, or a version saved before hashes were kept, falls back to its revision
+const textChanged = (before: SourceRevision, now: SourceRevision) =>
+  before.contentHash && now.contentHash ? before.contentHash !== now.contentHash : before.revision !== now.revision;
+
+const describeValue = (value: unknown) => {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string' || value.trim().length > MAX_SHOWN_VALUE) return null;
+  return value.trim() ? `"${value.trim()}"` : 'empty';
+};
+
+/**
+ * What changed between the inputs a brief was built from and the live ones. `live`
+ * holds every selected document; text that hasn't loaded yet has no contentHash.
+ */
+export const staleChanges = (saved: AnalysisProvenance, live: SourceRevision[], context: MeetingContext): StaleChange[] => {
+  const changes: StaleChange[] = [];
+  const unmatched = [...live];
+
+  for (const before of saved.sources) {
+    // A document reselected under another name or from the library still counts when its text is identical
+    let index = unmatched.findIndex(now => sameSource(now, before));
+    if (index < 0 && before.contentHash) index = unmatched.findIndex(now => now.contentHash === before.contentHash);
+    if (index < 0) {
+      changes.push({ kind: 'removed', label: before.name });
+      continue;
+    }
+    const [now] = unmatched.splice(index, 1);
+    const details: string[] = [];
+    if (textChanged(before, now)) details.push(now.revision !== before.revision ? `rev ${before.revision} → rev ${now.revision}` : 'text changed');
+    if (now.name !== before.name) details.push(`renamed from ${before.name}`);
+    if (details.length > 0) changes.push({ kind: 'edited', label: now.name, detail: details.join(', ') });
+  }
+  unmatched.forEach(now => changes.push({ kind: 'added', label: now.name }));
+
+  (Object.keys(CONTEXT_LABELS) as (keyof MeetingContext)[]).forEach(key => {
+    if (JSON.stringify(saved.context[key]) === JSON.stringify(context[key])) return;
+    const before = describeValue(saved.context[key]), after = describeValue(context[key]);
+    changes.push({ kind: 'context', label: CONTEXT_LABELS[key], detail: before && after ? `${before} → ${after}` : undefined });
+  });
+  return changes;
+};
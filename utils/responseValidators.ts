@@ -0,0 +1,207 @@
+import {
+  AnalysisResult, AssessmentQuestion, AssessmentResult, BuyerSnapshot, Citation, CitationCheck, CoachingAdvice,
+  CognitiveSearchResult, CompetitorInsight, CompetitorProfile, GroomingEvaluation, ObjectionItem, PriorityItem, QuestionType
+} from "../types";
+import { Validator, arr, bool, num, obj, oneOf, optional, str } from "./validation";
+
+/**
+ * Domain validators for every structured model response, mirroring the interfaces in types.ts.
+ * Each one repairs what it can so components can rely on the declared shape.
+ */
+
+const text = str();
+const textList = arr(str(), s => s.trim().length > 0);
+const score = num({ min: 0, max: 100, fallback: 50 });
+
+// Checks are only present on stored results; the model never sends one.
+const citationCheckValidator: Validator<CitationCheck> = obj<CitationCheck>({
+  status: oneOf(['verified', 'approximate', 'misattributed', 'unverified'] as const, 'unverified'),
+  score: num({ min: 0, max: 1 }),
+  matchedFile: optional(str()),
+  start: optional(num({ min: 0 })),
+  end: optional(num({ min: 0 })),
+  location: optional(str())
+});
+
+export const citationValidator: Validator<Citation> = obj<Citation>({
+  snippet: str(),
+  sourceFile: str("Unknown source"),
+  check: optional(citationCheckValidator)
+});
+
+const competitorValidator = (fallbackName: string): Validator<CompetitorInsight> => obj<CompetitorInsight>({
+  name: str(fallbackName),
+  source: oneOf(['roster', 'discovered'] as const, 'discovered'),
+  overview: text,
+  threatProfile: oneOf(['Direct', 'Indirect', 'Niche'] as const, 'Indirect'),
+  strengths: textList,
+  weaknesses: textList,
+  opportunities: textList,
+  threats: textList,
+  ourWedge: text,
+  citation: citationValidator
+});
+
+// Analyses produced before the roster existed stored { cognigy, amelia, others }.
+const migrateLegacyHub = (legacy: Record<string, any>): unknown[] => [
+  legacy.cognigy && { name: 'Cognigy', ...legacy.cognigy, source: 'roster' },
+  legacy.amelia && { name: 'Amelia', ...legacy.amelia, source: 'roster' },
+  ...(Array.isArray(legacy.others) ? legacy.others.map((o: any) => ({ ...o, source: 'discovered' })) : [])
+].filter(Boolean);
+
+/**
+ * Validates the competitor list and guarantees one entry per roster competitor,
+ * ordered as in the roster, followed by competitors discovered in the documents.
+ */
+export const competitiveHubValidator = (roster: CompetitorProfile[] = []): Validator<CompetitorInsight[]> => (input, path, issues) => {
+  let raw = input;
+  if (raw && typeof raw === 'object' && !Array.isArray(raw) && ('cognigy' in raw || 'amelia' in raw || 'others' in raw)) {
+    issues.push({ path, problem: "legacy competitor layout migrated to a list", severity: 'repaired' });
+    raw = migrateLegacyHub(raw as Record<string, any>);
+  }
+
+  const list = arr(competitorValidator("Unnamed competitor"))(raw, path, issues);
+  const key = (name: string) => name.trim().toLowerCase();
+
+  const fromRoster = roster.map(profile => {
+    const match = list.find(c => key(c.name) === key(profile.name));
+    if (match) return { ...match, name: profile.name, source: 'roster' as const };
+    issues.push({ path: `${path}.${profile.name}`, problem: "no analysis returned for this roster competitor", severity: 'defaulted' });
+    return competitorValidator(profile.name)({ name: profile.name, overview: profile.positioning, ourWedge: profile.battlecardNotes, source: 'roster' }, path, []);
+  });
+  const rosterNames = new Set(roster.map(p => key(p.name)));
+  return [...fromRoster, ...list.filter(c => !rosterNames.has(key(c.name)))];
+};
+
+const snapshotValidator: Validator<BuyerSnapshot> = obj<BuyerSnapshot>({
+  role: str("Unidentified Stakeholder"),
+  roleCitation: citationValidator,
+  roleConfidence: optional(score),
+  priorities: arr(obj<PriorityItem>({ text, citation: citationValidator, speaker: optional(str()), timestamp: optional(str()) }), p => p.text.trim().length > 0),
+  likelyObjections: arr(obj<ObjectionItem>({ text, citation: citationValidator, speaker: optional(str()), timestamp: optional(str()) }), o => o.text.trim().length > 0),
+  decisionStyle: text,
+  decisionStyleCitation: citationValidator,
+  riskTolerance: text,
+  riskToleranceCitation: citationValidator,
+  tone: text,
+  metrics: obj({
+    riskToleranceValue: score,
+    strategicPriorityFocus: score,
+    analyticalDepth: score,
+    directness: score,
+    innovationAppetite: score
+  }),
+  personaIdentity: text,
+  decisionLogic: text
+});
+
+export const createAnalysisResultValidator = (roster: CompetitorProfile[] = []): Validator<AnalysisResult> => obj<AnalysisResult>({
+  snapshot: snapshotValidator,
+  documentInsights: obj({
+    entities: arr(obj({ name: text, type: str("Other"), context: text, citation: citationValidator }), e => e.name.trim().length > 0),
+    structure: obj({ sections: textList, keyHeadings: textList, detectedTablesSummary: text }),
+    summaries: arr(obj({ fileName: text, summary: text, strategicImpact: text, criticalInsights: textList })),
+    materialSynthesis: text
+  }),
+  groundMatrix: arr(obj({ category: text, observation: text, significance: text, evidence: citationValidator }), m => m.observation.trim().length > 0),
+  competitiveHub: competitiveHubValidator(roster),
+  openingLines: arr(obj({ text, label: str("Opening"), citation: citationValidator }), o => o.text.trim().length > 0),
+  predictedQuestions: arr(obj({
+    customerAsks: text,
+    salespersonShouldRespond: text,
+    reasoning: text,
+    category: oneOf(['Business Value', 'Technical', 'Risk', 'ROI', 'Integration'] as const, 'Business Value'),
+    citation: citationValidator
+  }), q => q.customerAsks.trim().length > 0),
+  strategicQuestionsToAsk: arr(obj({ question: text, whyItMatters: text, citation: citationValidator }), q => q.question.trim().length > 0),
+  objectionHandling: arr(obj({
+    objection: text,
+    realMeaning: text,
+    strategy: text,
+    exactWording: text,
+    empathyTip: text,
+    valueTip: text,
+    citation: citationValidator
+  }), o => o.objection.trim().length > 0),
+  toneGuidance: obj({ wordsToUse: textList, wordsToAvoid: textList, sentenceLength: text, technicalDepth: text }),
+  finalCoaching: obj({ dos: textList, donts: textList, finalAdvice: text }),
+  reportSections: obj({ introBackground: text, technicalDiscussion: text, productIntegration: text })
+});
+
+// Roster-independent form, used to migrate and check analyses loaded from storage.
+export const analysisResultValidator = createAnalysisResultValidator();
+
+const questionItemValidator: Validator<AssessmentQuestion> = (input, path, issues) => {
+  const question = obj<AssessmentQuestion>({
+    id: (raw) => typeof raw === 'string' ? raw : "", // missing ids are assigned and reported below
+    type: oneOf<QuestionType>(['mcq', 'short', 'long', 'mic'], 'short'),
+    text,
+    options: optional(textList),
+    correctAnswer: text,
+    explanation: text,
+    citation: optional(citationValidator)
+  })(input, path, issues);
+
+  // A multiple-choice question without real choices is still answerable as free text.
+  if (question.type === 'mcq' && (question.options?.length || 0) < 2) {
+    issues.push({ path: `${path}.type`, problem: "multiple choice with fewer than two options, asked as short answer", severity: 'repaired' });
+    question.type = 'short';
+    delete question.options;
+  }
+  return question;
+};
+
+export const assessmentQuestionsValidator: Validator<AssessmentQuestion[]> = (input, path, issues) => {
+  const questions = arr(questionItemValidator, q => q.text.trim().length > 0)(input, path, issues);
+  const seen = new Set<string>();
+  questions.forEach((q, i) => {
+    if (!q.id || seen.has(q.id)) {
+      const id = `q-${i + 1}`;
+      issues.push({ path: `${path}[${i}].id`, problem: q.id ? `duplicate id "${q.id}", renamed to ${id}` : `missing id, assigned ${id}`, severity: 'repaired' });
+      q.id = id;
+    }
+    seen.add(q.id);
+  });
+  return questions;
+};
+
+/** The model returns evaluations with a questionId; timing and the user's answer are merged in by the caller. */
+export const assessmentEvaluationsValidator: Validator<Pick<AssessmentResult, 'questionId' | 'evaluation'>[]> =
+  arr(obj({
+    questionId: text,
+    evaluation: obj({ score: num({ min: 0, max: 100, fallback: 0 }), feedback: text, isCorrect: bool() })
+  }), e => e.questionId.trim().length > 0);
+
+export const cognitiveSearchValidator: Validator<CognitiveSearchResult> = obj<CognitiveSearchResult>({
+  answer: text,
+  cognitiveShot: text,
+  briefExplanation: text,
+  articularSoundbite: text,
+  psychologicalProjection: obj({ buyerFear: text, buyerIncentive: text, strategicLever: text }),
+  citations: arr(obj({ snippet: text, source: str("Unknown source"), check: optional(citationCheckValidator) }), c => c.snippet.trim().length > 0),
+  reasoningChain: obj({ painPoint: text, capability: text, strategicValue: text })
+});
+
+export const suggestionsValidator: Validator<string[]> = textList;
+
+export const groomingEvaluationValidator: Validator<GroomingEvaluation> = obj<GroomingEvaluation>({
+  transcription: text,
+  grammarScore: score,
+  toneAnalysis: text,
+  grammarFeedback: text,
+  sentenceFormation: text,
+  breathPacingGuide: text,
+  strategicAlignment: text,
+  idealWording: text,
+  correctionExplanation: text
+});
+
+export const coachingAdviceValidator: Validator<CoachingAdvice> = obj<CoachingAdvice>({
+  voiceTone: text,
+  openingManeuver: text,
+  answerStrategy: text,
+  handMovements: text,
+  bodyLanguage: text,
+  eyeExpression: text,
+  tacticalClosing: text
+});
@@ -0,0 +1,131 @@
+/**
+ * Tables extracted from spreadsheets are stored as plain text so the library, retrieval
+ * and citation checks keep working unchanged. Each table starts with a marker line
+ * followed by a pipe-delimited header and rows:
+ *
+ *   --- SHEET Pricing (24 rows × 4 columns) ---
+ *   | Product | Tier | Seats | Price |
+ *   | --- | --- | --- | --- |
+ *   | Voice Bot | Enterprise | 500 | $120,000 |
+ */
+
+// Very large sheets are truncated; the marker still reports the full row count.
+const MAX_TABLE_ROWS = 500;
+
+const SHEET_MARKER = /^--- SHEET (.+) \((\d+) rows × (\d+) columns\) ---$/;
+
+export interface ExtractedTable {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface TableOutline {
+  document?: string; // from the "DOC NAME:" line preceding the table in combined prompts
+  name: string;
+  headers: string[];
+  rowCount: number;
+}
+
+/**
+ * RFC 4180 CSV parsing: quoted fields may contain delimiters, doubled quotes and newlines.
+ * The delimiter is guessed from the first line when not given.
+ */
+export const parseDelimited = (text: string, delimiter?: string): string[][] => {
+  const source = text.replace(/^﻿/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] || '';
+  const sep = delimiter
+    || [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === sep) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const cleanCell = (value: unknown) => String(value ?? '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Turns raw sheet rows into a table: blank rows and trailing blank columns are dropped,
+ * and the first non-blank row becomes the header. Unnamed header cells get "Column n".
+ */
+export const toTable = (name: string, rawRows: unknown[][]): ExtractedTable | null => {
+  const rows = rawRows
+    .map(r => r.map(cleanCell))
+    .filter(r => r.some(Boolean));
+  if (rows.length === 0) return null;
+
+  const width = Math.max(...rows.map(r => {
+    let w = r.length;
+    while (w > 0 && !r[w - 1]) w--;
+    return w;
+  }));
+  const padded = rows.map(r => Array.from({ length: width }, (_, i) => r[i] || ''));
+  const [header, ...body] = padded;
+  return { name, headers: header.map((h, i) => h || `Column ${i + 1}`), rows: body };
+};
+
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|');
+const renderRow = (cells: string[]) => `| ${cells.map(escapeCell).join(' | ')} |`;
+
+export const renderTable = (table: ExtractedTable): string => {
+  const shown = table.rows.slice(0, MAX_TABLE_ROWS);
+  const lines = [
+    `--- SHEET ${table.name} (${table.rows.length} rows × ${table.headers.length} columns) ---`,
+    renderRow(table.headers),
+    renderRow(table.headers.map(() => '---')),
+    ...shown.map(renderRow)
+  ];
+  if (table.rows.length > shown.length) lines.push(`(${table.rows.length - shown.length} more rows not shown)`);
+  return lines.join('\n');
+};
+
+export const renderTables = (tables: ExtractedTable[]): string => tables.map(renderTable).join('\n\n');
+
+/** Outlines of every table in a text, without re-parsing the rows. */
+export const outlineTables = (content: string): TableOutline[] => {
+  const outlines: TableOutline[] = [];
+  const lines = content.split('\n');
+  let document: string | undefined;
+
+  lines.forEach((line, i) => {
+    if (line.startsWith('DOC NAME: ')) document = line.substring(10).trim();
+    const marker = line.match(SHEET_MARKER);
+    if (!marker) return;
+    const headerLine = lines[i + 1] || '';
+    const headers = headerLine
+      .replace(/^\|\s*|\s*\|$/g, '')
+      .split(/\s*(?<!\\)\|\s*/)
+      .map(h => h.replace(/\\\|/g, '|'))
+      .filter(Boolean);
+    outlines.push({ document, name: marker[1], headers, rowCount: parseInt(marker[2], 10) });
+  });
+  return outlines;
+};
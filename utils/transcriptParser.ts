@@ -0,0 +1,117 @@
+import { turnMarker } from "./documentMarkers";
+
+/**
+ * Parses call transcripts (WebVTT, SRT, or plain "Speaker: text" exports) into speaker
+ * turns. Consecutive cues from the same speaker are merged so a turn reads as one answer.
+ */
+
+export interface TranscriptTurn {
+  speaker: string;
+  start: number | null; // seconds from the start of the call
+  text: string;
+}
+
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+// "Dana Lee: text", "[00:12:04] Dana Lee: text" or "Dana Lee (12:04): text"
+const LABELLED_LINE = /^\s*(?:[[(]?((?:\d+:)?\d{1,2}:\d{2})[\])]?\s+)?([A-Z][\p{L}.'’ -]{0,40}?)\s*(?:[[(]((?:\d+:)?\d{1,2}:\d{2})[\])])?\s*:\s+(.+)$/u;
+// Otter-style exports put "Dana Lee  12:04" on its own line above the text
+const SPEAKER_HEADER = /^\s*([A-Z][\p{L}.'’ -]{0,40}?)\s+((?:\d+:)?\d{1,2}:\d{2})\s*$/u;
+
+const UNKNOWN_SPEAKER = 'Unknown Speaker';
+
+export const parseTimestamp = (value: string): number => {
+  const [clock, fraction = '0'] = value.split(/[.,]/);
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  return seconds + parseInt(fraction.padEnd(3, '0').substring(0, 3), 10) / 1000;
+};
+
+export const formatTimestamp = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  return [Math.floor(whole / 3600), Math.floor(whole / 60) % 60, whole % 60]
+    .map(n => n.toString().padStart(2, '0'))
+    .join(':');
+};
+
+const mergeTurns = (turns: TranscriptTurn[]): TranscriptTurn[] =>
+  turns.reduce<TranscriptTurn[]>((merged, turn) => {
+    const text = turn.text.trim();
+    if (!text) return merged;
+    const last = merged[merged.length - 1];
+    if (last && last.speaker === turn.speaker) last.text += ` ${text}`;
+    else merged.push({ ...turn, text });
+    return merged;
+  }, []);
+
+// Cue text may name its speaker with a WebVTT voice tag or a "Name:" prefix.
+const splitSpeaker = (text: string, fallback: string) => {
+  const voice = text.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+  const plain = text.replace(/<[^>]+>/g, '').trim();
+  if (voice) return { speaker: voice[1].trim(), text: plain };
+  const prefix = plain.match(/^([A-Z][\p{L}.'’ -]{0,40}?):\s+([\s\S]+)$/u);
+  if (prefix) return { speaker: prefix[1].trim(), text: prefix[2] };
+  return { speaker: fallback, text: plain };
+};
+
+/** WebVTT and SRT share the cue layout: optional id line, timing line, text lines. */
+const parseCues = (text: string): TranscriptTurn[] => {
+  const turns: TranscriptTurn[] = [];
+  let speaker = UNKNOWN_SPEAKER;
+  text.replace(/\r\n/g, '\n').split(/\n\s*\n/).forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex < 0) return;
+    const start = parseTimestamp(lines[timingIndex].match(CUE_TIMING)![1]);
+    const cue = splitSpeaker(lines.slice(timingIndex + 1).join(' '), speaker);
+    // Cues without a label continue the previous speaker
+    speaker = cue.speaker;
+    turns.push({ speaker: cue.speaker, start, text: cue.text });
+  });
+  return turns;
+};
+
+const parseLabelled = (text: string): TranscriptTurn[] => {
+  const turns: TranscriptTurn[] = [];
+  text.replace(/\r\n/g, '\n').split('\n').forEach(line => {
+    if (!line.trim()) return;
+    const labelled = line.match(LABELLED_LINE);
+    if (labelled) {
+      const time = labelled[1] || labelled[3];
+      turns.push({ speaker: labelled[2].trim(), start: time ? parseTimestamp(time) : null, text: labelled[4] });
+      return;
+    }
+    const header = line.match(SPEAKER_HEADER);
+    if (header) {
+      turns.push({ speaker: header[1].trim(), start: parseTimestamp(header[2]), text: '' });
+      return;
+    }
+    const last = turns[turns.length - 1];
+    if (last) last.text += ` ${line.trim()}`;
+    else turns.push({ speaker: UNKNOWN_SPEAKER, start: null, text: line.trim() });
+  });
+  return turns;
+};
+
+export const isCueTranscript = (text: string) =>
+  text.trimStart().startsWith('WEBVTT') || text.split('\n').slice(0, 10).some(line => CUE_TIMING.test(line));
+
+/**
+ * Plain text counts as a transcript when most of its non-empty lines start a speaker turn
+ * and speakers recur. The recurrence check keeps "Budget: ..." style notes out.
+ */
+export const looksLikeTranscript = (text: string): boolean => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean).slice(0, 60);
+  if (lines.length < 4) return false;
+  const speakers = lines
+    .map(l => (l.match(LABELLED_LINE)?.[2] || l.match(SPEAKER_HEADER)?.[1])?.trim())
+    .filter((s): s is string => !!s);
+  const distinct = new Set(speakers).size;
+  return speakers.length / lines.length >= 0.5 && distinct >= 2 && speakers.length >= distinct * 2;
+};
+
+export const parseTranscript = (text: string): TranscriptTurn[] =>
+  mergeTurns(isCueTranscript(text) ? parseCues(text) : parseLabelled(text));
+
+export const renderTranscript = (turns: TranscriptTurn[]): string =>
+  turns
+    .map((turn, i) => `${turnMarker(i + 1, turn.speaker, turn.start === null ? undefined : formatTimestamp(turn.start))}\n${turn.text}`)
+    .join('\n\n');
@@ -0,0 +1,138 @@
+import { ValidationIssue, ValidationSeverity, Validated } from "../types";
+
+/**
+ * Minimal validator combinators for model output.
+ * A validator never throws: it returns a usable value and records what it had to
+ * repair, default or drop so the UI can tell the user what the model got wrong.
+ */
+export type Validator<T> = (input: unknown, path: string, issues: ValidationIssue[]) => T;
+
+export type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+const report = (issues: ValidationIssue[], path: string, problem: string, severity: ValidationSeverity) => {
+  issues.push({ path: path || '(root)', problem, severity });
+};
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const isMissing = (input: unknown) => input === undefined || input === null;
+
+const isPlainObject = (input: unknown): input is Record<string, unknown> =>
+  typeof input === 'object' && input !== null && !Array.isArray(input);
+
+export const str = (fallback = ""): Validator<string> => (input, path, issues) => {
+  if (typeof input === 'string') return input;
+  if (isMissing(input)) {
+    report(issues, path, "missing text", 'defaulted');
+    return fallback;
+  }
+  if (typeof input === 'number' || typeof input === 'boolean') {
+    report(issues, path, `expected text, got ${typeof input}`, 'repaired');
+    return String(input);
+  }
+  report(issues, path, `expected text, got ${Array.isArray(input) ? 'array' : typeof input}`, 'defaulted');
+  return fallback;
+};
+
+export const num = (opts: { min?: number; max?: number; fallback?: number } = {}): Validator<number> => (input, path, issues) => {
+  const fallback = opts.fallback ?? opts.min ?? 0;
+  let value = typeof input === 'number' ? input : typeof input === 'string' ? parseFloat(input) : NaN;
+  if (!Number.isFinite(value)) {
+    report(issues, path, isMissing(input) ? "missing number" : `expected number, got ${JSON.stringify(input)}`, 'defaulted');
+    return fallback;
+  }
+  if (typeof input === 'string') report(issues, path, "number was sent as text", 'repaired');
+  if (opts.min !== undefined && value < opts.min) {
+    report(issues, path, `${value} is below ${opts.min}`, 'repaired');
+    value = opts.min;
+  }
+  if (opts.max !== undefined && value > opts.max) {
+    report(issues, path, `${value} is above ${opts.max}`, 'repaired');
+    value = opts.max;
+  }
+  return value;
+};
+
+export const bool = (fallback = false): Validator<boolean> => (input, path, issues) => {
+  if (typeof input === 'boolean') return input;
+  if (input === 'true' || input === 'false') {
+    report(issues, path, "boolean was sent as text", 'repaired');
+    return input === 'true';
+  }
+  report(issues, path, isMissing(input) ? "missing flag" : `expected boolean, got ${typeof input}`, 'defaulted');
+  return fallback;
+};
+
+/** Accepts one of a fixed set of strings, matching case-insensitively before falling back. */
+export const oneOf = <T extends string>(allowed: readonly T[], fallback: T): Validator<T> => (input, path, issues) => {
+  if (typeof input === 'string') {
+    if ((allowed as readonly string[]).includes(input)) return input as T;
+    const match = allowed.find(a => a.toLowerCase() === input.trim().toLowerCase());
+    if (match) {
+      report(issues, path, `normalized "${input}" to "${match}"`, 'repaired');
+      return match;
+    }
+  }
+  report(issues, path, isMissing(input) ? `missing, expected one of ${allowed.join(', ')}` : `"${String(input)}" is not one of ${allowed.join(', ')}`, 'defaulted');
+  return fallback;
+};
+
+/**
+ * Validates every element. A lone value where a list was expected is wrapped;
+ * elements rejected by `keep` are dropped and reported.
+ */
+export const arr = <T>(item: Validator<T>, keep?: (value: T) => boolean): Validator<T[]> => (input, path, issues) => {
+  let list: unknown[];
+  if (Array.isArray(input)) {
+    list = input;
+  } else if (isMissing(input)) {
+    report(issues, path, "missing list", 'defaulted');
+    return [];
+  } else {
+    report(issues, path, "expected a list, wrapped single value", 'repaired');
+    list = [input];
+  }
+
+  const result: T[] = [];
+  list.forEach((raw, i) => {
+    const itemPath = join(path, i);
+    const itemIssues: ValidationIssue[] = [];
+    const value = item(raw, itemPath, itemIssues);
+    if (keep && !keep(value)) {
+      report(issues, itemPath, "entry was unusable and removed", 'dropped');
+      return;
+    }
+    issues.push(...itemIssues);
+    result.push(value);
+  });
+  return result;
+};
+
+/**
+ * Validates an object field by field. When the whole object is missing it is reported
+ * once and built from defaults, rather than flagging every nested field separately.
+ */
+export const obj = <T>(shape: Shape<T>): Validator<T> => (input, path, issues) => {
+  const source = isPlainObject(input) ? input : {};
+  const fieldIssues = isPlainObject(input) ? issues : [];
+  if (!isPlainObject(input)) {
+    report(issues, path, isMissing(input) ? "missing section" : `expected an object, got ${Array.isArray(input) ? 'array' : typeof input}`, 'defaulted');
+  }
+
+  const result = {} as T;
+  (Object.keys(shape) as (keyof T)[]).forEach(key => {
+    result[key] = shape[key](source[key as string], join(path, key as string), fieldIssues);
+  });
+  return result;
+};
+
+/** Leaves absent values as undefined; present values must pass the inner validator. */
+export const optional = <T>(inner: Validator<T>): Validator<T | undefined> => (input, path, issues) =>
+  isMissing(input) ? undefined : inner(input, path, issues);
+
+export const validate = <T>(validator: Validator<T>, input: unknown, rootPath = ""): Validated<T> => {
+  const issues: ValidationIssue[] = [];
+  const value = validator(input, rootPath, issues);
+  return { value, issues };
+};
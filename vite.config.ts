@@ -12,7 +12,16 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER || ''),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL || ''),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY || ''),
+        'process.env.LLM_MODEL_REASONING': JSON.stringify(env.LLM_MODEL_REASONING || ''),
+        'process.env.LLM_MODEL_FAST': JSON.stringify(env.LLM_MODEL_FAST || ''),
+        'process.env.LLM_MODEL_EMBEDDING': JSON.stringify(env.LLM_MODEL_EMBEDDING || ''),
+        'process.env.RETRIEVAL_EMBEDDINGS': JSON.stringify(env.RETRIEVAL_EMBEDDINGS || ''),
+        'process.env.LLM_RECORD_FIXTURES': JSON.stringify(env.LLM_RECORD_FIXTURES || ''),
+        'process.env.FIREBASE_EMULATOR_HOST': JSON.stringify(env.FIREBASE_EMULATOR_HOST || '')
       },
       resolve: {
         alias: {